@@ -0,0 +1,25 @@
+// Adds .js to the relative imports in the API's declarations. tsc copies the
+// sources' extensionless imports, which only bundler resolution accepts;
+// Node16 and NodeNext projects need the extension to find the types.
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+const root = process.argv[2] ?? "dist/api/types";
+
+const withExtension = (file, specifier) => {
+  const target = join(dirname(file), specifier);
+  if (existsSync(`${target}.d.ts`)) return `${specifier}.js`;
+  if (existsSync(join(target, "index.d.ts"))) return `${specifier}/index.js`;
+  return specifier;
+};
+
+for (const entry of readdirSync(root, { recursive: true, encoding: "utf-8" })) {
+  const file = join(root, entry);
+  if (!file.endsWith(".d.ts")) continue;
+  const source = readFileSync(file, "utf-8");
+  const fixed = source.replace(
+    /(from |import\()"(\.{1,2}\/[^"]*)"/g,
+    (_, prefix, specifier) => `${prefix}"${withExtension(file, specifier)}"`,
+  );
+  if (fixed !== source) writeFileSync(file, fixed);
+}
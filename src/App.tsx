@@ -1,76 +1,110 @@
-import { useState, useEffect } from "preact/hooks";
+import { useState, useEffect, useMemo } from "preact/hooks";
+import * as Progress from "@radix-ui/react-progress";
+import * as Tabs from "@radix-ui/react-tabs";
 import { SummaryCards } from "./components/SummaryCards";
 import { FindingsTable } from "./components/FindingsTable";
+import { ClassificationBanner } from "./components/ClassificationBanner";
+import { CopyMarkdownButton } from "./components/CopyMarkdownButton";
+import { DiagnosticsPanel } from "./components/DiagnosticsPanel";
+import { ErrorOverlay } from "./components/ErrorOverlay";
+import { GateBanner } from "./components/GateBanner";
+import { ReportLoader } from "./components/ReportLoader";
+import { SuppressedFindings } from "./components/SuppressedFindings";
+import { TrendPanel } from "./components/TrendPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "./components/ui/card";
+import { brandingStyle, documentTitle, reportTitle } from "./lib/branding";
+import { decodePayload } from "./lib/compression";
+import { fetchSources, loadReportSources } from "./lib/sources";
+import { cn, resolveSeverityConfig } from "./lib/utils";
+import {
+  loadReport,
+  type ValidationIssue,
+  type ValidationResult,
+} from "./lib/validate";
 import type { ASHReport } from "./types/ash";
 
 export default function App() {
   const [data, setData] = useState<ASHReport | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Without an embedded report the app acts as a standalone viewer
+  const [viewer, setViewer] = useState<boolean>(false);
+  // Served by `ash-report preview`, which pushes every change
+  const [live, setLive] = useState<boolean>(false);
+
+  const severities = useMemo(
+    () => resolveSeverityConfig(data?.severityConfig),
+    [data],
+  );
+
+  useEffect(() => {
+    if (data) document.title = documentTitle(data);
+  }, [data]);
+
+  const showResult = (result: ValidationResult) => {
+    setData(result.report);
+    setIssues(result.issues);
+  };
 
   useEffect(() => {
-    // Load embedded data or fetch from JSON
-    const jsonData = document.getElementById("ash-data")?.textContent;
+    const element = document.getElementById("ash-data");
+    const jsonData = element?.textContent;
+
+    const eventsUrl = element?.getAttribute("data-live");
+    if (eventsUrl) {
+      setLive(true);
+      const events = new EventSource(eventsUrl);
+      events.addEventListener("report", (event) => {
+        const result = JSON.parse(event.data) as ValidationResult;
+        // Keep showing the last good report while the inputs are broken
+        setData((current) => result.report ?? current);
+        setIssues(result.issues);
+        setLoading(false);
+      });
+      return () => events.close();
+    }
     if (jsonData) {
-      try {
-        const parsed: ASHReport = JSON.parse(jsonData);
-        setData(parsed);
-      } catch (error) {
+      const fail = (error: Error) => {
         console.error("Failed to parse ASH data:", error);
-      }
-    } else {
-      // For development, use sample data
-      const sampleData: ASHReport = {
-        findings: [
-          {
-            tool: "Grype",
-            severity: "CRITICAL",
-            message: "Vulnerability CVE-2025-1234 in libfoo",
-            location: "package.json",
-            description:
-              "A critical vulnerability has been discovered in libfoo that could allow remote code execution.",
-            recommendation: "Upgrade to version 2.3.4 or later",
-            cve: "CVE-2025-1234",
-          },
-          {
-            tool: "git-secrets",
-            severity: "HIGH",
-            message: "AWS secret detected",
-            location: "src/config.js",
-            lineNumber: 42,
-            pattern: "AKIA[0-9A-Z]{16}",
-            description: "AWS access key detected in source code.",
-            recommendation:
-              "Remove the hardcoded AWS access key and use environment variables or AWS IAM roles.",
-          },
-          {
-            tool: "Semgrep",
-            severity: "MEDIUM",
-            message: "Potential SQL injection vulnerability",
-            location: "src/database.js",
-            lineNumber: 128,
-            description: "User input is directly concatenated into SQL query.",
-            recommendation: "Use parameterized queries or prepared statements.",
-          },
-          {
-            tool: "CDK-nag",
-            severity: "LOW",
-            message: "S3 bucket versioning not enabled",
-            location: "infrastructure/s3-bucket.ts",
-            description: "S3 bucket does not have versioning enabled.",
-            recommendation:
-              "Enable versioning for better data protection and recovery options.",
-          },
-        ],
-        metadata: {
-          scanDate: new Date().toISOString(),
-          totalFindings: 4,
-          tools: ["Grype", "git-secrets", "Semgrep", "CDK-nag"],
-        },
+        setIssues([{ level: "error", path: "", message: error.message }]);
       };
-      setData(sampleData);
+      const loadEmbedded = (text: string) => {
+        try {
+          showResult(loadReport(text));
+        } catch (error) {
+          fail(error as Error);
+        }
+      };
+
+      // Large reports are embedded gzipped (generator --compress)
+      const encoding = element?.getAttribute("data-encoding");
+      if (encoding) {
+        setProgress(0);
+        decodePayload(jsonData, encoding, setProgress)
+          .then(loadEmbedded, fail)
+          .finally(() => setLoading(false));
+      } else {
+        loadEmbedded(jsonData);
+        setLoading(false);
+      }
+      return;
     }
-    setLoading(false);
+
+    setViewer(true);
+    const urls = new URLSearchParams(window.location.search).getAll("src");
+    if (urls.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    fetchSources(urls)
+      .then((sources) => showResult(loadReportSources(sources)))
+      .catch((error: Error) =>
+        setIssues([{ level: "error", path: "", message: error.message }]),
+      )
+      .finally(() => setLoading(false));
   }, []);
 
   if (loading) {
@@ -79,14 +113,31 @@ export default function App() {
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
           <p className="text-gray-600">Loading security report...</p>
+          {progress !== null && (
+            <Progress.Root
+              value={Math.round(progress * 100)}
+              aria-label="Decompressing report"
+              className="mt-4 h-2 w-64 overflow-hidden rounded-full bg-gray-200"
+            >
+              <Progress.Indicator
+                className="h-full bg-blue-600 transition-transform"
+                style={{ transform: `translateX(-${100 - progress * 100}%)` }}
+              />
+            </Progress.Root>
+          )}
         </div>
       </div>
     );
   }
 
+  if (!data && viewer) {
+    return <ReportLoader onLoad={showResult} issues={issues} />;
+  }
+
   if (!data) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        {live && <ErrorOverlay issues={issues} />}
         <div className="text-center">
           <h1 className="text-2xl font-bold text-gray-800 mb-4">
             No Data Available
@@ -94,19 +145,75 @@ export default function App() {
           <p className="text-gray-600">
             Unable to load ASH security report data.
           </p>
+          <div className="mt-6 text-left">
+            <DiagnosticsPanel issues={issues} />
+          </div>
         </div>
       </div>
     );
   }
 
+  const findingsTable = (
+    <FindingsTable
+      findings={data.findings}
+      severities={severities}
+      fixed={data.baseline?.fixed}
+    />
+  );
+
+  const { branding } = data;
+
   return (
-    <div className="min-h-screen bg-gray-50">
-      <div className="container mx-auto px-4 py-8">
+    <div className="min-h-screen bg-gray-50" style={brandingStyle(branding)}>
+      {live && <ErrorOverlay issues={issues} />}
+      <ClassificationBanner
+        classification={branding?.classification}
+        position="top"
+      />
+      <div
+        className={cn(
+          "container mx-auto px-4 py-8",
+          branding?.classification && "print:py-10",
+        )}
+      >
         {/* Header */}
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            ASH Security Report
-          </h1>
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-4 mb-2">
+              {branding?.logo && (
+                <img
+                  src={branding.logo}
+                  alt={
+                    branding.companyName
+                      ? `${branding.companyName} logo`
+                      : "Logo"
+                  }
+                  className="h-12 w-auto"
+                />
+              )}
+              <div>
+                {branding?.companyName && (
+                  <p className="text-sm font-semibold uppercase tracking-wide text-accent-dark">
+                    {branding.companyName}
+                  </p>
+                )}
+                <h1 className="text-3xl font-bold text-gray-900">
+                  {reportTitle(data)}
+                </h1>
+              </div>
+            </div>
+            <div className="flex gap-4 print:hidden">
+              <CopyMarkdownButton report={data} />
+              {viewer && (
+                <button
+                  onClick={() => showResult({ report: null, issues: [] })}
+                  className="text-accent hover:text-accent-dark text-sm"
+                >
+                  Open other files
+                </button>
+              )}
+            </div>
+          </div>
           <p className="text-gray-600">
             Scan completed:{" "}
             {new Date(data.metadata?.scanDate || Date.now()).toLocaleString()}
@@ -114,11 +221,25 @@ export default function App() {
           <p className="text-sm text-gray-500 mt-1">
             Total findings: {data.findings.length} | Tools used:{" "}
             {data.metadata?.tools.join(", ")}
+            {data.metadata?.projects && (
+              <> | Projects: {data.metadata.projects.length}</>
+            )}
           </p>
+          <GateBanner gate={data.gate} />
         </div>
 
+        <DiagnosticsPanel issues={issues} />
+
         {/* Summary Cards */}
-        <SummaryCards findings={data.findings} />
+        <SummaryCards
+          findings={data.findings}
+          severities={severities}
+          baseline={data.baseline}
+        />
+
+        {data.trend && (
+          <TrendPanel trend={data.trend} severities={severities} />
+        )}
 
         {/* Detailed Findings */}
         <Card>
@@ -126,10 +247,48 @@ export default function App() {
             <CardTitle>Security Findings</CardTitle>
           </CardHeader>
           <CardContent>
-            <FindingsTable findings={data.findings} />
+            {data.suppressions ? (
+              <Tabs.Root defaultValue="findings">
+                <Tabs.List className="mb-4 flex space-x-1 border-b">
+                  <Tabs.Trigger
+                    value="findings"
+                    className="px-3 py-2 text-sm font-medium border-b-2 border-transparent data-[state=active]:border-accent data-[state=active]:text-accent-dark"
+                  >
+                    Findings ({data.findings.length})
+                  </Tabs.Trigger>
+                  <Tabs.Trigger
+                    value="suppressed"
+                    className="px-3 py-2 text-sm font-medium border-b-2 border-transparent data-[state=active]:border-accent data-[state=active]:text-accent-dark"
+                  >
+                    Suppressed ({data.suppressions.suppressed.length})
+                  </Tabs.Trigger>
+                </Tabs.List>
+                <Tabs.Content value="findings">
+                  {findingsTable}
+                </Tabs.Content>
+                <Tabs.Content value="suppressed">
+                  <SuppressedFindings
+                    suppressions={data.suppressions}
+                    severities={severities}
+                  />
+                </Tabs.Content>
+              </Tabs.Root>
+            ) : (
+              findingsTable
+            )}
           </CardContent>
         </Card>
+
+        {branding?.footer && (
+          <footer className="mt-8 text-center text-sm text-gray-500">
+            {branding.footer}
+          </footer>
+        )}
       </div>
+      <ClassificationBanner
+        classification={branding?.classification}
+        position="bottom"
+      />
     </div>
   );
 }
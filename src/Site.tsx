@@ -0,0 +1,117 @@
+import type { ComponentChildren } from "preact";
+import { useEffect, useMemo } from "preact/hooks";
+import { LocationProvider, Route, Router, useLocation } from "preact-iso";
+import { ClassificationBanner } from "./components/ClassificationBanner";
+import { Header } from "./components/Header";
+import { brandingStyle } from "./lib/branding";
+import { buildSiteMap, sitePages, type SiteMap } from "./lib/site";
+import { resolveSeverityConfig } from "./lib/utils";
+import { SiteContext, type SiteData } from "./pages/context";
+import { FileList, FilePage } from "./pages/Files";
+import { FindingPage } from "./pages/Finding";
+import { Overview } from "./pages/Overview";
+import { ToolList, ToolPage } from "./pages/Tools";
+import { NotFound } from "./pages/_404";
+import type { ASHReport } from "./types/ash";
+
+interface SiteProps {
+  report: ASHReport;
+  // Path the site is served from, starting and ending with "/"
+  base?: string;
+  // Prerenders the page at this URL instead of following the browser's
+  url?: string;
+  // Passed in when prerendering many pages of one report
+  map?: SiteMap;
+}
+
+// Stands in for LocationProvider while prerendering, when there is no
+// browser location to read or history to push to
+function StaticLocation({
+  url,
+  children,
+}: {
+  url: string;
+  children: ComponentChildren;
+}) {
+  const value = {
+    url,
+    path: url.replace(/\/+$/, "") || "/",
+    query: {},
+    route: () => {},
+  };
+  return (
+    <LocationProvider.ctx.Provider value={value}>
+      {children}
+    </LocationProvider.ctx.Provider>
+  );
+}
+
+// Keeps the document title in step with client-side navigation
+function DocumentTitle({ site }: { site: SiteData }) {
+  const { path } = useLocation();
+  useEffect(() => {
+    const page = sitePages(site.report, site.map).find(
+      (page) => `${site.base}${page.path}`.replace(/\/+$/, "") === path,
+    );
+    if (page) document.title = page.title;
+  }, [site, path]);
+  return null;
+}
+
+/**
+ * The static site output: an overview, a page per tool, file and finding,
+ * and a 404 page for everything else.
+ */
+export function Site({ report, base = "/", url, map }: SiteProps) {
+  const site = useMemo<SiteData>(
+    () => ({
+      report,
+      base,
+      map: map ?? buildSiteMap(report),
+      severities: resolveSeverityConfig(report.severityConfig),
+    }),
+    [report, base, map],
+  );
+
+  const pages = (
+    <SiteContext.Provider value={site}>
+      <DocumentTitle site={site} />
+      <div
+        className="min-h-screen bg-gray-50"
+        style={brandingStyle(report.branding)}
+      >
+        <ClassificationBanner
+          classification={report.branding?.classification}
+          position="top"
+        />
+        <Header base={base} branding={report.branding} />
+        <main className="container mx-auto px-4 py-8">
+          <Router>
+            <Route path={base} component={Overview} />
+            <Route path={`${base}tools`} component={ToolList} />
+            <Route path={`${base}tools/:slug`} component={ToolPage} />
+            <Route path={`${base}files`} component={FileList} />
+            <Route path={`${base}files/:slug`} component={FilePage} />
+            <Route path={`${base}findings/:slug`} component={FindingPage} />
+            <Route default component={NotFound} />
+          </Router>
+        </main>
+        {report.branding?.footer && (
+          <footer className="pb-8 text-center text-sm text-gray-500">
+            {report.branding.footer}
+          </footer>
+        )}
+        <ClassificationBanner
+          classification={report.branding?.classification}
+          position="bottom"
+        />
+      </div>
+    </SiteContext.Provider>
+  );
+
+  return url === undefined ? (
+    <LocationProvider scope={base}>{pages}</LocationProvider>
+  ) : (
+    <StaticLocation url={url}>{pages}</StaticLocation>
+  );
+}
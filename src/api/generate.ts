@@ -0,0 +1,184 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { CliContext } from "../cli/command";
+import { renderReportHtml } from "../cli/html";
+import { writeSite } from "../cli/site";
+import { compareToBaseline } from "../lib/diff";
+import { exporters, type ExportFormat } from "../lib/export";
+import { evaluateGate, hasGate, type GateConfig } from "../lib/gate";
+import { redactReport, type RedactOptions } from "../lib/redact";
+import { applySuppressions } from "../lib/suppress";
+import type {
+  ASHReport,
+  Branding,
+  SeverityLevel,
+  SeverityOverrides,
+  Suppression,
+} from "../types/ash";
+
+export type OutputFormat = "html" | ExportFormat;
+
+export interface PrepareOptions {
+  title?: string;
+  // Merged over the report's own overrides
+  severityConfig?: SeverityOverrides;
+  // Merged over the report's own branding; logos must be data URIs
+  branding?: Branding;
+  // Earlier scan to mark findings as new, existing or fixed
+  baseline?: ASHReport;
+  suppressions?: Suppression[];
+  gate?: GateConfig;
+  // Secret-scanning findings are masked unless this is false
+  redact?: RedactOptions | false;
+}
+
+export interface RenderOptions {
+  to?: OutputFormat;
+  // JUnit: findings at this severity or above fail (default: the gate's
+  // failOn level, else LOW)
+  threshold?: SeverityLevel;
+  // Markdown: rows in the top findings table (default: 10)
+  top?: number;
+  // HTML: embed the data gzipped
+  compress?: boolean;
+  // HTML: the built app, the package's dist/assets by default
+  assetsDir?: string;
+  // HTML: progress messages such as the assets found
+  log?: (text: string) => void;
+}
+
+export interface GenerateOptions extends PrepareOptions, RenderOptions {
+  report: ASHReport;
+  // Written when given, creating missing directories; relative paths resolve
+  // against the working directory
+  outputPath?: string;
+}
+
+export interface GeneratedReport {
+  // The rendered report, also returned when it was written
+  output: string;
+  // The report as rendered, with the baseline, suppressions, gate and
+  // redaction applied
+  report: ASHReport;
+  // Absolute path of the written file
+  outputPath?: string;
+}
+
+export interface GenerateSiteOptions extends PrepareOptions {
+  report: ASHReport;
+  // Created when missing; relative paths resolve against the working
+  // directory
+  outputDir: string;
+  // URL path the site is served from (default: /)
+  base?: string;
+  // The built app, the package's dist/assets by default
+  assetsDir?: string;
+}
+
+export interface GeneratedSite {
+  report: ASHReport;
+  // Absolute path of the site's directory
+  outputDir: string;
+  // Pages written, including 404.html
+  pages: number;
+}
+
+/**
+ * Applies what `generate` does to a report before rendering it, in the same
+ * order: suppressions and baselines see the original findings, the gate sees
+ * what is left, and secrets are masked last.
+ */
+export function prepareReport(
+  report: ASHReport,
+  {
+    title,
+    severityConfig,
+    branding,
+    baseline,
+    suppressions,
+    gate,
+    redact = {},
+  }: PrepareOptions = {},
+): ASHReport {
+  let prepared: ASHReport = {
+    ...report,
+    title: title ?? report.title,
+    ...(severityConfig
+      ? { severityConfig: { ...report.severityConfig, ...severityConfig } }
+      : {}),
+    ...(branding ? { branding: { ...report.branding, ...branding } } : {}),
+  };
+  if (baseline) prepared = compareToBaseline(prepared, baseline);
+  if (suppressions) prepared = applySuppressions(prepared, suppressions);
+  if (gate && hasGate(gate)) {
+    prepared = { ...prepared, gate: evaluateGate(prepared, gate) };
+  }
+  return redact ? redactReport(prepared, redact) : prepared;
+}
+
+/** Renders a report as a self-contained HTML page or an export format. */
+export function renderReport(
+  report: ASHReport,
+  {
+    to = "html",
+    threshold,
+    top,
+    compress = false,
+    assetsDir,
+    log = () => {},
+  }: RenderOptions = {},
+): string {
+  if (to !== "html") return exporters[to](report, { threshold, top });
+  const context: CliContext = {
+    cwd: process.cwd(),
+    stdout: log,
+    stderr: log,
+    assetsDir,
+  };
+  return renderReportHtml(report, { compress }, context);
+}
+
+/**
+ * Builds a report for build tooling without going through the command line.
+ * Throws when the HTML assets cannot be found or the file cannot be written;
+ * a failed quality gate is reported in `report.gate` instead.
+ */
+export function generateReport({
+  report,
+  outputPath,
+  ...options
+}: GenerateOptions): GeneratedReport {
+  const prepared = prepareReport(report, options);
+  const output = renderReport(prepared, {
+    ...options,
+    threshold: options.threshold ?? options.gate?.failOn,
+  });
+  if (outputPath === undefined) return { output, report: prepared };
+
+  const path = resolve(outputPath);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, output, "utf-8");
+  return { output, report: prepared, outputPath: path };
+}
+
+/**
+ * Writes the report as a static site with a page per tool, file and finding,
+ * as `generate --to site` does.
+ */
+export async function generateSite({
+  report,
+  outputDir,
+  base,
+  assetsDir,
+  ...options
+}: GenerateSiteOptions): Promise<GeneratedSite> {
+  const prepared = prepareReport(report, options);
+  const path = resolve(outputDir);
+  const pages = await writeSite(
+    prepared,
+    path,
+    { base },
+    { cwd: process.cwd(), stdout: () => {}, stderr: () => {}, assetsDir },
+  );
+  return { report: prepared, outputDir: path, pages };
+}
@@ -0,0 +1,44 @@
+/**
+ * Node API for build tooling, e.g.
+ *
+ *   const { report } = loadReport(readFileSync("aggregated_results.json", "utf-8"));
+ *   generateReport({ report, outputPath: "report.html", gate: { failOn: "HIGH" } });
+ *
+ * Nothing here reads process.argv or exits the process.
+ */
+export {
+  generateReport,
+  generateSite,
+  prepareReport,
+  renderReport,
+  type GenerateOptions,
+  type GenerateSiteOptions,
+  type GeneratedReport,
+  type GeneratedSite,
+  type OutputFormat,
+  type PrepareOptions,
+  type RenderOptions,
+} from "./generate";
+export { DEFAULT_ASSETS_DIR } from "../cli/html";
+export { compareToBaseline, diffReports, type ReportDiff } from "../lib/diff";
+export {
+  exporters,
+  isExportFormat,
+  type ExportFormat,
+  type ExportOptions,
+} from "../lib/export";
+export { evaluateGate, type GateConfig } from "../lib/gate";
+export { mergeReports } from "../lib/merge";
+export { normalizeReport, type ReportFormat } from "../lib/normalize";
+export { redactReport, type RedactOptions } from "../lib/redact";
+export { loadReportSources, type ReportSource } from "../lib/sources";
+export { applySuppressions } from "../lib/suppress";
+export { buildTrend, trendReport } from "../lib/trend";
+export {
+  loadReport,
+  validateReport,
+  validateSuppressions,
+  type ValidationIssue,
+  type ValidationResult,
+} from "../lib/validate";
+export type * from "../types/ash";
@@ -0,0 +1,77 @@
+import type { ExitCode } from "./errors";
+
+export interface CliContext {
+  // Relative input and output paths resolve against this
+  cwd: string;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  // Built app to inline in HTML reports, the package's dist/assets by default
+  assetsDir?: string;
+}
+
+export interface OptionSpec {
+  type: "string" | "boolean";
+  short?: string;
+  // Placeholder shown in --help, e.g. "<file>"
+  value?: string;
+  // Can be given more than once, collecting the values in order
+  multiple?: boolean;
+  description: string;
+}
+
+export interface ParsedArgs {
+  values: Record<string, string | string[] | boolean | undefined>;
+  positionals: string[];
+}
+
+export interface Command {
+  name: string;
+  summary: string;
+  // Arguments after the command name, e.g. "<input...>"
+  usage: string;
+  options: Record<string, OptionSpec>;
+  run: (args: ParsedArgs, context: CliContext) => Promise<ExitCode> | ExitCode;
+}
+
+export const helpOption: Record<string, OptionSpec> = {
+  help: { type: "boolean", short: "h", description: "Show this help" },
+};
+
+export const inputOptions: Record<string, OptionSpec> = {
+  format: {
+    type: "string",
+    short: "f",
+    value: "<format>",
+    description: "Input format, detected per file by default",
+  },
+  config: {
+    type: "string",
+    short: "c",
+    value: "<file>",
+    description: "JSON config file with defaults for these options",
+  },
+};
+
+export const redactionOptions: Record<string, OptionSpec> = {
+  "no-redact": {
+    type: "boolean",
+    description: "Keep secrets in secret-scanning findings unmasked",
+  },
+  "redact-pattern": {
+    type: "string",
+    value: "<regex>",
+    multiple: true,
+    description: "Also mask matches in every finding (repeatable)",
+  },
+};
+
+export const stringValue = (args: ParsedArgs, name: string) =>
+  typeof args.values[name] === "string"
+    ? (args.values[name] as string)
+    : undefined;
+
+export const stringValues = (args: ParsedArgs, name: string) =>
+  Array.isArray(args.values[name]) ? (args.values[name] as string[]) : [];
+
+export const booleanValue = (args: ParsedArgs, name: string) =>
+  args.values[name] === true;
@@ -0,0 +1,72 @@
+import { diffReports } from "../../lib/diff";
+import { redactReport } from "../../lib/redact";
+import { resolveSeverityConfig } from "../../lib/utils";
+import {
+  type Command,
+  booleanValue,
+  helpOption,
+  inputOptions,
+  redactionOptions,
+  stringValue,
+} from "../command";
+import { inputFormat, loadConfig, redactOptions } from "../config";
+import { CliError, ExitCode, UsageError } from "../errors";
+import { loadInputs } from "../inputs";
+import { formatFinding, writeOutput } from "../output";
+
+export const diff: Command = {
+  name: "diff",
+  summary: "List findings that are new or fixed between two scans",
+  usage: "<base> <head>",
+  options: {
+    output: {
+      type: "string",
+      short: "o",
+      value: "<file>",
+      description: "Write the comparison to a file instead of stdout",
+    },
+    json: { type: "boolean", description: "Print the comparison as JSON" },
+    "fail-on-new": {
+      type: "boolean",
+      description: "Exit with 1 when the head scan has new findings",
+    },
+    ...redactionOptions,
+    ...inputOptions,
+    ...helpOption,
+  },
+
+  run(args, context) {
+    if (args.positionals.length !== 2) {
+      throw new UsageError("diff takes exactly two reports: <base> <head>");
+    }
+    const config = loadConfig(args, context);
+    const redact = redactOptions(args, config);
+    const [base, head] = args.positionals.map((input) => {
+      const { report } = loadInputs([input], inputFormat(args, config), context);
+      if (!report) throw new CliError(`${input} has no usable findings`);
+      return redact ? redactReport(report, redact) : report;
+    });
+
+    const { added, fixed, unchanged } = diffReports(base, head);
+    const severities = resolveSeverityConfig(head.severityConfig);
+
+    const text = booleanValue(args, "json")
+      ? `${JSON.stringify({ added, fixed, unchanged: unchanged.length }, null, 2)}\n`
+      : [
+          `Comparing ${args.positionals[0]} → ${args.positionals[1]}`,
+          `  + ${added.length} new`,
+          `  - ${fixed.length} fixed`,
+          `  = ${unchanged.length} unchanged`,
+          ...(added.length > 0 ? ["", "New findings:"] : []),
+          ...added.map((f) => `  + ${formatFinding(f, severities)}`),
+          ...(fixed.length > 0 ? ["", "Fixed findings:"] : []),
+          ...fixed.map((f) => `  - ${formatFinding(f, severities)}`),
+          "",
+        ].join("\n");
+    writeOutput(text, stringValue(args, "output"), context);
+
+    return booleanValue(args, "fail-on-new") && added.length > 0
+      ? ExitCode.Failure
+      : ExitCode.Success;
+  },
+};
@@ -0,0 +1,90 @@
+import { prepareReport } from "../../api/generate";
+import { exporters, isExportFormat } from "../../lib/export";
+import {
+  type Command,
+  helpOption,
+  inputOptions,
+  redactionOptions,
+  stringValue,
+} from "../command";
+import {
+  inputFormat,
+  loadConfig,
+  redactOptions,
+  toGateLevel,
+  topCount,
+} from "../config";
+import { ExitCode, UsageError } from "../errors";
+import { hasErrors, loadInputs } from "../inputs";
+import { writeOutput } from "../output";
+
+const exportFormats = Object.keys(exporters).join(", ");
+
+export const exportCommand: Command = {
+  name: "export",
+  summary: "Convert reports to another format",
+  usage: "<input...>",
+  options: {
+    to: {
+      type: "string",
+      value: "<format>",
+      description: `Output format: ${exportFormats} (default: json)`,
+    },
+    threshold: {
+      type: "string",
+      value: "<severity>",
+      description: "JUnit: findings at this severity or above fail (default: LOW)",
+    },
+    top: {
+      type: "string",
+      value: "<count>",
+      description: "Markdown: findings in the top findings table (default: 10)",
+    },
+    output: {
+      type: "string",
+      short: "o",
+      value: "<file>",
+      description: "File to write instead of stdout",
+    },
+    ...redactionOptions,
+    ...inputOptions,
+    ...helpOption,
+  },
+
+  run(args, context) {
+    const to = stringValue(args, "to") ?? "json";
+    if (!isExportFormat(to)) {
+      throw new UsageError(
+        `Unknown export format "${to}" (expected one of ${exportFormats})`,
+      );
+    }
+
+    const config = loadConfig(args, context);
+    const threshold = stringValue(args, "threshold");
+    const options = {
+      threshold: threshold ? toGateLevel(threshold) : config.failOn,
+      top: topCount(args),
+    };
+    const result = loadInputs(
+      args.positionals,
+      inputFormat(args, config),
+      context,
+    );
+    if (!result.report || hasErrors(result)) {
+      context.stderr(`❌ ${args.positionals.join(", ")} failed validation`);
+      return ExitCode.Failure;
+    }
+
+    const report = prepareReport(result.report, {
+      title: config.title,
+      branding: config.branding,
+      redact: redactOptions(args, config) ?? false,
+    });
+    writeOutput(
+      exporters[to](report, options),
+      stringValue(args, "output") ?? config.output,
+      context,
+    );
+    return ExitCode.Success;
+  },
+};
@@ -0,0 +1,311 @@
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  prepareReport,
+  renderReport,
+  type OutputFormat,
+} from "../../api/generate";
+import { statusCounts } from "../../lib/diff";
+import { exportExtensions, exporters, isExportFormat } from "../../lib/export";
+import { gateViolations } from "../../lib/gate";
+import type { ReportFormat } from "../../lib/normalize";
+import { describeSuppression } from "../../lib/suppress";
+import { formatDays, trendReport } from "../../lib/trend";
+import {
+  validateSeverityConfig,
+  type ValidationResult,
+} from "../../lib/validate";
+import type { ASHReport } from "../../types/ash";
+import {
+  type CliContext,
+  type Command,
+  booleanValue,
+  helpOption,
+  inputOptions,
+  redactionOptions,
+  stringValue,
+} from "../command";
+import {
+  gateConfig,
+  inputFormat,
+  loadConfig,
+  readJsonFile,
+  readSuppressions,
+  redactOptions,
+  topCount,
+} from "../config";
+import { CliError, ExitCode, UsageError } from "../errors";
+import { hasErrors, loadInputs, loadScans } from "../inputs";
+import { formatGate, formatSeverityCounts } from "../output";
+import { writeSite } from "../site";
+
+export const DEFAULT_OUTPUT = "ash-security-report.html";
+
+const outputFormats = ["html", "site", ...Object.keys(exporters)].join(", ");
+
+function toOutputFormat(name: string): OutputFormat | "site" {
+  if (name !== "html" && name !== "site" && !isExportFormat(name)) {
+    throw new UsageError(
+      `Unknown output format "${name}" (expected one of ${outputFormats})`,
+    );
+  }
+  return name;
+}
+
+const defaultOutput = (to: OutputFormat | "site") => {
+  if (to === "html") return DEFAULT_OUTPUT;
+  // A directory for the site's pages
+  if (to === "site") return DEFAULT_OUTPUT.replace(/\.html$/, "");
+  return DEFAULT_OUTPUT.replace(/html$/, exportExtensions[to]);
+};
+
+// Each input is a scan of its own; the latest is reported with the trend
+function loadTrend(
+  inputs: string[],
+  format: ReportFormat | undefined,
+  context: CliContext,
+): ValidationResult {
+  const results = loadScans(inputs, format, context);
+  const scans = results.flatMap(({ report }) => (report ? [report] : []));
+  return {
+    report: scans.length > 0 ? trendReport(scans) : null,
+    issues: results.flatMap(({ issues }) => issues),
+  };
+}
+
+export const generate: Command = {
+  name: "generate",
+  summary: "Build a self-contained HTML report",
+  usage: "<input...>",
+  options: {
+    output: {
+      type: "string",
+      short: "o",
+      value: "<file>",
+      description: `File to write, or directory for a site (default: ${
+        DEFAULT_OUTPUT
+      })`,
+    },
+    to: {
+      type: "string",
+      value: "<format>",
+      description: `Output format: ${outputFormats} (default: html)`,
+    },
+    title: {
+      type: "string",
+      short: "t",
+      value: "<title>",
+      description: "Report heading and page title",
+    },
+    compress: {
+      type: "boolean",
+      description: "Embed the data gzipped for large reports",
+    },
+    base: {
+      type: "string",
+      value: "<path>",
+      description: "Site: URL path the site is served from (default: /)",
+    },
+    "severity-config": {
+      type: "string",
+      value: "<file>",
+      description: "JSON with severity labels, ordering, colors and icons",
+    },
+    trend: {
+      type: "boolean",
+      description: "Chart trends across the inputs, one scan per file",
+    },
+    baseline: {
+      type: "string",
+      value: "<file>",
+      description: "Earlier scan to mark findings as new, existing or fixed",
+    },
+    suppressions: {
+      type: "string",
+      value: "<file>",
+      description: "JSON of findings to hide, with justification and expiry",
+    },
+    top: {
+      type: "string",
+      value: "<count>",
+      description: "Markdown: findings in the top findings table (default: 10)",
+    },
+    "fail-on": {
+      type: "string",
+      value: "<severity>",
+      description: "Exit 1 when any finding is at this severity or above",
+    },
+    max: {
+      type: "string",
+      value: "<key=count>",
+      multiple: true,
+      description: "Exit 1 when a severity or tool exceeds the count (repeatable)",
+    },
+    ...redactionOptions,
+    ...inputOptions,
+    ...helpOption,
+  },
+
+  async run(args, context) {
+    const config = loadConfig(args, context);
+    const to = toOutputFormat(stringValue(args, "to") ?? "html");
+    const top = topCount(args);
+
+    // A trailing .html argument names the output, as in earlier versions
+    const inputs = args.positionals.filter((arg) => !arg.endsWith(".html"));
+    const output =
+      stringValue(args, "output") ??
+      args.positionals.find((arg) => arg.endsWith(".html")) ??
+      config.output ??
+      defaultOutput(to);
+
+    context.stdout("📖 Reading ASH data...");
+    const result = (booleanValue(args, "trend") ? loadTrend : loadInputs)(
+      inputs,
+      inputFormat(args, config),
+      context,
+    );
+    if (!result.report || hasErrors(result)) {
+      context.stderr(`❌ ${inputs.join(", ")} failed validation`);
+      return ExitCode.Failure;
+    }
+    const { trend } = result.report;
+    if (trend) {
+      const { scans, remediation } = trend;
+      context.stdout(
+        `  Trend across ${scans.length} scans from ${scans[0].scanDate} to ${scans[scans.length - 1].scanDate}`,
+      );
+      context.stdout(
+        remediation.meanDays === undefined
+          ? "  No findings were remediated between the scans"
+          : `  Mean time to remediate: ${formatDays(remediation.meanDays)} (${remediation.count} findings)`,
+      );
+    }
+    if (result.report.metadata.projects) {
+      context.stdout(
+        `  Merged ${result.report.metadata.projects.length} scans: ${result.report.metadata.projects.map((scan) => scan.project).join(", ")}`,
+      );
+    }
+    context.stdout(
+      `  ${result.report.findings.length} findings from ${result.report.metadata.tools.join(", ")}`,
+    );
+
+    const severityConfigPath = stringValue(args, "severity-config");
+    const severityOverrides = severityConfigPath
+      ? validateSeverityConfig(
+          readJsonFile(severityConfigPath, context),
+          (field, message) =>
+            context.stderr(
+              `  warning: ${severityConfigPath} ${field}: ${message}`,
+            ),
+        )
+      : undefined;
+
+    const baselinePath = stringValue(args, "baseline");
+    let baseline: ASHReport | undefined;
+    if (baselinePath) {
+      const { report } = loadInputs(
+        [baselinePath],
+        inputFormat(args, config),
+        context,
+      );
+      if (!report) throw new CliError(`${baselinePath} has no usable findings`);
+      baseline = report;
+    }
+
+    const suppressionsPath =
+      stringValue(args, "suppressions") ?? config.suppressions;
+    const gate = gateConfig(args, config);
+    const report = prepareReport(result.report, {
+      title: stringValue(args, "title") ?? config.title,
+      severityConfig:
+        config.severityConfig || severityOverrides
+          ? { ...config.severityConfig, ...severityOverrides }
+          : undefined,
+      branding: config.branding,
+      baseline,
+      suppressions: suppressionsPath
+        ? readSuppressions(suppressionsPath, context)
+        : undefined,
+      gate,
+      redact: redactOptions(args, config) ?? false,
+    });
+
+    if (report.baseline) {
+      const counts = statusCounts(report);
+      context.stdout(
+        `  Compared with ${baselinePath}: ${counts.new} new, ${counts.existing} existing, ${counts.fixed} fixed`,
+      );
+    }
+
+    if (report.suppressions) {
+      const { suppressed, expired, unused } = report.suppressions;
+      context.stdout(`  ${suppressed.length} findings suppressed`);
+      for (const suppression of expired) {
+        context.stderr(
+          `  warning: suppression expired on ${suppression.expires} (${describeSuppression(suppression)}, owner ${suppression.owner}); its findings are reported again`,
+        );
+      }
+      for (const suppression of unused) {
+        context.stderr(
+          `  warning: unused suppression (${describeSuppression(suppression)}); no findings matched`,
+        );
+      }
+    }
+
+    const redacted = report.findings.filter((f) => f.redacted).length;
+    if (redacted > 0) {
+      context.stdout(`  Masked secrets in ${redacted} findings`);
+    }
+
+    if (report.gate) {
+      context.stdout(
+        ["Findings by severity:", ...formatSeverityCounts(report)].join("\n"),
+      );
+      context.stdout(formatGate(report.gate).join("\n"));
+    }
+
+    if (to === "site") {
+      context.stdout("🔧 Generating static site...");
+      const pages = await writeSite(
+        report,
+        output,
+        { base: stringValue(args, "base") },
+        context,
+      );
+      context.stdout(`✅ Successfully generated: ${output} (${pages} pages)`);
+    } else {
+      context.stdout(
+        `🔧 Generating ${to === "html" ? "HTML" : to} report...`,
+      );
+      const text = renderReport(report, {
+        to,
+        threshold: gate.failOn,
+        top,
+        compress: booleanValue(args, "compress") || config.compress,
+        assetsDir: context.assetsDir,
+        log: context.stdout,
+      });
+
+      try {
+        writeFileSync(resolve(context.cwd, output), text, "utf-8");
+      } catch (error) {
+        throw new CliError(
+          `Cannot write ${output}: ${(error as Error).message}`,
+        );
+      }
+      context.stdout(`✅ Successfully generated: ${output}`);
+      context.stdout(`📊 Report size: ${Math.round(text.length / 1024)}KB`);
+    }
+
+    // The report is still written so the failure can be inspected
+    if (report.gate && !report.gate.passed) {
+      const violations = gateViolations(report.gate).map(
+        ({ label, count, limit }) => `${label} ${count} > ${limit}`,
+      );
+      context.stderr(`❌ Quality gate failed: ${violations.join(", ")}`);
+      return ExitCode.Failure;
+    }
+    return ExitCode.Success;
+  },
+};
@@ -0,0 +1,71 @@
+import {
+  type Command,
+  helpOption,
+  inputOptions,
+  redactionOptions,
+  stringValue,
+} from "../command";
+import { inputFormat, loadConfig, redactOptions } from "../config";
+import { ExitCode, UsageError } from "../errors";
+import { expandInputs } from "../inputs";
+import { startPreviewServer } from "../preview";
+
+const DEFAULT_PORT = 8080;
+
+function toPort(value: string): number {
+  const port = Number(value);
+  if (!/^\d+$/.test(value) || port > 65535) {
+    throw new UsageError(`Invalid port "${value}" (expected 0-65535)`);
+  }
+  return port;
+}
+
+export const preview: Command = {
+  name: "preview",
+  summary: "Serve a live report that reloads when the inputs change",
+  usage: "<input...>",
+  options: {
+    port: {
+      type: "string",
+      short: "p",
+      value: "<port>",
+      description: `Port to listen on, 0 for any free one (default: ${DEFAULT_PORT})`,
+    },
+    host: {
+      type: "string",
+      value: "<host>",
+      description: "Address to listen on (default: 127.0.0.1)",
+    },
+    ...redactionOptions,
+    ...inputOptions,
+    ...helpOption,
+  },
+
+  async run(args, context) {
+    const config = loadConfig(args, context);
+    const port = toPort(stringValue(args, "port") ?? String(DEFAULT_PORT));
+    const files = expandInputs(args.positionals, context);
+
+    const server = await startPreviewServer(
+      {
+        inputs: args.positionals,
+        format: inputFormat(args, config),
+        host: stringValue(args, "host"),
+        port,
+        title: config.title,
+        severityConfig: config.severityConfig,
+        branding: config.branding,
+        redact: redactOptions(args, config) ?? false,
+      },
+      context,
+    );
+    context.stdout(`👀 Previewing ${files.join(", ")} at ${server.url}`);
+    context.stdout("  Watching for changes; press Ctrl+C to stop");
+
+    await new Promise<void>((resolve) =>
+      process.once("SIGINT", () => resolve()),
+    );
+    await server.close();
+    return ExitCode.Success;
+  },
+};
@@ -0,0 +1,57 @@
+import { reportTitle } from "../../lib/branding";
+import { summarizeReport } from "../../lib/summary";
+import { type Command, booleanValue, helpOption, inputOptions } from "../command";
+import { inputFormat, loadConfig } from "../config";
+import { CliError, ExitCode } from "../errors";
+import { loadInputs } from "../inputs";
+import { formatSeverityCounts, formatTable } from "../output";
+
+export const summary: Command = {
+  name: "summary",
+  summary: "Print finding counts by severity and tool",
+  usage: "<input...>",
+  options: {
+    json: { type: "boolean", description: "Print the counts as JSON" },
+    ...inputOptions,
+    ...helpOption,
+  },
+
+  run(args, context) {
+    const config = loadConfig(args, context);
+    const { report } = loadInputs(
+      args.positionals,
+      inputFormat(args, config),
+      context,
+    );
+    if (!report) {
+      throw new CliError(
+        `${args.positionals.join(", ")} has no usable findings`,
+      );
+    }
+
+    const counts = summarizeReport(report);
+    if (booleanValue(args, "json")) {
+      context.stdout(JSON.stringify(counts, null, 2));
+      return ExitCode.Success;
+    }
+
+    const lines = [
+      `${reportTitle(report)}: ${counts.total} findings`,
+      "",
+      "By severity:",
+      ...formatSeverityCounts(report),
+      "",
+      "By tool:",
+      ...formatTable(Object.entries(counts.byTool)),
+    ];
+    if (counts.byProject) {
+      lines.push(
+        "",
+        "By project:",
+        ...formatTable(Object.entries(counts.byProject)),
+      );
+    }
+    context.stdout(lines.join("\n"));
+    return ExitCode.Success;
+  },
+};
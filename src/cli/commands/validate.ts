@@ -0,0 +1,45 @@
+import {
+  type Command,
+  booleanValue,
+  helpOption,
+  inputOptions,
+  stringValue,
+} from "../command";
+import { inputFormat, loadConfig } from "../config";
+import { ExitCode } from "../errors";
+import { hasErrors, loadInputs } from "../inputs";
+
+export const validate: Command = {
+  name: "validate",
+  summary: "Check reports against the schema without generating anything",
+  usage: "<input...>",
+  options: {
+    strict: {
+      type: "boolean",
+      description: "Fail on warnings as well as errors",
+    },
+    ...inputOptions,
+    ...helpOption,
+  },
+
+  run(args, context) {
+    const config = loadConfig(args, context);
+
+    const result = loadInputs(
+      args.positionals,
+      inputFormat(args, config),
+      context,
+    );
+    const errors = result.issues.filter((issue) => issue.level === "error");
+    const warnings = result.issues.length - errors.length;
+    const failed =
+      !result.report ||
+      hasErrors(result) ||
+      (booleanValue(args, "strict") && warnings > 0);
+
+    context.stdout(
+      `${failed ? "❌" : "✅"} ${result.report?.findings.length ?? 0} valid findings, ${errors.length} errors, ${warnings} warnings`,
+    );
+    return failed ? ExitCode.Failure : ExitCode.Success;
+  },
+};
@@ -0,0 +1,310 @@
+import { readFileSync } from "node:fs";
+import { dirname, extname, isAbsolute, join, resolve } from "node:path";
+import { type GateConfig, isSeverityLevel } from "../lib/gate";
+import { parseJson } from "../lib/json";
+import { type RedactOptions, secretTools } from "../lib/redact";
+import {
+  isReportFormat,
+  reportFormats,
+  type ReportFormat,
+} from "../lib/normalize";
+import {
+  validateBranding,
+  validateSeverityConfig,
+  validateSuppressions,
+} from "../lib/validate";
+import { severityConfig } from "../lib/utils";
+import type {
+  Branding,
+  SeverityLevel,
+  SeverityOverrides,
+  Suppression,
+} from "../types/ash";
+import {
+  type CliContext,
+  type ParsedArgs,
+  booleanValue,
+  stringValue,
+  stringValues,
+} from "./command";
+import { CliError, UsageError } from "./errors";
+
+// Defaults read from --config; command line options take precedence
+export interface CliConfig {
+  title?: string;
+  output?: string;
+  format?: ReportFormat;
+  compress?: boolean;
+  severityConfig?: SeverityOverrides;
+  failOn?: SeverityLevel;
+  max?: Record<string, number>;
+  suppressions?: string;
+  // false keeps secrets unmasked
+  redact?: boolean;
+  // Secret scanners besides the built-in ones
+  redactTools?: string[];
+  redactPatterns?: string[];
+  // The logo may be an image file, inlined when the config is read
+  branding?: Branding;
+}
+
+const configTypes: Record<keyof CliConfig, string> = {
+  title: "string",
+  output: "string",
+  format: "string",
+  compress: "boolean",
+  severityConfig: "object",
+  failOn: "string",
+  max: "object",
+  suppressions: "string",
+  redact: "boolean",
+  redactTools: "object",
+  redactPatterns: "object",
+  branding: "object",
+};
+
+export function readJsonFile(path: string, context: CliContext): unknown {
+  let text: string;
+  try {
+    text = readFileSync(resolve(context.cwd, path), "utf-8");
+  } catch (error) {
+    throw new CliError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+  try {
+    return parseJson(text);
+  } catch (error) {
+    throw new CliError(`${path}: ${(error as Error).message}`);
+  }
+}
+
+export function toReportFormat(name: string): ReportFormat {
+  if (!isReportFormat(name)) {
+    throw new UsageError(
+      `Unknown input format "${name}" (expected one of ${reportFormats.join(", ")})`,
+    );
+  }
+  return name;
+}
+
+export function toGateLevel(name: string): SeverityLevel {
+  const level = name.toUpperCase();
+  if (!isSeverityLevel(level)) {
+    throw new UsageError(
+      `Unknown severity "${name}" (expected one of ${Object.keys(severityConfig).join(", ")})`,
+    );
+  }
+  return level;
+}
+
+function toMaxCount(key: string, count: unknown): number {
+  if (typeof count === "string" && /^\d+$/.test(count)) return Number(count);
+  if (Number.isInteger(count) && (count as number) >= 0) return count as number;
+  throw new UsageError(
+    `Invalid maximum for "${key}" (expected a whole number, got ${JSON.stringify(count)})`,
+  );
+}
+
+// "HIGH=0" and "grype=10" style --max values
+export function parseMaxCounts(specs: string[]): Record<string, number> {
+  return Object.fromEntries(
+    specs.map((spec) => {
+      const separator = spec.lastIndexOf("=");
+      if (separator <= 0) {
+        throw new UsageError(
+          `Invalid --max "${spec}" (expected <severity|tool>=<count>)`,
+        );
+      }
+      const key = spec.slice(0, separator);
+      return [key, toMaxCount(key, spec.slice(separator + 1))];
+    }),
+  );
+}
+
+const logoTypes: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+// Reads an image into a data URI, the only kind of image the report loads
+export function inlineLogo(path: string, context: CliContext): string {
+  const extension = extname(path).toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(logoTypes, extension)) {
+    throw new UsageError(
+      `Unsupported logo "${path}" (expected one of ${Object.keys(logoTypes).join(", ")})`,
+    );
+  }
+  let data: Buffer;
+  try {
+    data = readFileSync(resolve(context.cwd, path));
+  } catch (error) {
+    throw new CliError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+  return `data:${logoTypes[extension]};base64,${data.toString("base64")}`;
+}
+
+// Files named in the config are relative to it, not the working directory
+const besideConfig = (config: string, file: string) =>
+  isAbsolute(file) ? file : join(dirname(config), file);
+
+export function readConfig(path: string, context: CliContext): CliConfig {
+  const config = readJsonFile(path, context);
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new UsageError(`${path}: expected a JSON object`);
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    const type = Object.prototype.hasOwnProperty.call(configTypes, key)
+      ? configTypes[key as keyof CliConfig]
+      : undefined;
+    if (!type) {
+      context.stderr(`  warning: ${path} ${key}: unknown option; ignored`);
+    } else if (typeof value !== type || value === null) {
+      throw new UsageError(`${path} ${key}: expected a ${type}`);
+    }
+  }
+
+  // Narrowed again for the compiler; the types were checked above
+  const fields = config as Record<string, unknown>;
+  const text = (key: keyof CliConfig) => {
+    const value = fields[key];
+    return typeof value === "string" ? value : undefined;
+  };
+  const flag = (key: keyof CliConfig) => {
+    const value = fields[key];
+    return typeof value === "boolean" ? value : undefined;
+  };
+  const object = (key: keyof CliConfig) => {
+    const value = fields[key];
+    return typeof value === "object" && value !== null
+      ? (value as Record<string, unknown>)
+      : undefined;
+  };
+  const strings = (key: keyof CliConfig) => {
+    const list = fields[key];
+    if (list === undefined) return undefined;
+    if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) {
+      throw new UsageError(`${path} ${key}: expected an array of strings`);
+    }
+    return list as string[];
+  };
+
+  const format = text("format");
+  const suppressions = text("suppressions");
+  const failOn = text("failOn");
+  const max = object("max");
+  const branding = object("branding");
+  const warn = (field: string, message: string) =>
+    context.stderr(`  warning: ${path} ${field}: ${message}`);
+  return {
+    title: text("title"),
+    output: text("output"),
+    format: format === undefined ? undefined : toReportFormat(format),
+    compress: flag("compress"),
+    severityConfig: validateSeverityConfig(fields.severityConfig, warn),
+    failOn: failOn === undefined ? undefined : toGateLevel(failOn),
+    max:
+      max === undefined
+        ? undefined
+        : Object.fromEntries(
+            Object.entries(max).map(([key, count]) => [
+              key,
+              toMaxCount(key, count),
+            ]),
+          ),
+    suppressions:
+      suppressions === undefined
+        ? undefined
+        : besideConfig(path, suppressions),
+    redact: flag("redact"),
+    redactTools: strings("redactTools"),
+    redactPatterns: strings("redactPatterns"),
+    branding: validateBranding(
+      typeof branding?.logo === "string" && !branding.logo.startsWith("data:")
+        ? {
+            ...branding,
+            logo: inlineLogo(besideConfig(path, branding.logo), context),
+          }
+        : branding,
+      warn,
+    ),
+  };
+}
+
+// The --config file named on the command line, if any
+export function loadConfig(args: ParsedArgs, context: CliContext): CliConfig {
+  const path = stringValue(args, "config");
+  return path ? readConfig(path, context) : {};
+}
+
+export function inputFormat(
+  args: ParsedArgs,
+  config: CliConfig,
+): ReportFormat | undefined {
+  const format = stringValue(args, "format");
+  return format ? toReportFormat(format) : config.format;
+}
+
+// Rows in the Markdown export's top findings table
+export function topCount(args: ParsedArgs): number | undefined {
+  const top = stringValue(args, "top");
+  if (top === undefined) return undefined;
+  if (!/^\d+$/.test(top)) {
+    throw new UsageError(`Invalid --top "${top}" (expected a whole number)`);
+  }
+  return Number(top);
+}
+
+// --fail-on replaces the config's level, --max adds to its maximums
+export function gateConfig(args: ParsedArgs, config: CliConfig): GateConfig {
+  const failOn = stringValue(args, "fail-on");
+  return {
+    failOn: failOn ? toGateLevel(failOn) : config.failOn,
+    max: { ...config.max, ...parseMaxCounts(stringValues(args, "max")) },
+  };
+}
+
+function toRedactPattern(source: string): RegExp {
+  try {
+    return new RegExp(source, "g");
+  } catch (error) {
+    throw new UsageError(
+      `Invalid redaction pattern "${source}": ${(error as Error).message}`,
+    );
+  }
+}
+
+// Undefined when --no-redact or the config turns masking off
+export function redactOptions(
+  args: ParsedArgs,
+  config: CliConfig,
+): RedactOptions | undefined {
+  if (booleanValue(args, "no-redact") || config.redact === false) {
+    return undefined;
+  }
+  return {
+    tools: [...secretTools, ...(config.redactTools ?? [])],
+    patterns: [
+      ...(config.redactPatterns ?? []),
+      ...stringValues(args, "redact-pattern"),
+    ].map(toRedactPattern),
+  };
+}
+
+// A { "suppressions": [...] } file; unusable entries are warned about
+export function readSuppressions(
+  path: string,
+  context: CliContext,
+): Suppression[] {
+  const file = readJsonFile(path, context);
+  if (typeof file !== "object" || file === null || Array.isArray(file)) {
+    throw new CliError(`${path}: expected a JSON object with "suppressions"`);
+  }
+  return validateSuppressions(
+    (file as Record<string, unknown>).suppressions,
+    (field, message) => context.stderr(`  warning: ${path} ${field}: ${message}`),
+  );
+}
@@ -0,0 +1,28 @@
+export const ExitCode = {
+  Success: 0,
+  // The command ran but the reports did not pass (e.g. validation errors)
+  Failure: 1,
+  // Bad arguments or options
+  Usage: 2,
+  // Inputs could not be read or recognized
+  InputError: 3,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+export class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: ExitCode = ExitCode.InputError,
+  ) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export class UsageError extends CliError {
+  constructor(message: string) {
+    super(message, ExitCode.Usage);
+    this.name = "UsageError";
+  }
+}
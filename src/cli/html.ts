@@ -0,0 +1,236 @@
+import { readFileSync, readdirSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createHash } from "node:crypto";
+import { gzipSync } from "node:zlib";
+import { DEFAULT_TITLE, documentTitle } from "../lib/branding";
+import { GZIP_BASE64 } from "../lib/compression";
+import type { ASHReport } from "../types/ash";
+import type { CliContext } from "./command";
+import { CliError } from "./errors";
+
+// Template for the self-contained HTML report. Placeholders are filled in a
+// single pass by fillTemplate, never by String.replace with a string.
+const template = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="__CSP__">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>__TITLE__</title>__CSS_SECTION__
+</head>
+<body>
+  <div id="app"></div>
+  <script id="ash-data" type="application/json"__ASH_ATTRIBUTES__>__ASH_DATA__</script>
+  <script>__JS_CONTENT__</script>
+</body>
+</html>`;
+
+// A prerendered page of a static site. The app and report are loaded from
+// the site itself, so the page works from any URL, including as the 404 page.
+const siteTemplate = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="__CSP__">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>__TITLE__</title>__CSS_SECTION__
+</head>
+<body>
+  <div id="app" data-site="__BASE__">__PAGE__</div>
+  <script src="__BASE__assets/__SCRIPT__"></script>
+</body>
+</html>`;
+
+interface Assets {
+  css: string | null;
+  js: string;
+}
+
+// Found from this module rather than the working directory, so reports can
+// be generated from any directory and through the Node API. This module is
+// src/cli/html.ts in the repository and part of dist/api/index.js once
+// built: both two levels below the package root.
+const PACKAGE_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "../..");
+
+export const DEFAULT_ASSETS_DIR = join(PACKAGE_ROOT, "dist", "assets");
+
+export function findAssetFiles(assetsDir = DEFAULT_ASSETS_DIR): Assets {
+  let files: string[];
+  try {
+    files = readdirSync(assetsDir);
+  } catch {
+    throw new CliError(
+      `No built assets in ${assetsDir}; run the build first (npm run build)`,
+    );
+  }
+
+  const cssFile = files.find((file) => file.endsWith(".css"));
+  const jsFile = files.find((file) => file.endsWith(".js"));
+  if (!jsFile) {
+    throw new CliError(`Missing JavaScript bundle: ${files.join(", ")}`);
+  }
+
+  return {
+    css: cssFile ? join(assetsDir, cssFile) : null,
+    js: join(assetsDir, jsFile),
+  };
+}
+
+const formatSize = (bytes: number) =>
+  `${Math.round(bytes / 1024).toLocaleString()}KB`;
+
+// Gzip + base64 the report so large scans stay small; the app inflates it
+function compressData(json: string, context: CliContext): string {
+  const compressed = gzipSync(json, { level: 9 }).toString("base64");
+  const rawSize = Buffer.byteLength(json);
+  context.stdout(
+    `📦 Compressed data: ${formatSize(rawSize)} raw → ${formatSize(compressed.length)} embedded (${Math.round((compressed.length / rawSize) * 100)}%)`,
+  );
+  return compressed;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Makes JSON safe to embed in a <script> element. Escaping every <, > and &
+ * keeps finding text such as "</script>" or "<!--" from ending or changing
+ * the element, and JSON.parse turns the escapes back into the same string.
+ */
+export const escapeJsonForScript = (json: string) =>
+  json
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+
+// For code and CSS, which cannot be rewritten wholesale: only break up the
+// sequences the HTML parser looks for inside raw text elements. Both "<\/" and
+// "\x3C" keep their meaning in JS strings, templates and u-flag regexes.
+const escapeRawText = (text: string, element: "script" | "style") => {
+  const escaped = text.replace(new RegExp(`</(${element})`, "gi"), "<\\/$1");
+  return element === "script" ? escaped.replace(/<!--/g, "\\x3C!--") : escaped;
+};
+
+const sha256 = (text: string) =>
+  `'sha256-${createHash("sha256").update(text, "utf-8").digest("base64")}'`;
+
+/**
+ * The app only runs its own bundle, identified by hash when inlined. Styles
+ * stay 'unsafe-inline' because the bundle injects its CSS at runtime.
+ */
+function contentSecurityPolicy(
+  scripts: string,
+  connect?: string,
+  styles = "'unsafe-inline'",
+): string {
+  return [
+    "default-src 'none'",
+    `script-src ${scripts}`,
+    ...(connect ? [`connect-src ${connect}`] : []),
+    `style-src ${styles}`,
+    "img-src data:",
+    "font-src data:",
+    "base-uri 'none'",
+    "form-action 'none'",
+  ].join("; ");
+}
+
+// Fills __NAME__ placeholders in one pass, so inserted text is never
+// rescanned and "$&"-style sequences in it are kept literally
+export function fillTemplate(
+  source: string,
+  values: Record<string, string>,
+): string {
+  return source.replace(/__([A-Z_]+)__/g, (placeholder, name: string) =>
+    name in values ? values[name] : placeholder,
+  );
+}
+
+// The built app's script and stylesheet, escaped for inlining
+function inlineApp(context: CliContext) {
+  context.stdout("🔍 Finding built assets...");
+  const assets = findAssetFiles(context.assetsDir);
+  context.stdout("📄 Found assets:");
+  context.stdout(`  JS: ${assets.js}`);
+  context.stdout(
+    assets.css ? `  CSS: ${assets.css}` : "  CSS: Inlined in JavaScript bundle",
+  );
+
+  const script = `\n${escapeRawText(readFileSync(assets.js, "utf-8"), "script")}\n  `;
+  const cssSection = assets.css
+    ? `
+  <style>
+${escapeRawText(readFileSync(assets.css, "utf-8"), "style")}
+  </style>`
+    : "";
+  return { script, cssSection };
+}
+
+/** Inlines the report data and the built app into a single HTML page. */
+export function renderReportHtml(
+  report: ASHReport,
+  { compress = false }: { compress?: boolean },
+  context: CliContext,
+): string {
+  const json = JSON.stringify(report);
+  const ashData = compress
+    ? compressData(json, context)
+    : escapeJsonForScript(json);
+  const { script, cssSection } = inlineApp(context);
+
+  return fillTemplate(template, {
+    CSP: contentSecurityPolicy(sha256(script)),
+    TITLE: escapeHtml(documentTitle(report)),
+    CSS_SECTION: cssSection,
+    ASH_ATTRIBUTES: compress ? ` data-encoding="${GZIP_BASE64}"` : "",
+    ASH_DATA: ashData,
+    JS_CONTENT: script,
+  });
+}
+
+/**
+ * A page without embedded data that loads the report from a server-sent
+ * event stream at `eventsUrl` and reloads it on every update.
+ */
+export function renderLiveHtml(eventsUrl: string, context: CliContext): string {
+  const { script, cssSection } = inlineApp(context);
+
+  return fillTemplate(template, {
+    CSP: contentSecurityPolicy(sha256(script), "'self'"),
+    TITLE: escapeHtml(`${DEFAULT_TITLE} (preview)`),
+    CSS_SECTION: cssSection,
+    ASH_ATTRIBUTES: ` data-live="${escapeHtml(eventsUrl)}"`,
+    ASH_DATA: "",
+    JS_CONTENT: script,
+  });
+}
+
+/**
+ * Wraps a prerendered site page. `base` is the path the site is served from
+ * and `assets` names the files copied into its assets directory.
+ */
+export function renderSitePage(
+  page: string,
+  title: string,
+  base: string,
+  assets: { js: string; css: string | null },
+): string {
+  return fillTemplate(siteTemplate, {
+    CSP: contentSecurityPolicy("'self'", "'self'", "'self' 'unsafe-inline'"),
+    TITLE: escapeHtml(title),
+    CSS_SECTION: assets.css
+      ? `
+  <link rel="stylesheet" href="${escapeHtml(`${base}assets/${assets.css}`)}">`
+      : "",
+    BASE: escapeHtml(base),
+    PAGE: page,
+    SCRIPT: escapeHtml(assets.js),
+  });
+}
@@ -0,0 +1,110 @@
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { globError, globToRegExp, isGlob } from "../lib/glob";
+import type { ReportFormat } from "../lib/normalize";
+import { loadReportSources, type ReportSource } from "../lib/sources";
+import type { ValidationIssue, ValidationResult } from "../lib/validate";
+import type { CliContext } from "./command";
+import { CliError, UsageError } from "./errors";
+
+const isReportFile = (file: string) => /\.(json|sarif)$/i.test(file);
+
+// Dangling symlinks have nothing to stat, so they are skipped
+function listFiles(dir: string, context: CliContext): string[] {
+  try {
+    return readdirSync(resolve(context.cwd, dir), { recursive: true })
+      .map((file) => join(dir, String(file)))
+      .filter(
+        (file) =>
+          statSync(resolve(context.cwd, file), {
+            throwIfNoEntry: false,
+          })?.isFile() ?? false,
+      );
+  } catch (error) {
+    throw new CliError(`Cannot read ${dir}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Expands directories and glob patterns (e.g. "scans/**\/*.json") into
+ * report files, relative to the working directory.
+ */
+export function expandInputs(patterns: string[], context: CliContext): string[] {
+  if (patterns.length === 0) {
+    throw new UsageError("No input files given");
+  }
+
+  const files = patterns.flatMap((pattern) => {
+    if (isGlob(pattern)) {
+      const base =
+        pattern
+          .split("/")
+          .filter((_, i, parts) => !parts.slice(0, i + 1).some(isGlob))
+          .join("/") || ".";
+      const error = globError(pattern);
+      if (error) throw new CliError(`Input glob "${pattern}" ${error}`);
+      const matcher = globToRegExp(pattern.replace(/^\.\//, ""));
+      return listFiles(base, context).filter((file) =>
+        matcher.test(file.replace(/\\/g, "/")),
+      );
+    }
+    const path = resolve(context.cwd, pattern);
+    if (existsSync(path) && statSync(path).isDirectory()) {
+      return listFiles(pattern, context).filter(isReportFile);
+    }
+    return [pattern];
+  });
+
+  if (files.length === 0) {
+    throw new CliError(`No report files match ${patterns.join(", ")}`);
+  }
+  return [...new Set(files)].sort();
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  const where = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+  return `  ${issue.level}: ${where} ${issue.path}: ${issue.message}`;
+}
+
+function readInputs(patterns: string[], context: CliContext): ReportSource[] {
+  return expandInputs(patterns, context).map((name) => {
+    try {
+      return { name, text: readFileSync(resolve(context.cwd, name), "utf-8") };
+    } catch (error) {
+      throw new CliError(`Cannot read ${name}: ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Reads, validates and merges the given report files, printing any issues.
+ * Throws when a file cannot be read at all.
+ */
+export function loadInputs(
+  patterns: string[],
+  format: ReportFormat | undefined,
+  context: CliContext,
+): ValidationResult {
+  const result = loadReportSources(readInputs(patterns, context), format);
+  result.issues.forEach((issue) => context.stderr(formatIssue(issue)));
+  return result;
+}
+
+/**
+ * Like `loadInputs`, but keeps each file as a scan of its own instead of
+ * merging them, for trends across scans.
+ */
+export function loadScans(
+  patterns: string[],
+  format: ReportFormat | undefined,
+  context: CliContext,
+): ValidationResult[] {
+  return readInputs(patterns, context).map((source) => {
+    const result = loadReportSources([source], format);
+    result.issues.forEach((issue) => context.stderr(formatIssue(issue)));
+    return result;
+  });
+}
+
+export const hasErrors = (result: ValidationResult) =>
+  result.issues.some((issue) => issue.level === "error");
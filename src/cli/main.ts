@@ -0,0 +1,7 @@
+import { run } from "./run";
+
+process.exitCode = await run(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: (text) => console.log(text),
+  stderr: (text) => console.error(text),
+});
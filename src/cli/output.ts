@@ -0,0 +1,73 @@
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { summarizeReport } from "../lib/summary";
+import {
+  resolveSeverityConfig,
+  severityLevels,
+  type SeverityConfigMap,
+} from "../lib/utils";
+import type { ASHReport, Finding, QualityGate } from "../types/ash";
+import type { CliContext } from "./command";
+import { CliError } from "./errors";
+
+// Writes to --output when given, stdout otherwise
+export function writeOutput(
+  text: string,
+  output: string | undefined,
+  context: CliContext,
+) {
+  if (output) {
+    try {
+      writeFileSync(resolve(context.cwd, output), text, "utf-8");
+    } catch (error) {
+      throw new CliError(`Cannot write ${output}: ${(error as Error).message}`);
+    }
+    context.stderr(`✅ Wrote ${output}`);
+  } else {
+    context.stdout(text.replace(/\n$/, ""));
+  }
+}
+
+export function formatFinding(
+  finding: Finding,
+  severities: SeverityConfigMap,
+): string {
+  const { icon, label } = severities[finding.severity];
+  const location = finding.lineNumber
+    ? `${finding.location}:${finding.lineNumber}`
+    : finding.location;
+  return `${icon} ${label} ${finding.tool} ${location}: ${finding.message}`;
+}
+
+// Left-aligned two column table
+export const formatTable = (rows: [string, string | number][]) => {
+  const width = Math.max(0, ...rows.map(([label]) => [...label].length));
+  return rows.map(
+    ([label, value]) =>
+      `  ${label}${" ".repeat(width - [...label].length)}  ${value}`,
+  );
+};
+
+// Finding counts per severity, highest first
+export function formatSeverityCounts(report: ASHReport): string[] {
+  const severities = resolveSeverityConfig(report.severityConfig);
+  const { bySeverity } = summarizeReport(report);
+  return formatTable(
+    severityLevels(severities, report.findings).map((level) => [
+      `${severities[level].icon} ${severities[level].label}`,
+      bySeverity[level],
+    ]),
+  );
+}
+
+export function formatGate(gate: QualityGate): string[] {
+  return [
+    `🚦 Quality gate: ${gate.passed ? "PASS" : "FAIL"}`,
+    ...formatTable(
+      gate.thresholds.map(({ label, count, limit }) => [
+        `${count > limit ? "❌" : "✅"} ${label}`,
+        `${count} (max ${limit})`,
+      ]),
+    ),
+  ];
+}
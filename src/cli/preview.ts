@@ -0,0 +1,214 @@
+import { readFileSync, unwatchFile, watchFile } from "node:fs";
+import { createServer, type ServerResponse } from "node:http";
+import { isIP, type AddressInfo } from "node:net";
+import { resolve } from "node:path";
+import { prepareReport, type PrepareOptions } from "../api/generate";
+import type { ReportFormat } from "../lib/normalize";
+import { loadReportSources, type ReportSource } from "../lib/sources";
+import type { ValidationIssue, ValidationResult } from "../lib/validate";
+import type { CliContext } from "./command";
+import { CliError } from "./errors";
+import { renderLiveHtml } from "./html";
+import { expandInputs, formatIssue } from "./inputs";
+
+export const EVENTS_PATH = "/events";
+
+export interface PreviewOptions extends Omit<PrepareOptions, "baseline"> {
+  // Files, directories or globs, expanded again as files come and go
+  inputs: string[];
+  format?: ReportFormat;
+  host?: string;
+  // 0 picks a free port
+  port?: number;
+  // How often the files are checked for changes, in milliseconds
+  interval?: number;
+}
+
+export interface PreviewServer {
+  url: string;
+  // Reloads the files and pushes the result to every open page
+  reload: () => ValidationResult;
+  close: () => Promise<void>;
+}
+
+// Files being saved can be briefly missing, so they become issues rather
+// than stopping the server
+function expandFiles(
+  inputs: string[],
+  context: CliContext,
+): { files: string[]; issues: ValidationIssue[] } {
+  try {
+    return { files: expandInputs(inputs, context), issues: [] };
+  } catch (error) {
+    return {
+      files: [],
+      issues: [{ level: "error", path: "", message: (error as Error).message }],
+    };
+  }
+}
+
+function readSources(
+  files: string[],
+  context: CliContext,
+): { sources: ReportSource[]; issues: ValidationIssue[] } {
+  const sources: ReportSource[] = [];
+  const issues: ValidationIssue[] = [];
+  for (const name of files) {
+    try {
+      sources.push({
+        name,
+        text: readFileSync(resolve(context.cwd, name), "utf-8"),
+      });
+    } catch (error) {
+      issues.push({
+        level: "error",
+        file: name,
+        path: "",
+        message: `Cannot read ${name}: ${(error as Error).message}`,
+      });
+    }
+  }
+  return { sources, issues };
+}
+
+/**
+ * Whether a request's Host header names this server. Pages on other sites
+ * could otherwise point their own domain at 127.0.0.1 (DNS rebinding) and
+ * read the report; IP addresses and localhost cannot be rebound.
+ */
+function isAllowedHost(header: string | undefined, host: string) {
+  if (!header) return false;
+  let name: string;
+  try {
+    name = new URL(`http://${header}`).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return false;
+  }
+  return (
+    name === host.toLowerCase() || name === "localhost" || isIP(name) !== 0
+  );
+}
+
+const sendEvent = (response: ServerResponse, result: ValidationResult) =>
+  response.write(`event: report\ndata: ${JSON.stringify(result)}\n\n`);
+
+/**
+ * Serves the app on a live page and re-validates the report files whenever
+ * one changes, pushing the report and its issues to open pages as
+ * server-sent events.
+ */
+export async function startPreviewServer(
+  {
+    inputs,
+    format,
+    host = "127.0.0.1",
+    port = 8080,
+    interval = 300,
+    ...prepare
+  }: PreviewOptions,
+  context: CliContext,
+): Promise<PreviewServer> {
+  const page = renderLiveHtml(EVENTS_PATH, {
+    ...context,
+    stdout: () => {},
+  });
+  const clients = new Set<ServerResponse>();
+
+  // Polling notices files that editors replace rather than write in place
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const onChange = () => {
+    clearTimeout(timer);
+    timer = setTimeout(reload, 50);
+  };
+  let files: string[] = [];
+  const watch = (next: string[]) => {
+    for (const file of files.filter((file) => !next.includes(file))) {
+      unwatchFile(resolve(context.cwd, file), onChange);
+    }
+    for (const file of next.filter((file) => !files.includes(file))) {
+      watchFile(resolve(context.cwd, file), { interval }, onChange);
+    }
+    files = next;
+  };
+
+  const load = (): ValidationResult => {
+    const expanded = expandFiles(inputs, context);
+    watch(expanded.files);
+    const { sources, issues } = readSources(files, context);
+    const result = loadReportSources(sources, format);
+    return {
+      report: result.report && prepareReport(result.report, prepare),
+      issues: [...expanded.issues, ...issues, ...result.issues],
+    };
+  };
+  const log = (label: string, { report, issues }: ValidationResult) => {
+    const errors = issues.filter((issue) => issue.level === "error").length;
+    context.stdout(
+      `${label}: ${report?.findings.length ?? 0} findings, ${errors} errors, ${issues.length - errors} warnings`,
+    );
+    issues.forEach((issue) => context.stderr(formatIssue(issue)));
+  };
+  let current = load();
+  log("📖 Loaded", current);
+
+  const reload = () => {
+    current = load();
+    log("🔄 Reloaded", current);
+    clients.forEach((client) => sendEvent(client, current));
+    return current;
+  };
+
+  const server = createServer((request, response) => {
+    const path = new URL(request.url ?? "/", "http://localhost").pathname;
+    if (!isAllowedHost(request.headers.host, host)) {
+      response.writeHead(403).end();
+    } else if (request.method !== "GET") {
+      response.writeHead(405, { Allow: "GET" }).end();
+    } else if (path === "/") {
+      response
+        .writeHead(200, {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-store",
+        })
+        .end(page);
+    } else if (path === EVENTS_PATH) {
+      response.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-store",
+        Connection: "keep-alive",
+      });
+      clients.add(response);
+      sendEvent(response, current);
+      request.on("close", () => clients.delete(response));
+    } else {
+      response.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>((resolveListen, reject) => {
+    server.once("error", (error) => {
+      watch([]);
+      reject(new CliError(`Cannot listen on ${host}:${port}: ${error.message}`));
+    });
+    server.listen(port, host, () => resolveListen());
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  // New files matching a glob or directory need a reload of their own
+  const rescan = setInterval(() => {
+    const { files: next } = expandFiles(inputs, context);
+    if (next.join("\n") !== files.join("\n")) reload();
+  }, interval);
+
+  return {
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${boundPort}/`,
+    reload,
+    close: () => {
+      clearTimeout(timer);
+      clearInterval(rescan);
+      watch([]);
+      clients.forEach((client) => client.end());
+      return new Promise((resolveClose) => server.close(() => resolveClose()));
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import { parseArgs } from "node:util";
+import type { CliContext, Command, OptionSpec, ParsedArgs } from "./command";
+import { diff } from "./commands/diff";
+import { exportCommand } from "./commands/export";
+import { generate } from "./commands/generate";
+import { preview } from "./commands/preview";
+import { summary } from "./commands/summary";
+import { validate } from "./commands/validate";
+import { CliError, ExitCode, UsageError } from "./errors";
+import { formatTable } from "./output";
+
+const PROGRAM = "ash-report";
+
+export const commands: Command[] = [
+  generate,
+  validate,
+  diff,
+  exportCommand,
+  summary,
+  preview,
+];
+
+function programHelp(): string {
+  return [
+    `Usage: ${PROGRAM} <command> [options]`,
+    "",
+    "Commands:",
+    ...formatTable(commands.map((command) => [command.name, command.summary])),
+    "",
+    `Run "${PROGRAM} <command> --help" for a command's options.`,
+    "",
+    "Exit codes: 0 success, 1 reports failed checks, 2 usage error, 3 unreadable input",
+  ].join("\n");
+}
+
+const optionLabel = (name: string, { short, value }: OptionSpec) =>
+  `${short ? `-${short}, ` : "    "}--${name}${value ? ` ${value}` : ""}`;
+
+function commandHelp(command: Command): string {
+  return [
+    `Usage: ${PROGRAM} ${command.name} [options] ${command.usage}`,
+    "",
+    command.summary,
+    "",
+    "Options:",
+    ...formatTable(
+      Object.entries(command.options).map(([name, spec]) => [
+        optionLabel(name, spec),
+        spec.description,
+      ]),
+    ),
+  ].join("\n");
+}
+
+function parseCommandArgs(command: Command, argv: string[]): ParsedArgs {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: Object.fromEntries(
+        Object.entries(command.options).map(
+          ([name, { type, short, multiple }]) => [
+            name,
+            // parseArgs rejects options that are present but undefined
+            {
+              type,
+              ...(short ? { short } : {}),
+              ...(multiple ? { multiple } : {}),
+            },
+          ],
+        ),
+      ),
+      allowPositionals: true,
+      strict: true,
+    });
+    return { values: values as ParsedArgs["values"], positionals };
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * Runs the CLI with the given arguments (without the node and script paths)
+ * and resolves to the process exit code. Errors are reported, not thrown.
+ */
+export async function run(
+  argv: string[],
+  context: CliContext,
+): Promise<ExitCode> {
+  const [name, ...rest] = argv;
+  if (!name || name === "--help" || name === "-h" || name === "help") {
+    context.stdout(programHelp());
+    return name ? ExitCode.Success : ExitCode.Usage;
+  }
+
+  const command = commands.find((candidate) => candidate.name === name);
+  if (!command) {
+    context.stderr(`Unknown command "${name}"\n\n${programHelp()}`);
+    return ExitCode.Usage;
+  }
+
+  try {
+    const args = parseCommandArgs(command, rest);
+    if (args.values.help) {
+      context.stdout(commandHelp(command));
+      return ExitCode.Success;
+    }
+    return await command.run(args, context);
+  } catch (error) {
+    if (!(error instanceof CliError)) throw error;
+    context.stderr(`❌ ${error.message}`);
+    if (error instanceof UsageError) {
+      context.stderr(`\n${commandHelp(command)}`);
+    }
+    return error.exitCode;
+  }
+}
@@ -0,0 +1,72 @@
+import { copyFileSync, mkdirSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { h } from "preact";
+import { prerender } from "preact-iso";
+import { Site } from "../Site";
+import { documentTitle } from "../lib/branding";
+import { buildSiteMap, normalizeBase, sitePages } from "../lib/site";
+import type { ASHReport } from "../types/ash";
+import type { CliContext } from "./command";
+import { CliError } from "./errors";
+import { findAssetFiles, renderSitePage } from "./html";
+
+export interface SiteOptions {
+  // Path the site will be served from (default: /)
+  base?: string;
+}
+
+/**
+ * Writes a static site for the report into `dir`: a prerendered page for the
+ * overview and each tool, file and finding, a 404.html page, the report as
+ * report.json and the app's assets. Returns the number of pages written.
+ */
+export async function writeSite(
+  report: ASHReport,
+  dir: string,
+  { base = "/" }: SiteOptions,
+  context: CliContext,
+): Promise<number> {
+  const root = normalizeBase(base);
+  const outputDir = resolve(context.cwd, dir);
+  const assets = findAssetFiles(context.assetsDir);
+  const assetNames = {
+    js: basename(assets.js),
+    css: assets.css && basename(assets.css),
+  };
+  const map = buildSiteMap(report);
+
+  const write = (path: string, content: string) => {
+    const file = join(outputDir, path);
+    try {
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, content, "utf-8");
+    } catch (error) {
+      throw new CliError(
+        `Cannot write ${join(dir, path)}: ${(error as Error).message}`,
+      );
+    }
+  };
+  const render = async (path: string, title: string) => {
+    const { html } = await prerender(
+      h(Site, { report, base: root, url: `${root}${path}`, map }),
+    );
+    return renderSitePage(html, title, root, assetNames);
+  };
+
+  const pages = sitePages(report, map);
+  for (const page of pages) {
+    write(`${page.path}index.html`, await render(page.path, page.title));
+  }
+  write(
+    "404.html",
+    await render("404.html", `Not found – ${documentTitle(report)}`),
+  );
+  write("report.json", JSON.stringify(report));
+
+  mkdirSync(join(outputDir, "assets"), { recursive: true });
+  copyFileSync(assets.js, join(outputDir, "assets", assetNames.js));
+  if (assets.css && assetNames.css) {
+    copyFileSync(assets.css, join(outputDir, "assets", assetNames.css));
+  }
+  return pages.length + 1;
+}
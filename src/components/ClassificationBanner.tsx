@@ -0,0 +1,27 @@
+import { cn } from "../lib/utils";
+
+interface ClassificationBannerProps {
+  classification?: string;
+  position: "top" | "bottom";
+}
+
+// Printed on every page: the banners are fixed to the page edges in print
+export function ClassificationBanner({
+  classification,
+  position,
+}: ClassificationBannerProps) {
+  if (!classification) return null;
+
+  return (
+    <div
+      role="note"
+      aria-label="Classification"
+      className={cn(
+        "bg-banner py-1 text-center text-sm font-bold uppercase tracking-widest text-white [print-color-adjust:exact] print:fixed print:inset-x-0",
+        position === "top" ? "sticky top-0 z-10 print:top-0" : "print:bottom-0",
+      )}
+    >
+      {classification}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "preact/hooks";
+import { toMarkdown } from "../lib/exporters/markdown";
+import type { ASHReport } from "../types/ash";
+
+interface CopyMarkdownButtonProps {
+  report: ASHReport;
+}
+
+const labels = {
+  idle: "Copy as Markdown",
+  copied: "Copied!",
+  failed: "Copy failed",
+};
+
+export function CopyMarkdownButton({ report }: CopyMarkdownButtonProps) {
+  const [state, setState] = useState<keyof typeof labels>("idle");
+
+  // Go back to the normal label after a moment
+  useEffect(() => {
+    if (state === "idle") return;
+    const timer = setTimeout(() => setState("idle"), 2000);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(toMarkdown(report));
+      setState("copied");
+    } catch {
+      setState("failed");
+    }
+  };
+
+  return (
+    <button
+      onClick={copy}
+      aria-live="polite"
+      className="text-accent hover:text-accent-dark text-sm"
+    >
+      {labels[state]}
+    </button>
+  );
+}
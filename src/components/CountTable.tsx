@@ -0,0 +1,37 @@
+interface CountRow {
+  label: string;
+  href: string;
+  count: number;
+}
+
+interface CountTableProps {
+  // Heading of the first column, e.g. "Tool"
+  label: string;
+  rows: CountRow[];
+}
+
+// Links to tool or file pages with their number of findings
+export function CountTable({ label, rows }: CountTableProps) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-gray-700">
+          <th className="p-3 font-medium">{label}</th>
+          <th className="p-3 text-right font-medium">Findings</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ label, href, count }) => (
+          <tr key={href} className="border-b hover:bg-gray-50">
+            <td className="p-3 font-mono break-all">
+              <a href={href} className="text-accent hover:text-accent-dark">
+                {label}
+              </a>
+            </td>
+            <td className="p-3 text-right">{count}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,53 @@
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import type { ValidationIssue } from "../lib/validate";
+
+interface DiagnosticsPanelProps {
+  issues: ValidationIssue[];
+}
+
+export function DiagnosticsPanel({ issues }: DiagnosticsPanelProps) {
+  if (issues.length === 0) return null;
+
+  const skipped = new Set(
+    issues
+      .filter((issue) => issue.level === "error")
+      .map(
+        (issue) =>
+          `${issue.file}:${issue.path.match(/^(baseline\.fixed|suppressions\.suppressed|findings)\[\d+\]/)?.[0] ?? issue.path}`,
+      ),
+  ).size;
+  const warnings = issues.filter((issue) => issue.level === "warning").length;
+
+  return (
+    <Card className="mb-6 border-yellow-300 bg-yellow-50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Report Diagnostics</CardTitle>
+        <p className="text-sm text-gray-700">
+          {skipped} {skipped === 1 ? "record" : "records"} skipped, {warnings}{" "}
+          {warnings === 1 ? "warning" : "warnings"}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-1 text-sm">
+          {issues.map((issue) => (
+            <li
+              key={`${issue.file}:${issue.level}:${issue.path}:${issue.message}`}
+              className="flex items-start gap-2"
+            >
+              <Badge variant={issue.level === "error" ? "error" : "warning"}>
+                {issue.level}
+              </Badge>
+              <span className="font-mono text-gray-700">
+                {issue.file && `${issue.file}: `}
+                {issue.path || "(root)"}
+                {issue.line !== undefined && ` (line ${issue.line})`}
+              </span>
+              <span className="text-gray-900">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "preact/hooks";
+import type { ValidationIssue } from "../lib/validate";
+
+interface ErrorOverlayProps {
+  issues: ValidationIssue[];
+}
+
+// Covers the last good report while a live preview's inputs have errors
+export function ErrorOverlay({ issues }: ErrorOverlayProps) {
+  const [dismissed, setDismissed] = useState(false);
+  const errors = issues.filter((issue) => issue.level === "error");
+
+  // Every update with errors shows the overlay again
+  useEffect(() => setDismissed(false), [issues]);
+
+  if (errors.length === 0 || dismissed) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/60 p-8">
+      <div
+        role="alertdialog"
+        aria-labelledby="error-overlay-title"
+        className="w-full max-w-3xl rounded-lg border-t-4 border-red-600 bg-white p-6 shadow-xl"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <h2
+            id="error-overlay-title"
+            className="text-lg font-semibold text-red-700"
+          >
+            {errors.length} {errors.length === 1 ? "error" : "errors"} in the
+            report inputs
+          </h2>
+          <button
+            onClick={() => setDismissed(true)}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            Dismiss
+          </button>
+        </div>
+        <p className="mt-1 text-sm text-gray-600">
+          Fix the files and save; the report reloads by itself.
+        </p>
+        <ul className="mt-4 space-y-2 font-mono text-sm">
+          {errors.map((issue) => (
+            <li
+              key={`${issue.file}:${issue.path}:${issue.message}`}
+              className="rounded bg-red-50 p-2 text-red-900"
+            >
+              {issue.file &&
+                `${issue.file}${issue.line ? `:${issue.line}` : ""} `}
+              {issue.path && `${issue.path}: `}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { Badge } from "./ui/badge";
+import { SeverityBadge } from "./SeverityBadge";
+import {
+  cn,
+  severityConfig,
+  statusConfig,
+  type SeverityConfigMap,
+} from "../lib/utils";
+import type { Finding, FindingStatus, RedactedField } from "../types/ash";
+
+interface FindingDetailsProps {
+  finding: Finding;
+  severities?: SeverityConfigMap;
+}
+
+// Every field of a finding, as shown in the table's dialog and on the
+// finding pages of a static site
+export function FindingDetails({
+  finding,
+  severities = severityConfig,
+}: FindingDetailsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Severity
+          </label>
+          <SeverityBadge
+            config={severities[finding.severity]}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Tool
+          </label>
+          <p className="font-mono text-sm mt-1">
+            {finding.tool}
+          </p>
+        </div>
+      </div>
+
+      {finding.redacted && (
+        <p
+          role="note"
+          className="rounded border bg-gray-50 p-3 text-sm text-gray-700"
+        >
+          🔒 Secrets in this finding were masked by the report
+          generator.
+        </p>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">
+          Message
+          <RedactedBadge finding={finding} field="message" />
+        </label>
+        <p className="mt-1">{finding.message}</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">
+          Location
+        </label>
+        <p className="font-mono text-sm mt-1">
+          {finding.location}
+        </p>
+      </div>
+
+      {finding.status && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Status
+          </label>
+          <StatusBadge
+            status={finding.status}
+            className="mt-1"
+          />
+        </div>
+      )}
+
+      {/* Findings keep their suppression once it has expired */}
+      {finding.suppression && (
+        <div
+          role="alert"
+          className="rounded border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900"
+        >
+          <p className="font-medium">
+            Suppression expired on{" "}
+            {finding.suppression.expires}
+          </p>
+          <p className="mt-1">
+            {finding.suppression.justification} (
+            {finding.suppression.owner})
+          </p>
+        </div>
+      )}
+
+      {finding.project && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Project
+          </label>
+          <p className="text-sm mt-1">{finding.project}</p>
+        </div>
+      )}
+
+      {finding.ruleId && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Rule
+          </label>
+          <p className="font-mono text-sm mt-1">
+            {finding.ruleId}
+          </p>
+        </div>
+      )}
+
+      {finding.pattern && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Pattern
+            <RedactedBadge
+              finding={finding}
+              field="pattern"
+            />
+          </label>
+          <p className="font-mono text-sm mt-1 break-all">
+            {finding.pattern}
+          </p>
+        </div>
+      )}
+
+      {finding.lineNumber && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Line Number
+          </label>
+          <p className="font-mono text-sm mt-1">
+            {finding.lineNumber}
+          </p>
+        </div>
+      )}
+
+      {finding.description && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Description
+            <RedactedBadge
+              finding={finding}
+              field="description"
+            />
+          </label>
+          <p className="mt-1 text-sm">
+            {finding.description}
+          </p>
+        </div>
+      )}
+
+      {finding.recommendation && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Recommendation
+          </label>
+          <p className="mt-1 text-sm bg-blue-50 p-3 rounded border">
+            {finding.recommendation}
+          </p>
+        </div>
+      )}
+
+      {finding.cve && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            CVE
+          </label>
+          <p className="font-mono text-sm mt-1">
+            {finding.cve}
+          </p>
+        </div>
+      )}
+
+      {finding.fingerprint && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Fingerprint
+          </label>
+          <p className="font-mono text-sm mt-1 break-all">
+            {finding.fingerprint}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function StatusBadge({
+  status,
+  className,
+}: {
+  status: FindingStatus;
+  className?: string;
+}) {
+  const { icon, label, color } = statusConfig[status];
+  return (
+    <Badge variant="outline" className={cn(color, className)}>
+      {icon} {label}
+    </Badge>
+  );
+}
+
+function RedactedBadge({
+  finding,
+  field,
+}: {
+  finding: Finding;
+  field: RedactedField;
+}) {
+  if (!finding.redacted?.includes(field)) return null;
+  return (
+    <Badge variant="outline" className="ml-2 text-gray-600">
+      redacted
+    </Badge>
+  );
+}
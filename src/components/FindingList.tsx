@@ -0,0 +1,62 @@
+import { SeverityBadge } from "./SeverityBadge";
+import { severityConfig, type SeverityConfigMap } from "../lib/utils";
+import type { Finding } from "../types/ash";
+
+interface FindingListProps {
+  findings: Finding[];
+  severities?: SeverityConfigMap;
+  // Link to each finding's own page
+  href: (finding: Finding) => string;
+}
+
+// A plain table of findings, most severe first, for pages without scripts
+export function FindingList({
+  findings,
+  severities = severityConfig,
+  href,
+}: FindingListProps) {
+  if (findings.length === 0) {
+    return <p className="text-sm text-gray-500">No findings.</p>;
+  }
+
+  const sorted = [...findings].sort(
+    (a, b) => severities[b.severity].priority - severities[a.severity].priority,
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-gray-700">
+            <th className="p-3 font-medium">Severity</th>
+            <th className="p-3 font-medium">Finding</th>
+            <th className="p-3 font-medium">Tool</th>
+            <th className="p-3 font-medium">Location</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((finding) => (
+            <tr key={href(finding)} className="border-b hover:bg-gray-50">
+              <td className="p-3">
+                <SeverityBadge config={severities[finding.severity]} />
+              </td>
+              <td className="p-3">
+                <a
+                  href={href(finding)}
+                  className="text-accent hover:text-accent-dark"
+                >
+                  {finding.message}
+                </a>
+              </td>
+              <td className="p-3 font-mono">{finding.tool}</td>
+              <td className="p-3 font-mono break-all">
+                {finding.location}
+                {finding.lineNumber && `:${finding.lineNumber}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
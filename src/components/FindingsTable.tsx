@@ -1,59 +1,187 @@
-import { useState } from "preact/hooks";
+import { useEffect, useId, useMemo, useRef, useState } from "preact/hooks";
 import * as Dialog from "@radix-ui/react-dialog";
 import * as Tabs from "@radix-ui/react-tabs";
 import { X } from "lucide-preact";
 import { Badge } from "./ui/badge";
-import { severityConfig, cn } from "../lib/utils";
-import type { Finding, SeverityLevel } from "../types/ash";
+import { FindingDetails, StatusBadge } from "./FindingDetails";
+import { Highlight } from "./Highlight";
+import { SeverityBadge } from "./SeverityBadge";
+import { parseQuery } from "../lib/query";
+import {
+  severityConfig,
+  severityLevels,
+  statusConfig,
+  cn,
+  type SeverityConfigMap,
+} from "../lib/utils";
+import type { Finding, FindingStatus, SeverityLevel } from "../types/ash";
 
 interface FindingsTableProps {
   findings: Finding[];
+  severities?: SeverityConfigMap;
+  // Baseline findings no longer reported, listed with status "fixed"
+  fixed?: Finding[];
 }
 
-export function FindingsTable({ findings }: FindingsTableProps) {
+// Rows have a fixed height so only the ones in view need to be rendered
+const ROW_HEIGHT = 57;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+
+interface FindingRow {
+  // Position in the unfiltered findings, the row key; repeated findings
+  // share a fingerprint
+  id: number;
+  finding: Finding;
+}
+
+export function FindingsTable({
+  findings,
+  severities = severityConfig,
+  fixed,
+}: FindingsTableProps) {
   const [selectedFinding, setSelectedFinding] = useState<Finding | null>(null);
   const [activeTab, setActiveTab] = useState<string>("all");
-  const [severityFilter, setSeverityFilter] = useState<SeverityLevel[]>([
-    "CRITICAL",
-    "HIGH",
-    "MEDIUM",
-    "LOW",
-  ]);
-
-  const filteredFindings = findings.filter((finding) => {
-    const matchesTab = activeTab === "all" || finding.tool === activeTab;
-    const matchesSeverity = severityFilter.includes(finding.severity);
-    return matchesTab && matchesSeverity;
-  });
-
-  const tools = [...new Set(findings.map((f) => f.tool))];
-
-  const getSeverityVariant = (severity: SeverityLevel) => {
-    switch (severity) {
-      case "CRITICAL":
-        return "error";
-      case "HIGH":
-        return "warning";
-      case "MEDIUM":
-        return "warning";
-      case "LOW":
-        return "success";
-      default:
-        return "default";
-    }
-  };
+  const [activeProject, setActiveProject] = useState<string>("all");
+  const [severityFilter, setSeverityFilter] = useState<SeverityLevel[]>(
+    () => Object.keys(severities) as SeverityLevel[],
+  );
+  const [statusFilter, setStatusFilter] = useState<FindingStatus[]>(
+    () => Object.keys(statusConfig) as FindingStatus[],
+  );
+  const [query, setQuery] = useState<string>("");
+  const search = useMemo(
+    () => parseQuery(query, severities),
+    [query, severities],
+  );
+  const searchErrorsId = useId();
+
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] =
+    useState<number>(VIEWPORT_HEIGHT);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const allFindings = useMemo(
+    () => (fixed ? [...findings, ...fixed] : findings),
+    [findings, fixed],
+  );
+  const rows = useMemo<FindingRow[]>(
+    () => allFindings.map((finding, id) => ({ id, finding })),
+    [allFindings],
+  );
+  // Only reports compared with a baseline have statuses to filter on
+  const hasStatus = useMemo(
+    () => allFindings.some((finding) => finding.status),
+    [allFindings],
+  );
+
+  const filteredRows = useMemo(() => {
+    const severities = new Set(severityFilter);
+    const statuses = new Set(statusFilter);
+    return rows.filter(({ finding }) => {
+      const matchesTab = activeTab === "all" || finding.tool === activeTab;
+      const matchesProject =
+        activeProject === "all" || finding.project === activeProject;
+      const matchesStatus = !finding.status || statuses.has(finding.status);
+      return (
+        matchesTab &&
+        matchesProject &&
+        matchesStatus &&
+        severities.has(finding.severity) &&
+        search.matches(finding)
+      );
+    });
+  }, [rows, activeTab, activeProject, severityFilter, statusFilter, search]);
+
+  const levels = useMemo(
+    () => severityLevels(severities, allFindings),
+    [severities, allFindings],
+  );
+  const tools = useMemo(
+    () => [...new Set(allFindings.map((f) => f.tool))],
+    [allFindings],
+  );
+  const projects = useMemo(
+    () => [
+      ...new Set(
+        allFindings
+          .map((f) => f.project)
+          .filter((project): project is string => !!project),
+      ),
+    ],
+    [allFindings],
+  );
+
+  // Jump back to the top when the filters change the result set
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [filteredRows]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => {
+      if (element.clientHeight > 0) setViewportHeight(element.clientHeight);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(
+    filteredRows.length,
+    Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN,
+  );
+  const visibleRows = filteredRows.slice(firstRow, lastRow);
 
   return (
     <div className="space-y-4">
+      {/* Search */}
+      <div>
+        <input
+          type="search"
+          value={query}
+          onInput={(event) => setQuery(event.currentTarget.value)}
+          aria-label="Search findings"
+          aria-invalid={search.errors.length > 0}
+          aria-describedby={
+            search.errors.length > 0 ? searchErrorsId : undefined
+          }
+          placeholder="Search, e.g. sql tool:Semgrep severity>=HIGH -path:test/**"
+          spellcheck={false}
+          className={cn(
+            "w-full rounded-lg border px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-accent",
+            search.errors.length > 0 && "border-red-400",
+          )}
+        />
+        {search.errors.length > 0 && (
+          <ul
+            id={searchErrorsId}
+            role="alert"
+            className="mt-1 space-y-0.5 text-sm text-red-700"
+          >
+            {search.errors.map((error) => (
+              <li key={error.start}>
+                <code className="rounded bg-red-50 px-1">
+                  {query.slice(error.start, error.end)}
+                </code>{" "}
+                {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       {/* Severity Filter */}
       <div className="flex gap-2 flex-wrap">
-        {Object.entries(severityConfig).map(([severity, config]) => {
-          const severityKey = severity as SeverityLevel;
+        {levels.map((severityKey) => {
+          const config = severities[severityKey];
           const isActive = severityFilter.includes(severityKey);
 
           return (
             <button
-              key={severity}
+              key={severityKey}
               onClick={() => {
                 setSeverityFilter((prev) =>
                   prev.includes(severityKey)
@@ -64,16 +192,70 @@ export function FindingsTable({ findings }: FindingsTableProps) {
               className={cn(
                 "px-3 py-1 text-sm rounded-full border-2 transition-colors",
                 isActive
-                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  ? "border-accent bg-accent/10 text-accent-dark"
                   : "bg-gray-100 text-gray-500 border-gray-300 hover:bg-gray-200",
               )}
             >
-              {config.icon} {severity}
+              {config.icon} {config.label}
             </button>
           );
         })}
       </div>
 
+      {/* Status Filter */}
+      {hasStatus && (
+        <div className="flex gap-2 flex-wrap">
+          {(Object.keys(statusConfig) as FindingStatus[]).map((status) => {
+            const config = statusConfig[status];
+            const isActive = statusFilter.includes(status);
+
+            return (
+              <button
+                key={status}
+                onClick={() => {
+                  setStatusFilter((prev) =>
+                    prev.includes(status)
+                      ? prev.filter((s) => s !== status)
+                      : [...prev, status],
+                  );
+                }}
+                className={cn(
+                  "px-3 py-1 text-sm rounded-full border-2 transition-colors",
+                  isActive
+                    ? "border-accent bg-accent/10 text-accent-dark"
+                    : "bg-gray-100 text-gray-500 border-gray-300 hover:bg-gray-200",
+                )}
+              >
+                {config.icon} {config.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Project Tabs */}
+      {projects.length > 1 && (
+        <Tabs.Root value={activeProject} onValueChange={setActiveProject}>
+          <Tabs.List className="flex space-x-1 rounded-lg bg-gray-100 p-1">
+            <Tabs.Trigger
+              value="all"
+              className="px-3 py-1.5 text-sm font-medium rounded-md transition-colors data-[state=active]:bg-white data-[state=active]:shadow-sm"
+            >
+              All Projects
+            </Tabs.Trigger>
+            {projects.map((project) => (
+              <Tabs.Trigger
+                key={project}
+                value={project}
+                className="px-3 py-1.5 text-sm font-medium rounded-md transition-colors data-[state=active]:bg-white data-[state=active]:shadow-sm"
+              >
+                {project}
+              </Tabs.Trigger>
+            ))}
+          </Tabs.List>
+        </Tabs.Root>
+      )}
+
       {/* Tool Tabs */}
       <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
         <Tabs.List className="flex space-x-1 rounded-lg bg-gray-100 p-1">
@@ -97,47 +279,95 @@ export function FindingsTable({ findings }: FindingsTableProps) {
 
       {/* Findings Table */}
       <div className="border rounded-lg overflow-hidden">
-        <table className="w-full">
-          <thead className="bg-gray-50">
-            <tr>
-              <th className="text-left p-4 font-medium">Severity</th>
-              <th className="text-left p-4 font-medium">Tool</th>
-              <th className="text-left p-4 font-medium">Message</th>
-              <th className="text-left p-4 font-medium">Location</th>
-              <th className="text-left p-4 font-medium">Actions</th>
-            </tr>
-          </thead>
-          <tbody>
-            {filteredFindings.map((finding, index) => (
-              <tr key={index} className="border-t hover:bg-gray-50">
-                <td className="p-4">
-                  <Badge variant={getSeverityVariant(finding.severity)}>
-                    {severityConfig[finding.severity].icon} {finding.severity}
-                  </Badge>
-                </td>
-                <td className="p-4 font-mono text-sm">{finding.tool}</td>
-                <td className="p-4 max-w-md truncate">{finding.message}</td>
-                <td className="p-4 font-mono text-sm text-gray-600">
-                  {finding.location}
-                </td>
-                <td className="p-4">
-                  <button
-                    onClick={() => setSelectedFinding(finding)}
-                    className="text-blue-600 hover:text-blue-800 text-sm"
-                  >
-                    View Details
-                  </button>
-                </td>
+        <div
+          ref={scrollRef}
+          data-testid="findings-scroll"
+          className="overflow-auto"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+          onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        >
+          <table className="w-full table-fixed">
+            <thead className="bg-gray-50 sticky top-0 z-10">
+              <tr>
+                <th className="text-left p-4 font-medium w-36">Severity</th>
+                {hasStatus && (
+                  <th className="text-left p-4 font-medium w-32">Status</th>
+                )}
+                {projects.length > 0 && (
+                  <th className="text-left p-4 font-medium">Project</th>
+                )}
+                <th className="text-left p-4 font-medium">Tool</th>
+                <th className="text-left p-4 font-medium w-2/5">Message</th>
+                <th className="text-left p-4 font-medium">Location</th>
+                <th className="text-left p-4 font-medium w-32">Actions</th>
               </tr>
-            ))}
-          </tbody>
-        </table>
+            </thead>
+            <tbody>
+              {firstRow > 0 && (
+                <tr aria-hidden="true" style={{ height: firstRow * ROW_HEIGHT }} />
+              )}
+              {visibleRows.map(({ id, finding }) => (
+                <tr
+                  key={id}
+                  className="border-t hover:bg-gray-50"
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <td className="p-4">
+                    <SeverityBadge config={severities[finding.severity]} />
+                  </td>
+                  {hasStatus && (
+                    <td className="p-4">
+                      {finding.status && <StatusBadge status={finding.status} />}
+                    </td>
+                  )}
+                  {projects.length > 0 && (
+                    <td className="p-4 text-sm truncate">{finding.project}</td>
+                  )}
+                  <td className="p-4 font-mono text-sm truncate">
+                    {finding.tool}
+                  </td>
+                  <td className="p-4 truncate">
+                    {finding.suppression && (
+                      <Badge variant="warning" className="mr-2">
+                        Suppression expired
+                      </Badge>
+                    )}
+                    <Highlight
+                      text={finding.message}
+                      terms={search.highlights}
+                    />
+                  </td>
+                  <td className="p-4 font-mono text-sm text-gray-600 truncate">
+                    <Highlight
+                      text={finding.location}
+                      terms={search.highlights}
+                    />
+                  </td>
+                  <td className="p-4">
+                    <button
+                      onClick={() => setSelectedFinding(finding)}
+                      className="text-accent hover:text-accent-dark text-sm"
+                    >
+                      View Details
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {lastRow < filteredRows.length && (
+                <tr
+                  aria-hidden="true"
+                  style={{ height: (filteredRows.length - lastRow) * ROW_HEIGHT }}
+                />
+              )}
+            </tbody>
+          </table>
 
-        {filteredFindings.length === 0 && (
-          <div className="p-8 text-center text-gray-500">
-            No findings match the current filters.
-          </div>
-        )}
+          {filteredRows.length === 0 && (
+            <div className="p-8 text-center text-gray-500">
+              No findings match the current filters.
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Finding Details Modal */}
@@ -153,90 +383,10 @@ export function FindingsTable({ findings }: FindingsTableProps) {
             </Dialog.Title>
 
             {selectedFinding && (
-              <div className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Severity
-                    </label>
-                    <Badge
-                      variant={getSeverityVariant(selectedFinding.severity)}
-                      className="mt-1"
-                    >
-                      {severityConfig[selectedFinding.severity].icon}{" "}
-                      {selectedFinding.severity}
-                    </Badge>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Tool
-                    </label>
-                    <p className="font-mono text-sm mt-1">
-                      {selectedFinding.tool}
-                    </p>
-                  </div>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">
-                    Message
-                  </label>
-                  <p className="mt-1">{selectedFinding.message}</p>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">
-                    Location
-                  </label>
-                  <p className="font-mono text-sm mt-1">
-                    {selectedFinding.location}
-                  </p>
-                </div>
-
-                {selectedFinding.lineNumber && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Line Number
-                    </label>
-                    <p className="font-mono text-sm mt-1">
-                      {selectedFinding.lineNumber}
-                    </p>
-                  </div>
-                )}
-
-                {selectedFinding.description && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Description
-                    </label>
-                    <p className="mt-1 text-sm">
-                      {selectedFinding.description}
-                    </p>
-                  </div>
-                )}
-
-                {selectedFinding.recommendation && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Recommendation
-                    </label>
-                    <p className="mt-1 text-sm bg-blue-50 p-3 rounded border">
-                      {selectedFinding.recommendation}
-                    </p>
-                  </div>
-                )}
-
-                {selectedFinding.cve && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      CVE
-                    </label>
-                    <p className="font-mono text-sm mt-1">
-                      {selectedFinding.cve}
-                    </p>
-                  </div>
-                )}
-              </div>
+              <FindingDetails
+                finding={selectedFinding}
+                severities={severities}
+              />
             )}
 
             <Dialog.Close className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded">
@@ -0,0 +1,44 @@
+import { gateViolations } from "../lib/gate";
+import { cn } from "../lib/utils";
+import type { QualityGate } from "../types/ash";
+
+interface GateBannerProps {
+  gate?: QualityGate;
+}
+
+export function GateBanner({ gate }: GateBannerProps) {
+  if (!gate) return null;
+
+  const violations = gateViolations(gate);
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "mt-4 rounded-lg border px-4 py-3",
+        gate.passed
+          ? "border-green-300 bg-green-50 text-green-900"
+          : "border-red-300 bg-red-50 text-red-900",
+      )}
+    >
+      <p className="font-semibold">
+        Quality gate: {gate.passed ? "PASS" : "FAIL"}
+      </p>
+      {gate.passed ? (
+        <p className="text-sm">
+          {gate.thresholds.length}{" "}
+          {gate.thresholds.length === 1 ? "threshold" : "thresholds"} met
+        </p>
+      ) : (
+        <ul className="mt-1 space-y-0.5 text-sm">
+          {violations.map(({ label, count, limit }) => (
+            <li key={label}>
+              {label}: {count} {count === 1 ? "finding" : "findings"} (max{" "}
+              {limit})
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,59 @@
 import { useLocation } from "preact-iso";
+import { sitePaths } from "../lib/site";
+import { cn } from "../lib/utils";
+import type { Branding } from "../types/ash";
 
-export function Header() {
+interface HeaderProps {
+  // Path the site is served from
+  base?: string;
+  branding?: Branding;
+}
+
+const trimSlash = (path: string) => path.replace(/\/+$/, "");
+
+// Navigation of the static site; the overview link is only active on the
+// overview itself, the others on every page below them
+export function Header({ base = "/", branding }: HeaderProps) {
   const { url } = useLocation();
+  const current = trimSlash(url.split("?")[0]);
+
+  const link = (path: string, label: string) => {
+    const target = trimSlash(`${base}${path}`);
+    const active =
+      current === target ||
+      (path !== sitePaths.overview && current.startsWith(`${target}/`));
+    return (
+      <a
+        href={`${base}${path}`}
+        class={cn(
+          "text-sm font-medium text-gray-600 hover:text-accent-dark",
+          active && "active text-accent-dark",
+        )}
+        aria-current={active ? "page" : undefined}
+      >
+        {label}
+      </a>
+    );
+  };
 
   return (
-    <header>
-      <nav>
-        <a href="/" class={url == "/" && "active"}>
-          Home
-        </a>
-        <a href="/404" class={url == "/404" && "active"}>
-          404
-        </a>
+    <header className="border-b bg-white">
+      <nav className="container mx-auto flex items-center gap-6 px-4 py-3">
+        {(branding?.logo || branding?.companyName) && (
+          <span className="flex items-center gap-2 font-semibold text-gray-900">
+            {branding.logo && (
+              <img
+                src={branding.logo}
+                alt={branding.companyName ? "" : "Logo"}
+                className="h-8 w-auto"
+              />
+            )}
+            {branding.companyName}
+          </span>
+        )}
+        {link(sitePaths.overview, "Overview")}
+        {link(sitePaths.tools, "Tools")}
+        {link(sitePaths.files, "Files")}
       </nav>
     </header>
   );
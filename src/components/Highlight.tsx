@@ -0,0 +1,38 @@
+import type { ComponentChildren } from "preact";
+
+interface HighlightProps {
+  text: string;
+  // Marked wherever they occur, ignoring case
+  terms: string[];
+}
+
+export function Highlight({ text, terms }: HighlightProps) {
+  const lower = text.toLowerCase();
+  const needles = terms
+    .map((term) => term.toLowerCase())
+    .filter((term) => term !== "")
+    .sort((a, b) => b.length - a.length);
+  // Offsets only line up when lowercasing keeps the length
+  if (needles.length === 0 || lower.length !== text.length) return <>{text}</>;
+
+  const parts: ComponentChildren[] = [];
+  let plain = 0;
+  for (let i = 0; i < text.length; ) {
+    const needle = needles.find((term) => lower.startsWith(term, i));
+    if (!needle) {
+      i++;
+      continue;
+    }
+    if (plain < i) parts.push(text.slice(plain, i));
+    parts.push(
+      <mark key={i} className="rounded-sm bg-yellow-200 text-inherit">
+        {text.slice(i, i + needle.length)}
+      </mark>,
+    );
+    i += needle.length;
+    plain = i;
+  }
+  if (plain < text.length) parts.push(text.slice(plain));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,90 @@
+import { useState } from "preact/hooks";
+import { Upload } from "lucide-preact";
+import { DiagnosticsPanel } from "./DiagnosticsPanel";
+import { cn } from "../lib/utils";
+import { loadReportSources, readFiles } from "../lib/sources";
+import type { ValidationIssue, ValidationResult } from "../lib/validate";
+
+interface ReportLoaderProps {
+  onLoad: (result: ValidationResult) => void;
+  issues?: ValidationIssue[];
+}
+
+export function ReportLoader({ onLoad, issues = [] }: ReportLoaderProps) {
+  const [dragging, setDragging] = useState<boolean>(false);
+  const [reading, setReading] = useState<boolean>(false);
+
+  const loadFiles = async (files: FileList | null | undefined) => {
+    if (!files || files.length === 0) return;
+    setReading(true);
+    try {
+      onLoad(loadReportSources(await readFiles(files)));
+    } catch (error) {
+      onLoad({
+        report: null,
+        issues: [
+          { level: "error", path: "", message: (error as Error).message },
+        ],
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          ASH Security Report
+        </h1>
+        <p className="text-gray-600 mb-6">
+          Open one or more ASH aggregated results, SARIF or report JSON files.
+          Files are read in your browser and never uploaded.
+        </p>
+
+        <div
+          data-testid="drop-zone"
+          onDragOver={(event) => {
+            event.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(event) => {
+            event.preventDefault();
+            setDragging(false);
+            loadFiles(event.dataTransfer?.files);
+          }}
+          className={cn(
+            "mb-6 rounded-lg border-2 border-dashed p-12 text-center transition-colors",
+            dragging
+              ? "border-blue-500 bg-blue-50"
+              : "border-gray-300 bg-white",
+          )}
+        >
+          <Upload className="mx-auto mb-4 h-10 w-10 text-gray-400" />
+          {reading ? (
+            <p className="text-gray-600">Reading files...</p>
+          ) : (
+            <>
+              <p className="mb-2 text-gray-700">
+                Drag and drop report files here, or
+              </p>
+              <label className="cursor-pointer text-blue-600 hover:text-blue-800">
+                choose files
+                <input
+                  type="file"
+                  multiple
+                  accept=".json,.sarif,application/json"
+                  className="sr-only"
+                  onChange={(event) => loadFiles(event.currentTarget.files)}
+                />
+              </label>
+            </>
+          )}
+        </div>
+
+        <DiagnosticsPanel issues={issues} />
+      </div>
+    </div>
+  );
+}
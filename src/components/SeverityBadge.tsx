@@ -0,0 +1,27 @@
+import type { ComponentChildren } from "preact";
+import { Badge } from "./ui/badge";
+import { cn, severityStyle } from "../lib/utils";
+import type { SeverityConfig } from "../types/ash";
+
+interface SeverityBadgeProps {
+  config: SeverityConfig;
+  className?: string;
+  // Defaults to the level's icon and label
+  children?: ComponentChildren;
+}
+
+export function SeverityBadge({
+  config,
+  className,
+  children,
+}: SeverityBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(config.color, className)}
+      style={severityStyle(config)}
+    >
+      {children ?? `${config.icon} ${config.label}`}
+    </Badge>
+  );
+}
@@ -1,13 +1,32 @@
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
-import { severityConfig } from "../lib/utils";
-import type { Finding, SeverityLevel } from "../types/ash";
+import { SeverityBadge } from "./SeverityBadge";
+import { statusCounts } from "../lib/diff";
+import {
+  severityConfig,
+  severityLevels,
+  statusConfig,
+  type SeverityConfigMap,
+} from "../lib/utils";
+import type {
+  BaselineComparison,
+  Finding,
+  FindingStatus,
+  SeverityLevel,
+} from "../types/ash";
 
 interface SummaryCardsProps {
   findings: Finding[];
+  severities?: SeverityConfigMap;
+  // Adds the Changes counts for a report compared with a baseline
+  baseline?: BaselineComparison;
 }
 
-export function SummaryCards({ findings }: SummaryCardsProps) {
+export function SummaryCards({
+  findings,
+  severities = severityConfig,
+  baseline,
+}: SummaryCardsProps) {
   const counts = findings.reduce(
     (acc, finding) => {
       acc[finding.severity] = (acc[finding.severity] || 0) + 1;
@@ -16,46 +35,84 @@ export function SummaryCards({ findings }: SummaryCardsProps) {
     {} as Record<SeverityLevel, number>,
   );
 
-  const getSeverityVariant = (severity: SeverityLevel) => {
-    switch (severity) {
-      case "CRITICAL":
-        return "error";
-      case "HIGH":
-        return "warning";
-      case "MEDIUM":
-        return "warning";
-      case "LOW":
-        return "success";
-      default:
-        return "default";
-    }
-  };
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {severityLevels(severities, findings).map((severity) => {
+          const config = severities[severity];
+          const count = counts[severity] || 0;
+
+          return (
+            <Card key={severity} className="transition-all hover:shadow-md">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-sm font-medium">
+                    {config.icon} {config.label}
+                  </CardTitle>
+                  <SeverityBadge config={config}>{count}</SeverityBadge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900">{count}</div>
+                <p className="text-xs text-gray-700">
+                  {count === 1 ? "finding" : "findings"}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {baseline && (
+        <ChangesSummary
+          counts={statusCounts({ findings, baseline })}
+          scanDate={baseline.scanDate}
+        />
+      )}
+    </>
+  );
+}
+
+interface ChangesSummaryProps {
+  counts: Record<FindingStatus, number>;
+  scanDate: string;
+}
 
+function ChangesSummary({ counts, scanDate }: ChangesSummaryProps) {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-      {Object.entries(severityConfig).map(([severity, config]) => {
-        const severityKey = severity as SeverityLevel;
-        const count = counts[severityKey] || 0;
-
-        return (
-          <Card key={severity} className="transition-all hover:shadow-md">
-            <CardHeader className="pb-2">
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-sm font-medium">
-                  {config.icon} {severity}
-                </CardTitle>
-                <Badge variant={getSeverityVariant(severityKey)}>{count}</Badge>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-gray-900">{count}</div>
-              <p className="text-xs text-gray-700">
-                {count === 1 ? "finding" : "findings"}
-              </p>
-            </CardContent>
-          </Card>
-        );
-      })}
-    </div>
+    <section aria-label="Changes" className="mb-6">
+      <h2 className="text-lg font-semibold text-gray-900">Changes</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Compared with the baseline scan of{" "}
+        {new Date(scanDate).toLocaleString()}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(Object.keys(statusConfig) as FindingStatus[]).map((status) => {
+          const config = statusConfig[status];
+          const count = counts[status];
+
+          return (
+            <Card key={status} className="transition-all hover:shadow-md">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-sm font-medium">
+                    {config.icon} {config.label}
+                  </CardTitle>
+                  <Badge variant="outline" className={config.color}>
+                    {count}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900">{count}</div>
+                <p className="text-xs text-gray-700">
+                  {count === 1 ? "finding" : "findings"}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </section>
   );
 }
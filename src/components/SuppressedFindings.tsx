@@ -0,0 +1,113 @@
+import { SeverityBadge } from "./SeverityBadge";
+import { fingerprintFinding } from "../lib/fingerprint";
+import { describeSuppression } from "../lib/suppress";
+import { severityConfig, type SeverityConfigMap } from "../lib/utils";
+import type { Finding, Suppression, SuppressionResult } from "../types/ash";
+
+interface SuppressedFindingsProps {
+  suppressions: SuppressionResult;
+  severities?: SeverityConfigMap;
+}
+
+function SuppressionList({ suppressions }: { suppressions: Suppression[] }) {
+  return (
+    <ul className="mt-1 space-y-0.5 text-sm">
+      {suppressions.map((suppression) => (
+        <li key={`${describeSuppression(suppression)}:${suppression.expires}`}>
+          <span className="font-mono">{describeSuppression(suppression)}</span>{" "}
+          ({suppression.owner}, expires {suppression.expires})
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Repeated findings share a fingerprint, so their occurrence tells them apart
+function rowKeys(findings: Finding[]): string[] {
+  const seen = new Map<string, number>();
+  return findings.map((finding) => {
+    const fingerprint = finding.fingerprint ?? fingerprintFinding(finding);
+    const occurrence = seen.get(fingerprint) ?? 0;
+    seen.set(fingerprint, occurrence + 1);
+    return `${fingerprint}:${occurrence}`;
+  });
+}
+
+export function SuppressedFindings({
+  suppressions: { suppressed, expired, unused },
+  severities = severityConfig,
+}: SuppressedFindingsProps) {
+  const keys = rowKeys(suppressed);
+
+  return (
+    <div className="space-y-4">
+      {expired.length > 0 && (
+        <div
+          role="alert"
+          className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-amber-900"
+        >
+          <p className="font-semibold">
+            {expired.length}{" "}
+            {expired.length === 1 ? "suppression has" : "suppressions have"}{" "}
+            expired; the findings they matched are reported again
+          </p>
+          <SuppressionList suppressions={expired} />
+        </div>
+      )}
+
+      {unused.length > 0 && (
+        <div className="rounded-lg border border-gray-300 bg-gray-50 px-4 py-3 text-gray-800">
+          <p className="font-semibold">
+            {unused.length}{" "}
+            {unused.length === 1 ? "suppression" : "suppressions"} matched no
+            findings
+          </p>
+          <SuppressionList suppressions={unused} />
+        </div>
+      )}
+
+      <div className="border rounded-lg overflow-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="text-left p-4 font-medium">Severity</th>
+              <th className="text-left p-4 font-medium">Tool</th>
+              <th className="text-left p-4 font-medium">Message</th>
+              <th className="text-left p-4 font-medium">Location</th>
+              <th className="text-left p-4 font-medium">Justification</th>
+              <th className="text-left p-4 font-medium">Owner</th>
+              <th className="text-left p-4 font-medium">Expires</th>
+            </tr>
+          </thead>
+          <tbody>
+            {suppressed.map((finding, index) => (
+              <tr key={keys[index]} className="border-t hover:bg-gray-50">
+                <td className="p-4">
+                  <SeverityBadge config={severities[finding.severity]} />
+                </td>
+                <td className="p-4 font-mono text-sm">{finding.tool}</td>
+                <td className="p-4">{finding.message}</td>
+                <td className="p-4 font-mono text-sm text-gray-600">
+                  {finding.location}
+                </td>
+                <td className="p-4 text-sm">
+                  {finding.suppression?.justification}
+                </td>
+                <td className="p-4 text-sm">{finding.suppression?.owner}</td>
+                <td className="p-4 font-mono text-sm">
+                  {finding.suppression?.expires}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {suppressed.length === 0 && (
+          <div className="p-8 text-center text-gray-500">
+            No findings are suppressed.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
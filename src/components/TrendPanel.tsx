@@ -0,0 +1,301 @@
+import type { JSX } from "preact";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { SeverityBadge } from "./SeverityBadge";
+import { formatDays } from "../lib/trend";
+import { severityConfig, type SeverityConfigMap } from "../lib/utils";
+import type { SeverityLevel, Trend } from "../types/ash";
+
+interface TrendPanelProps {
+  trend: Trend;
+  severities?: SeverityConfigMap;
+}
+
+// Tailwind needs the full class names to find them in the source
+const severityStrokes: Record<SeverityLevel, string> = {
+  CRITICAL: "stroke-red-600",
+  HIGH: "stroke-orange-500",
+  MEDIUM: "stroke-yellow-500",
+  LOW: "stroke-green-600",
+  INFO: "stroke-blue-500",
+  UNKNOWN: "stroke-gray-400",
+};
+
+const toolStrokes = [
+  "stroke-sky-600",
+  "stroke-violet-600",
+  "stroke-pink-600",
+  "stroke-teal-600",
+  "stroke-amber-600",
+  "stroke-indigo-600",
+  "stroke-lime-600",
+  "stroke-rose-600",
+];
+
+const count = (counts: Record<string, number | undefined>, key: string) =>
+  (Object.prototype.hasOwnProperty.call(counts, key) && counts[key]) || 0;
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+export function TrendPanel({
+  trend,
+  severities = severityConfig,
+}: TrendPanelProps) {
+  const { scans, remediation } = trend;
+  if (scans.length === 0) return null;
+
+  const dates = scans.map((scan) => scan.scanDate);
+  const levels = (Object.keys(severities) as SeverityLevel[])
+    .filter(
+      (level) =>
+        !severities[level].hideWhenEmpty ||
+        scans.some((scan) => count(scan.bySeverity, level) > 0),
+    )
+    .sort((a, b) => severities[b].priority - severities[a].priority);
+
+  // Tools with the most findings over all scans first
+  const totals = new Map<string, number>();
+  for (const scan of scans) {
+    for (const [tool, value] of Object.entries(scan.byTool)) {
+      totals.set(tool, (totals.get(tool) ?? 0) + value);
+    }
+  }
+  const tools = [...totals.keys()].sort(
+    (a, b) => totals.get(b)! - totals.get(a)! || a.localeCompare(b),
+  );
+
+  const latest = scans[scans.length - 1];
+  const change =
+    scans.length > 1 ? latest.total - scans[scans.length - 2].total : 0;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Trends</CardTitle>
+        <p className="text-sm text-gray-600">
+          {scans.length} {scans.length === 1 ? "scan" : "scans"} from{" "}
+          {formatDate(dates[0])} to {formatDate(latest.scanDate)}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div>
+            <dt className="text-sm text-gray-600">Open findings</dt>
+            <dd className="text-2xl font-bold text-gray-900">
+              {latest.total}
+              {scans.length > 1 && (
+                <span className="ml-2 text-sm font-normal text-gray-600">
+                  {change > 0 ? `+${change}` : change} since the previous scan
+                </span>
+              )}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-600">Remediated</dt>
+            <dd className="text-2xl font-bold text-gray-900">
+              {remediation.count}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-600">Mean time to remediate</dt>
+            <dd className="text-2xl font-bold text-gray-900">
+              {remediation.meanDays === undefined
+                ? "–"
+                : formatDays(remediation.meanDays)}
+            </dd>
+          </div>
+        </dl>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <LineChart
+            title="Findings by severity"
+            dates={dates}
+            series={levels.map((level) => ({
+              label: severities[level].label,
+              values: scans.map((scan) => count(scan.bySeverity, level)),
+              className: severityStrokes[level],
+              style: severities[level].accent
+                ? { stroke: severities[level].accent }
+                : undefined,
+            }))}
+          />
+          <LineChart
+            title="Findings by tool"
+            dates={dates}
+            series={tools.map((tool, index) => ({
+              label: tool,
+              values: scans.map((scan) => count(scan.byTool, tool)),
+              className: toolStrokes[index % toolStrokes.length],
+            }))}
+          />
+        </div>
+
+        {remediation.count > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              Mean time to remediate by severity
+            </h3>
+            <ul className="flex flex-wrap gap-4">
+              {levels.map((level) => {
+                const stats = remediation.bySeverity[level];
+                if (!stats || stats.meanDays === undefined) return null;
+                return (
+                  <li key={level} className="flex items-center gap-2 text-sm">
+                    <SeverityBadge config={severities[level]} />
+                    {formatDays(stats.meanDays)} ({stats.count} fixed)
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface Series {
+  label: string;
+  values: number[];
+  className: string;
+  style?: JSX.CSSProperties;
+}
+
+interface LineChartProps {
+  title: string;
+  dates: string[];
+  series: Series[];
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 36 };
+
+// An SVG line per series, with the numbers in a table for screen readers
+function LineChart({ title, dates, series }: LineChartProps) {
+  const max = Math.max(1, ...series.flatMap((line) => line.values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  // Points are spaced by time, so a gap between scans shows as one
+  const times = dates.map((date) => Date.parse(date));
+  const span = times[times.length - 1] - times[0];
+  const x = (index: number) =>
+    PADDING.left +
+    (span > 0
+      ? ((times[index] - times[0]) / span) * plotWidth
+      : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight * (1 - value / max);
+
+  return (
+    <figure>
+      <figcaption className="text-sm font-semibold text-gray-900 mb-2">
+        {title}
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        aria-hidden="true"
+      >
+        {[0, max].map((value) => (
+          <g key={value}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              className="stroke-gray-200"
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(value) + 4}
+              textAnchor="end"
+              className="fill-gray-500 text-xs"
+            >
+              {value}
+            </text>
+          </g>
+        ))}
+        <text
+          x={PADDING.left}
+          y={HEIGHT - 6}
+          className="fill-gray-500 text-xs"
+        >
+          {formatDate(dates[0])}
+        </text>
+        {dates.length > 1 && (
+          <text
+            x={WIDTH - PADDING.right}
+            y={HEIGHT - 6}
+            textAnchor="end"
+            className="fill-gray-500 text-xs"
+          >
+            {formatDate(dates[dates.length - 1])}
+          </text>
+        )}
+        {series.map((line) => (
+          <g key={line.label} className={line.className} style={line.style}>
+            <polyline
+              fill="none"
+              strokeWidth={2}
+              points={line.values
+                .map((value, index) => `${x(index)},${y(value)}`)
+                .join(" ")}
+            />
+            {line.values.map((value, index) => (
+              <circle
+                key={index}
+                cx={x(index)}
+                cy={y(value)}
+                r={3}
+                className="fill-white"
+                strokeWidth={2}
+              >
+                <title>
+                  {line.label}: {value} on {formatDate(dates[index])}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-700">
+        {series.map((line) => (
+          <li key={line.label} className="flex items-center gap-1">
+            <svg
+              width="12"
+              height="4"
+              className={line.className}
+              style={line.style}
+              aria-hidden="true"
+            >
+              <line x1="0" x2="12" y1="2" y2="2" strokeWidth={4} />
+            </svg>
+            {line.label}
+          </li>
+        ))}
+      </ul>
+      <table className="sr-only">
+        <caption>{title}</caption>
+        <thead>
+          <tr>
+            <th scope="col">Scan</th>
+            {series.map((line) => (
+              <th key={line.label} scope="col">
+                {line.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {dates.map((date, index) => (
+            <tr key={index}>
+              <th scope="row">{formatDate(date)}</th>
+              {series.map((line) => (
+                <td key={line.label}>{line.values[index]}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </figure>
+  );
+}
@@ -1,6 +1,6 @@
 import { cn } from "../../lib/utils";
 import { cva, type VariantProps } from "class-variance-authority";
-import type { ComponentChildren } from "preact";
+import type { ComponentChildren, JSX } from "preact";
 
 const badgeVariants = cva(
   "inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
@@ -29,6 +29,7 @@ const badgeVariants = cva(
 
 export interface BadgeProps extends VariantProps<typeof badgeVariants> {
   className?: string;
+  style?: JSX.CSSProperties;
   children: ComponentChildren;
 }
 
@@ -1,10 +1,22 @@
 import { hydrate, prerender as ssr } from "preact-iso";
 import App from "./App";
+import { Site } from "./Site";
+import type { ASHReport } from "./types/ash";
 import "./style.css";
 
 if (typeof window !== "undefined") {
   const root = document.getElementById("app");
-  hydrate(<App />, root);
+  // Pages of a static site are prerendered; the report is fetched once so
+  // links can be followed without reloading
+  const base = root?.getAttribute("data-site");
+  if (base) {
+    fetch(`${base}report.json`)
+      .then((response) => response.json() as Promise<ASHReport>)
+      .then((report) => hydrate(<Site report={report} base={base} />, root))
+      .catch((error) => console.error("Failed to load the site data:", error));
+  } else {
+    hydrate(<App />, root);
+  }
 }
 
 export async function prerender() {
@@ -0,0 +1,47 @@
+import type { JSX } from "preact";
+import type { ASHReport, Branding } from "../types/ash";
+
+export const DEFAULT_TITLE = "ASH Security Report";
+
+export const reportTitle = (report: Pick<ASHReport, "title">) =>
+  report.title ?? DEFAULT_TITLE;
+
+// The page title and export name, prefixed with the company when branded
+export function documentTitle(
+  report: Pick<ASHReport, "title" | "branding">,
+): string {
+  const company = report.branding?.companyName;
+  return company ? `${company} – ${reportTitle(report)}` : reportTitle(report);
+}
+
+// Hex, named and functional colors; nothing nested, so no url() or var()
+export const isCssColor = (value: string) =>
+  /^(?:#(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})|[a-z]+|(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch)\([\w\s.,%/+-]*\))$/i.test(
+    value,
+  );
+
+// The page's CSP only allows images from data: URIs
+export const isImageDataUri = (value: string) =>
+  /^data:image\/(?:png|jpeg|gif|webp|svg\+xml);base64,[A-Za-z\d+/]+=*$/.test(
+    value,
+  );
+
+/**
+ * Overrides the theme's accent and banner colors, which the app's utility
+ * classes read through CSS variables.
+ */
+export function brandingStyle(
+  branding: Branding | undefined,
+): JSX.CSSProperties | undefined {
+  const { accentColor, bannerColor } = branding ?? {};
+  if (!accentColor && !bannerColor) return undefined;
+  return {
+    ...(accentColor
+      ? {
+          "--color-accent": accentColor,
+          "--color-accent-dark": `color-mix(in srgb, ${accentColor} 75%, black)`,
+        }
+      : {}),
+    ...(bannerColor ? { "--color-banner": bannerColor } : {}),
+  };
+}
@@ -0,0 +1,50 @@
+export const GZIP_BASE64 = "gzip+base64";
+
+const CHUNK_SIZE = 64 * 1024;
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s+/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decodes an embedded report payload written by the generator's --compress
+ * option. `onProgress` receives the fraction (0–1) of compressed input
+ * consumed so far.
+ */
+export async function decodePayload(
+  payload: string,
+  encoding: string,
+  onProgress?: (fraction: number) => void,
+): Promise<string> {
+  if (encoding !== GZIP_BASE64) {
+    throw new Error(`Unsupported report encoding "${encoding}"`);
+  }
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error(
+      "This browser cannot decompress the report (DecompressionStream is not supported)",
+    );
+  }
+
+  const bytes = base64ToBytes(payload);
+  let offset = 0;
+  const input = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.subarray(offset, offset + CHUNK_SIZE));
+      offset = Math.min(offset + CHUNK_SIZE, bytes.length);
+      onProgress?.(offset / bytes.length);
+    },
+  });
+
+  return new Response(
+    input.pipeThrough(new DecompressionStream("gzip")),
+  ).text();
+}
@@ -0,0 +1,68 @@
+import type { ASHReport, Finding, FindingStatus } from "../types/ash";
+import { fingerprintFindings, matchFindings } from "./fingerprint";
+
+export interface ReportDiff {
+  // In `head` but not `base`
+  added: Finding[];
+  // In `base` but no longer in `head`
+  fixed: Finding[];
+  // In both, as they appear in `head`
+  unchanged: Finding[];
+}
+
+/** Compares two scans by finding fingerprint. */
+export function diffReports(base: ASHReport, head: ASHReport): ReportDiff {
+  const { matched, added, removed } = matchFindings(
+    fingerprintFindings(base.findings),
+    fingerprintFindings(head.findings),
+  );
+  return {
+    added,
+    fixed: removed,
+    unchanged: matched.map(([, finding]) => finding),
+  };
+}
+
+/**
+ * Marks each of the report's findings as new or existing and embeds the
+ * baseline findings it no longer has as fixed ones.
+ */
+export function compareToBaseline(
+  report: ASHReport,
+  baseline: ASHReport,
+): ASHReport {
+  const findings = fingerprintFindings(report.findings);
+  const { added, removed } = matchFindings(
+    fingerprintFindings(baseline.findings),
+    findings,
+  );
+  const addedFindings = new Set(added);
+  const withStatus = (finding: Finding, status: FindingStatus) => ({
+    ...finding,
+    status,
+  });
+
+  return {
+    ...report,
+    findings: findings.map((finding) =>
+      withStatus(finding, addedFindings.has(finding) ? "new" : "existing"),
+    ),
+    baseline: {
+      scanDate: baseline.metadata.scanDate,
+      fixed: removed.map((finding) => withStatus(finding, "fixed")),
+    },
+  };
+}
+
+// Counts for a report compared with `compareToBaseline`
+export function statusCounts({
+  findings,
+  baseline,
+}: Pick<ASHReport, "findings" | "baseline">): Record<FindingStatus, number> {
+  const added = findings.filter((f) => f.status === "new").length;
+  return {
+    new: added,
+    existing: findings.length - added,
+    fixed: baseline?.fixed.length ?? 0,
+  };
+}
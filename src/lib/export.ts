@@ -0,0 +1,37 @@
+import type { ASHReport, SeverityLevel } from "../types/ash";
+import { toCsv } from "./exporters/csv";
+import { toJUnit } from "./exporters/junit";
+import { toMarkdown } from "./exporters/markdown";
+import { toSarif } from "./exporters/sarif";
+
+export interface ExportOptions {
+  // JUnit: findings at this severity or above fail
+  threshold?: SeverityLevel;
+  // Markdown: rows in the top findings table
+  top?: number;
+}
+
+type Exporter = (report: ASHReport, options?: ExportOptions) => string;
+
+// Formats `export --to` and `generate --to` can write
+export const exporters = {
+  json: (report) => `${JSON.stringify(report, null, 2)}\n`,
+  markdown: (report, { top } = {}) => toMarkdown(report, { top }),
+  junit: (report, options) => toJUnit(report, options),
+  csv: (report) => toCsv(report),
+  sarif: (report) => toSarif(report),
+} satisfies Record<string, Exporter>;
+
+export type ExportFormat = keyof typeof exporters;
+
+export const isExportFormat = (value: string): value is ExportFormat =>
+  Object.prototype.hasOwnProperty.call(exporters, value);
+
+// Used for default output file names
+export const exportExtensions: Record<ExportFormat, string> = {
+  json: "json",
+  markdown: "md",
+  junit: "xml",
+  csv: "csv",
+  sarif: "sarif",
+};
@@ -0,0 +1,57 @@
+import type { ASHReport, Finding } from "../../types/ash";
+
+// Every Finding field in column order; the Record type keeps it complete
+const columnFields: Record<keyof Finding, true> = {
+  tool: true,
+  severity: true,
+  ruleId: true,
+  message: true,
+  location: true,
+  lineNumber: true,
+  description: true,
+  recommendation: true,
+  pattern: true,
+  cve: true,
+  score: true,
+  project: true,
+  fingerprint: true,
+  status: true,
+  suppression: true,
+  redacted: true,
+};
+
+const columns = Object.keys(columnFields) as (keyof Finding)[];
+
+// Expired suppressions stay on their findings, so the column says why
+const cellValue = (finding: Finding, column: keyof Finding) => {
+  const value = finding[column];
+  if (typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.join(" ");
+  return `${value.justification} (${value.owner}, expires ${value.expires})`;
+};
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders the findings as RFC 4180 CSV with a header row and CRLF line
+ * endings. Text that a spreadsheet would evaluate as a formula is prefixed
+ * with an apostrophe.
+ */
+export function toCsv(report: ASHReport): string {
+  return [
+    columns.join(","),
+    ...report.findings.map((finding) =>
+      columns.map((column) => csvField(cellValue(finding, column))).join(","),
+    ),
+  ]
+    .map((line) => `${line}\r\n`)
+    .join("");
+}
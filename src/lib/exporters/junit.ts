@@ -0,0 +1,117 @@
+import type { ASHReport, Finding, SeverityLevel } from "../../types/ash";
+import { documentTitle } from "../branding";
+import { resolveSeverityConfig, type SeverityConfigMap } from "../utils";
+
+export interface JUnitOptions {
+  // Findings at this severity or above fail, the rest are skipped
+  threshold?: SeverityLevel;
+}
+
+const xmlEntities: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+// XML 1.0 has no way to represent most control characters, so they are dropped
+const escapeXml = (text: string) =>
+  text
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/[&<>"']/g, (char) => xmlEntities[char]);
+
+const attributes = (values: Record<string, string | number>) =>
+  Object.entries(values)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join("");
+
+function failureText(finding: Finding, severities: SeverityConfigMap) {
+  return [
+    `Severity: ${severities[finding.severity].label}`,
+    `Location: ${finding.location}${finding.lineNumber ? `:${finding.lineNumber}` : ""}`,
+    finding.ruleId && `Rule: ${finding.ruleId}`,
+    finding.cve && `CVE: ${finding.cve}`,
+    finding.project && `Project: ${finding.project}`,
+    finding.description && `\n${finding.description}`,
+    finding.recommendation && `\nRecommendation: ${finding.recommendation}`,
+    finding.fingerprint && `\nFingerprint: ${finding.fingerprint}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function testCase(
+  finding: Finding,
+  severities: SeverityConfigMap,
+  failed: boolean,
+  threshold: string,
+) {
+  const name = finding.ruleId
+    ? `${finding.ruleId}: ${finding.message}`
+    : finding.message;
+  const open = `    <testcase${attributes({ classname: finding.location, name })}>`;
+  const result = failed
+    ? `      <failure${attributes({
+        type: finding.severity,
+        message: finding.message,
+      })}>${escapeXml(failureText(finding, severities))}</failure>`
+    : `      <skipped${attributes({ message: `Below the ${threshold} threshold` })}/>`;
+  return [open, result, "    </testcase>"];
+}
+
+/**
+ * Renders a JUnit XML report with a test suite per tool and a test case per
+ * finding, so CI dashboards can track findings like test failures. Tools that
+ * ran without findings get an empty suite.
+ */
+export function toJUnit(
+  report: ASHReport,
+  { threshold = "LOW" }: JUnitOptions = {},
+): string {
+  const severities = resolveSeverityConfig(report.severityConfig);
+  const { priority, label } = severities[threshold];
+  const fails = (finding: Finding) =>
+    severities[finding.severity].priority >= priority;
+
+  const tools = [
+    ...new Set([
+      ...report.metadata.tools,
+      ...report.findings.map((finding) => finding.tool),
+    ]),
+  ];
+  const failures = report.findings.filter(fails).length;
+  const timestamp = report.metadata.scanDate;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attributes({
+      name: documentTitle(report),
+      tests: report.findings.length,
+      failures,
+      skipped: report.findings.length - failures,
+      errors: 0,
+      timestamp,
+    })}>`,
+  ];
+  for (const tool of tools) {
+    const findings = report.findings.filter((finding) => finding.tool === tool);
+    const toolFailures = findings.filter(fails).length;
+    lines.push(
+      `  <testsuite${attributes({
+        name: tool,
+        tests: findings.length,
+        failures: toolFailures,
+        skipped: findings.length - toolFailures,
+        errors: 0,
+        timestamp,
+      })}>`,
+      ...findings.flatMap((finding) =>
+        testCase(finding, severities, fails(finding), label),
+      ),
+      "  </testsuite>",
+    );
+  }
+  lines.push("</testsuites>");
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,201 @@
+import type { ASHReport, Finding, FindingStatus } from "../../types/ash";
+import { documentTitle } from "../branding";
+import { statusCounts } from "../diff";
+import { gateViolations } from "../gate";
+import { summarizeReport } from "../summary";
+import {
+  resolveSeverityConfig,
+  severityLevels,
+  statusConfig,
+  type SeverityConfigMap,
+} from "../utils";
+
+export interface MarkdownOptions {
+  // Findings in the top findings table
+  top?: number;
+  // GitHub rejects comments over 65536 characters
+  maxLength?: number;
+}
+
+const MESSAGE_LENGTH = 120;
+const CLOSING = "\n</details>";
+
+// Keeps scanner text from breaking the table or rendering as HTML
+const cell = (text: string) =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/[\\|`*_[\]<>]/g, (char) =>
+      char === "<" ? "&lt;" : char === ">" ? "&gt;" : `\\${char}`,
+    )
+    .trim();
+
+// Markdown escapes show up as-is inside raw HTML such as <summary>
+const htmlText = (text: string) =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .trim();
+
+const truncate = (text: string, length: number) =>
+  [...text].length > length
+    ? `${[...text].slice(0, length - 1).join("")}…`
+    : text;
+
+const location = (finding: Finding) =>
+  finding.lineNumber
+    ? `${finding.location}:${finding.lineNumber}`
+    : finding.location;
+
+function findingRow(
+  finding: Finding,
+  severities: SeverityConfigMap,
+  withTool: boolean,
+): string {
+  const { icon, label } = severities[finding.severity];
+  return `| ${[
+    `${icon} ${label}`,
+    ...(withTool ? [cell(finding.tool)] : []),
+    cell(location(finding)),
+    cell(truncate(finding.message, MESSAGE_LENGTH)),
+  ].join(" | ")} |`;
+}
+
+const tableHeader = (withTool: boolean) => [
+  `| Severity |${withTool ? " Tool |" : ""} Location | Message |`,
+  `| --- |${withTool ? " --- |" : ""} --- | --- |`,
+];
+
+/**
+ * Renders a compact summary for pull request comments: counts by severity,
+ * the gate and baseline results, the most severe findings and a collapsible
+ * table per tool. Per-tool rows are left out once `maxLength` is reached.
+ */
+export function toMarkdown(
+  report: ASHReport,
+  { top = 10, maxLength = 65_000 }: MarkdownOptions = {},
+): string {
+  const severities = resolveSeverityConfig(report.severityConfig);
+  const { total, bySeverity, byTool } = summarizeReport(report);
+  const sorted = [...report.findings].sort(
+    (a, b) => severities[b.severity].priority - severities[a.severity].priority,
+  );
+
+  const { classification, footer } = report.branding ?? {};
+  const banner = classification ? `**${cell(classification)}**` : undefined;
+  // Closes the comment like the page's footer and bottom banner
+  const trailer = [
+    ...(footer ? ["", `_${cell(footer)}_`] : []),
+    ...(banner ? ["", banner] : []),
+  ];
+
+  const lines = [
+    ...(banner ? [banner, ""] : []),
+    `## ${cell(documentTitle(report))}`,
+    "",
+    `**${total} ${total === 1 ? "finding" : "findings"}** from ${report.metadata.tools.map(cell).join(", ") || "no tools"}, scanned ${report.metadata.scanDate}`,
+    "",
+    "| Severity | Count |",
+    "| --- | ---: |",
+    ...severityLevels(severities, report.findings).map(
+      (level) =>
+        `| ${severities[level].icon} ${severities[level].label} | ${bySeverity[level]} |`,
+    ),
+  ];
+
+  if (report.gate) {
+    const violations = gateViolations(report.gate).map(
+      ({ label, count, limit }) => `${cell(label)}: ${count} (max ${limit})`,
+    );
+    lines.push(
+      "",
+      `**Quality gate: ${report.gate.passed ? "✅ PASS" : "❌ FAIL"}**${violations.length > 0 ? ` (${violations.join(", ")})` : ""}`,
+    );
+  }
+
+  // With a baseline, the top table shows what the change introduced
+  let topFindings = sorted;
+  if (report.baseline) {
+    const counts = statusCounts(report);
+    lines.push(
+      "",
+      `**Changes:** ${(Object.keys(statusConfig) as FindingStatus[])
+        .map((status) => {
+          const { icon, label } = statusConfig[status];
+          return `${icon} ${counts[status]} ${label.toLowerCase()}`;
+        })
+        .join(" · ")}`,
+    );
+    topFindings = sorted.filter((finding) => finding.status === "new");
+  }
+
+  if (report.suppressions) {
+    const { suppressed, expired } = report.suppressions;
+    lines.push(
+      "",
+      `**Suppressed:** ${suppressed.length} ${suppressed.length === 1 ? "finding" : "findings"}${expired.length > 0 ? ` (⚠️ ${expired.length} expired ${expired.length === 1 ? "suppression" : "suppressions"})` : ""}`,
+    );
+  }
+
+  if (topFindings.length > 0 && top > 0) {
+    lines.push(
+      "",
+      `### ${report.baseline ? "Top new findings" : "Top findings"}`,
+      "",
+      ...tableHeader(true),
+      ...topFindings
+        .slice(0, top)
+        .map((finding) => findingRow(finding, severities, true)),
+    );
+  }
+
+  let length = lines.join("\n").length;
+  let omitted = 0;
+  const fits = (text: string[]) =>
+    // Leaves room for closing the section and the note about left out rows
+    length +
+      text.join("\n").length +
+      1 +
+      CLOSING.length +
+      80 +
+      trailer.join("\n").length <=
+    maxLength;
+
+  for (const tool of Object.keys(byTool)) {
+    const findings = sorted.filter((finding) => finding.tool === tool);
+    const section = [
+      "",
+      `<details><summary>${htmlText(tool)} (${findings.length})</summary>`,
+      "",
+      ...tableHeader(false),
+    ];
+    if (!fits(section)) {
+      omitted += findings.length;
+      continue;
+    }
+    lines.push(...section);
+    length += section.join("\n").length + 1;
+
+    for (const [index, finding] of findings.entries()) {
+      const row = findingRow(finding, severities, false);
+      if (!fits([row])) {
+        omitted += findings.length - index;
+        break;
+      }
+      lines.push(row);
+      length += row.length + 1;
+    }
+    lines.push(CLOSING);
+    length += CLOSING.length + 1;
+  }
+
+  if (omitted > 0) {
+    lines.push(
+      "",
+      `_${omitted} more ${omitted === 1 ? "finding is" : "findings are"} in the full report._`,
+    );
+  }
+  lines.push(...trailer);
+  return `${lines.join("\n")}\n`;
+}
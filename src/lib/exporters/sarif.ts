@@ -0,0 +1,137 @@
+import type { ASHReport, Finding, SeverityLevel } from "../../types/ash";
+import { fingerprintFindings } from "../fingerprint";
+import { SARIF_FINGERPRINT } from "../importers/sarif";
+
+const sarifLevels: Record<SeverityLevel, string> = {
+  CRITICAL: "error",
+  HIGH: "error",
+  MEDIUM: "warning",
+  LOW: "note",
+  INFO: "note",
+  UNKNOWN: "warning",
+};
+
+// Scores for findings without one, inside the ranges GitHub code scanning
+// uses for each level
+const securitySeverities: Partial<Record<SeverityLevel, number>> = {
+  CRITICAL: 9.5,
+  HIGH: 8,
+  MEDIUM: 5.5,
+  LOW: 2,
+};
+
+const baselineStates = { new: "new", existing: "unchanged" } as const;
+
+// Results need a rule, so findings without one share a generic rule
+const ruleIdOf = (finding: Finding) =>
+  finding.ruleId ?? finding.cve ?? "finding";
+
+const securitySeverity = (finding: Finding) =>
+  finding.score ?? securitySeverities[finding.severity];
+
+function toRule(id: string, findings: Finding[]) {
+  const [first] = findings;
+  const scores = findings
+    .map(securitySeverity)
+    .filter((score): score is number => score !== undefined);
+  return {
+    id,
+    ...(first.description
+      ? { fullDescription: { text: first.description } }
+      : {}),
+    ...(first.recommendation ? { help: { text: first.recommendation } } : {}),
+    properties: {
+      tags: ["security"],
+      ...(scores.length > 0
+        ? { "security-severity": Math.max(...scores).toFixed(1) }
+        : {}),
+    },
+  };
+}
+
+function toResult(finding: Finding, ruleIndex: number) {
+  return {
+    ruleId: ruleIdOf(finding),
+    ruleIndex,
+    level: sarifLevels[finding.severity],
+    message: { text: finding.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: encodeURI(finding.location) },
+          ...(finding.lineNumber
+            ? { region: { startLine: finding.lineNumber } }
+            : {}),
+        },
+      },
+    ],
+    ...(finding.fingerprint
+      ? { partialFingerprints: { [SARIF_FINGERPRINT]: finding.fingerprint } }
+      : {}),
+    ...(finding.status && finding.status !== "fixed"
+      ? { baselineState: baselineStates[finding.status] }
+      : {}),
+    properties: {
+      ...(finding.score !== undefined
+        ? { "security-severity": finding.score.toFixed(1) }
+        : {}),
+      ...(finding.project ? { project: finding.project } : {}),
+    },
+  };
+}
+
+/**
+ * Renders a SARIF 2.1.0 log with a run per tool for code scanning
+ * dashboards. Each run lists the rules its results use once, and the
+ * finding fingerprint is kept in `partialFingerprints` so alerts are tracked
+ * across scans.
+ */
+export function toSarif(report: ASHReport): string {
+  const findings = fingerprintFindings(report.findings);
+  const tools = [
+    ...new Set([
+      ...report.metadata.tools,
+      ...findings.map((finding) => finding.tool),
+    ]),
+  ];
+
+  const runs = tools.map((tool) => {
+    const results = findings.filter((finding) => finding.tool === tool);
+    const rules = new Map<string, Finding[]>();
+    for (const finding of results) {
+      const id = ruleIdOf(finding);
+      const rule = rules.get(id);
+      if (rule) rule.push(finding);
+      else rules.set(id, [finding]);
+    }
+    const ruleIndexes = new Map([...rules.keys()].map((id, i) => [id, i]));
+
+    return {
+      tool: {
+        driver: {
+          name: tool,
+          rules: [...rules].map(([id, ruleFindings]) =>
+            toRule(id, ruleFindings),
+          ),
+        },
+      },
+      invocations: [
+        { executionSuccessful: true, startTimeUtc: report.metadata.scanDate },
+      ],
+      results: results.map((finding) =>
+        toResult(finding, ruleIndexes.get(ruleIdOf(finding))!),
+      ),
+    };
+  });
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs,
+    // Lets tools that ingest the log keep the report's handling marking
+    ...(report.branding?.classification
+      ? { properties: { classification: report.branding.classification } }
+      : {}),
+  };
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
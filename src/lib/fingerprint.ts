@@ -0,0 +1,114 @@
+import type { Finding } from "../types/ash";
+import { normalizePath } from "./utils";
+
+// 53-bit string hash (cyrb53); synchronous so it works the same in the
+// browser and in the generator
+function hash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (
+    (h2 >>> 0).toString(16).padStart(8, "0").slice(-6) +
+    (h1 >>> 0).toString(16).padStart(8, "0")
+  );
+}
+
+// Line numbers and counts in messages shift between scans, so ignore them
+const context = (message: string) =>
+  message.toLowerCase().replace(/\d+/g, "0").replace(/\s+/g, " ").trim();
+
+/**
+ * Identifies a finding by what was found and where, leaving out the line
+ * number so the fingerprint survives unrelated edits to the file. The
+ * project is left out too, so a merged scan still matches a single one.
+ */
+export function fingerprintFinding(finding: Finding): string {
+  return hash(
+    [
+      finding.tool,
+      finding.ruleId ?? finding.cve ?? finding.pattern ?? "",
+      normalizePath(finding.location).replace(/(:\d+){1,2}$/, ""),
+      context(finding.message),
+    ].join("\u0000"),
+  );
+}
+
+/**
+ * Fills in missing fingerprints. The same issue found several times in one
+ * file shares a fingerprint; `matchFindings` tells the occurrences apart.
+ */
+export function fingerprintFindings(findings: Finding[]): Finding[] {
+  return findings.map((finding) =>
+    finding.fingerprint
+      ? finding
+      : { ...finding, fingerprint: fingerprintFinding(finding) },
+  );
+}
+
+export interface FindingMatch {
+  // Pairs of the same finding, `[before, after]`
+  matched: [Finding, Finding][];
+  // Only in `after`
+  added: Finding[];
+  // Only in `before`
+  removed: Finding[];
+}
+
+// Findings tagged with different projects are never the same one
+const sameProject = (a: Finding, b: Finding) =>
+  !a.project || !b.project || a.project === b.project;
+
+/**
+ * Pairs up fingerprinted findings of two scans. Occurrences sharing a
+ * fingerprint are paired nearest line first, so a new duplicate added above
+ * existing ones is the one reported as added.
+ */
+export function matchFindings(
+  before: Finding[],
+  after: Finding[],
+): FindingMatch {
+  const groups = new Map<string, Finding[]>();
+  for (const finding of before) {
+    const group = groups.get(finding.fingerprint!);
+    if (group) group.push(finding);
+    else groups.set(finding.fingerprint!, [finding]);
+  }
+
+  const candidates: { from: Finding; to: Finding; distance: number }[] = [];
+  for (const to of after) {
+    for (const from of groups.get(to.fingerprint!) ?? []) {
+      if (!sameProject(from, to)) continue;
+      const distance = Math.abs((from.lineNumber ?? 0) - (to.lineNumber ?? 0));
+      candidates.push({ from, to, distance });
+    }
+  }
+  // Stable, so ties keep scan order
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const paired = new Map<Finding, Finding>();
+  const used = new Set<Finding>();
+  for (const { from, to } of candidates) {
+    if (paired.has(to) || used.has(from)) continue;
+    paired.set(to, from);
+    used.add(from);
+  }
+
+  return {
+    matched: after
+      .filter((finding) => paired.has(finding))
+      .map((finding): [Finding, Finding] => [
+        paired.get(finding)!,
+        finding,
+      ]),
+    added: after.filter((finding) => !paired.has(finding)),
+    removed: before.filter((finding) => !used.has(finding)),
+  };
+}
@@ -0,0 +1,72 @@
+import type {
+  ASHReport,
+  GateThreshold,
+  QualityGate,
+  SeverityLevel,
+} from "../types/ash";
+import { resolveSeverityConfig, severityConfig } from "./utils";
+
+export interface GateConfig {
+  // Fail when any finding is at this severity or above
+  failOn?: SeverityLevel;
+  // Most findings allowed per severity level or tool name
+  max?: Record<string, number>;
+}
+
+export const isSeverityLevel = (name: string): name is SeverityLevel =>
+  Object.prototype.hasOwnProperty.call(severityConfig, name);
+
+export const hasGate = ({ failOn, max }: GateConfig) =>
+  failOn !== undefined || Object.keys(max ?? {}).length > 0;
+
+/**
+ * Checks a report's findings against the gate's thresholds. Severity levels
+ * are ordered by the report's own severity configuration; `max` keys that are
+ * not severity levels are matched against tool names, ignoring case.
+ */
+export function evaluateGate(
+  report: ASHReport,
+  { failOn, max = {} }: GateConfig,
+): QualityGate {
+  const severities = resolveSeverityConfig(report.severityConfig);
+  const { findings } = report;
+  const thresholds: GateThreshold[] = [];
+
+  if (failOn) {
+    const { label, priority } = severities[failOn];
+    thresholds.push({
+      label: `${label} or above`,
+      count: findings.filter(
+        (finding) => severities[finding.severity].priority >= priority,
+      ).length,
+      limit: 0,
+    });
+  }
+
+  for (const [key, limit] of Object.entries(max)) {
+    const level = key.toUpperCase();
+    if (isSeverityLevel(level)) {
+      thresholds.push({
+        label: severities[level].label,
+        count: findings.filter((finding) => finding.severity === level).length,
+        limit,
+      });
+    } else {
+      thresholds.push({
+        label: key,
+        count: findings.filter(
+          (finding) => finding.tool.toLowerCase() === key.toLowerCase(),
+        ).length,
+        limit,
+      });
+    }
+  }
+
+  return {
+    passed: thresholds.every(({ count, limit }) => count <= limit),
+    thresholds,
+  };
+}
+
+export const gateViolations = (gate: QualityGate) =>
+  gate.thresholds.filter(({ count, limit }) => count > limit);
@@ -0,0 +1,86 @@
+import { normalizePath } from "./utils";
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+// Index of the "}" closing the "{" at start, or -1
+function closingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === "{") depth++;
+    else if (pattern[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// Splits brace contents on the commas outside nested braces
+function braceOptions(text: string): string[] {
+  const options = [""];
+  let depth = 0;
+  for (const char of text) {
+    if (char === "," && depth === 0) {
+      options.push("");
+      continue;
+    }
+    if (char === "{") depth++;
+    else if (char === "}") depth--;
+    options[options.length - 1] += char;
+  }
+  return options;
+}
+
+function translate(pattern: string): string {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const end = closingBrace(pattern, i);
+      if (end < 0) throw new Error('has an unclosed "{"');
+      const options = braceOptions(pattern.slice(i + 1, end));
+      source += `(?:${options.map(translate).join("|")})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Converts a glob into a RegExp over "/"-separated paths. Supports `**`
+ * (any number of directories), `*` and `?` within a segment, and `{a,b}`,
+ * whose options may use the same wildcards. Throws on an unclosed brace.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(`^${translate(pattern)}$`);
+  } catch (error) {
+    throw new Error(`Glob "${pattern}" ${(error as Error).message}`);
+  }
+}
+
+// Why a glob cannot be used, e.g. 'has an unclosed "{"', or null
+export function globError(pattern: string): string | null {
+  try {
+    translate(pattern);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+export const isGlob = (pattern: string) => /[*?{]/.test(pattern);
+
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(normalizePath(path));
+}
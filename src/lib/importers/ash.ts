@@ -0,0 +1,83 @@
+import type { ASHReport, Finding } from "../../types/ash";
+import { importerFor } from "./scanners";
+
+// Shape of `ash --format json` aggregated_results.json: ASH keeps each
+// scanner's native report under `additional_reports`, keyed by scanner name.
+export interface AshAggregatedResults {
+  metadata?: {
+    generated_at?: string;
+    project_name?: string;
+    tool_version?: string;
+    summary_stats?: { duration?: number };
+  };
+  scanner_results?: Record<string, { status?: string; finding_count?: number }>;
+  additional_reports?: Record<string, unknown>;
+}
+
+export function isAshAggregatedResults(
+  input: unknown,
+): input is AshAggregatedResults {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    ("additional_reports" in input || "scanner_results" in input)
+  );
+}
+
+/**
+ * Imports each scanner's native report. Reports that cannot be read, and
+ * scanners with fewer findings than ASH counted, are passed to `warn`
+ * rather than failing the whole file.
+ */
+export function importAshAggregatedResults(
+  results: AshAggregatedResults,
+  warn: (path: string, message: string) => void = () => {},
+): ASHReport {
+  const reports = results.additional_reports ?? {};
+  const scanners = new Set([
+    ...Object.keys(results.scanner_results ?? {}),
+    ...Object.keys(reports),
+  ]);
+
+  const findings: Finding[] = [];
+  const tools: string[] = [];
+
+  for (const scanner of scanners) {
+    const importer = importerFor(scanner);
+    tools.push(importer?.tool ?? scanner);
+
+    const report = reports[scanner];
+    let imported: Finding[] = [];
+    if (importer && report) {
+      try {
+        imported = importer.parse(report);
+      } catch (error) {
+        warn(
+          `additional_reports.${scanner}`,
+          `${(error as Error).message}; its findings were not imported`,
+        );
+      }
+    }
+    findings.push(...imported);
+
+    const expected = results.scanner_results?.[scanner]?.finding_count;
+    if (typeof expected === "number" && imported.length < expected) {
+      warn(
+        `scanner_results.${scanner}.finding_count`,
+        `ASH counted ${expected} findings from ${scanner} but ${imported.length} were imported`,
+      );
+    }
+  }
+
+  return {
+    findings,
+    metadata: {
+      scanDate: results.metadata?.generated_at ?? new Date().toISOString(),
+      totalFindings: findings.length,
+      tools,
+      duration: results.metadata?.summary_stats?.duration,
+      version: results.metadata?.tool_version,
+      project: results.metadata?.project_name,
+    },
+  };
+}
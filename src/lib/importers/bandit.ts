@@ -0,0 +1,52 @@
+import type { Finding } from "../../types/ash";
+import { normalizePath, toSeverityLevel } from "../utils";
+
+interface BanditResult {
+  filename: string;
+  issue_severity: string;
+  issue_text: string;
+  line_number?: number;
+  test_id: string;
+  test_name?: string;
+  more_info?: string;
+  issue_cwe?: { id: number; link?: string };
+}
+
+export interface BanditReport {
+  generated_at?: string;
+  results?: BanditResult[];
+}
+
+// `bandit -f json` always writes its run metrics next to the results
+export function isBanditReport(input: unknown): input is BanditReport {
+  if (typeof input !== "object" || input === null) return false;
+  const { results } = input as { results?: unknown[] };
+  return (
+    Array.isArray(results) &&
+    ("metrics" in input ||
+      (results.length > 0 &&
+        results.every(
+          (result) =>
+            typeof result === "object" &&
+            result !== null &&
+            "test_id" in result,
+        )))
+  );
+}
+
+export function parseBandit(report: BanditReport): Finding[] {
+  return (report.results ?? []).map((result) => ({
+    tool: "Bandit",
+    severity: toSeverityLevel(result.issue_severity),
+    ruleId: result.test_id,
+    message: result.issue_text,
+    location: normalizePath(result.filename),
+    lineNumber: result.line_number,
+    description: result.issue_cwe
+      ? `${result.test_name ?? result.test_id} (CWE-${result.issue_cwe.id})`
+      : result.test_name,
+    recommendation: result.more_info
+      ? `See ${result.more_info} for remediation guidance.`
+      : undefined,
+  }));
+}
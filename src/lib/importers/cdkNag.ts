@@ -0,0 +1,43 @@
+import type { Finding } from "../../types/ash";
+import { toSeverityLevel } from "../utils";
+
+interface CdkNagLine {
+  ruleId: string;
+  resourceId: string;
+  compliance: string;
+  exceptionReason?: string;
+  ruleLevel: string;
+  ruleInfo: string;
+}
+
+export interface CdkNagReport {
+  lines?: CdkNagLine[];
+}
+
+export function isCdkNagReport(input: unknown): input is CdkNagReport {
+  if (typeof input !== "object" || input === null) return false;
+  const { lines } = input as CdkNagReport;
+  return (
+    Array.isArray(lines) &&
+    lines.length > 0 &&
+    lines.every(
+      (line: unknown) =>
+        typeof line === "object" &&
+        line !== null &&
+        "ruleId" in line &&
+        "compliance" in line,
+    )
+  );
+}
+
+export function parseCdkNag(report: CdkNagReport): Finding[] {
+  return (report.lines ?? [])
+    .filter((line) => line.compliance === "Non-Compliant")
+    .map((line) => ({
+      tool: "CDK-nag",
+      severity: toSeverityLevel(line.ruleLevel),
+      ruleId: line.ruleId,
+      message: line.ruleInfo,
+      location: line.resourceId,
+    }));
+}
@@ -0,0 +1,50 @@
+import type { Finding } from "../../types/ash";
+import { normalizePath, toSeverityLevel } from "../utils";
+
+interface CfnNagViolation {
+  id: string;
+  type: string;
+  message: string;
+  logical_resource_ids?: string[];
+  line_numbers?: number[];
+}
+
+export type CfnNagReport = {
+  filename: string;
+  file_results: { violations?: CfnNagViolation[] };
+}[];
+
+export function isCfnNagReport(input: unknown): input is CfnNagReport {
+  return (
+    Array.isArray(input) &&
+    input.length > 0 &&
+    input.every(
+      (result) =>
+        typeof result === "object" &&
+        result !== null &&
+        typeof result.filename === "string" &&
+        typeof result.file_results === "object",
+    )
+  );
+}
+
+export function parseCfnNag(report: CfnNagReport): Finding[] {
+  return report.flatMap(({ filename, file_results }) =>
+    (file_results.violations ?? []).map((violation) => {
+      const resources = violation.logical_resource_ids ?? [];
+
+      return {
+        tool: "cfn-nag",
+        severity: toSeverityLevel(violation.type),
+        ruleId: violation.id,
+        message: violation.message,
+        location: normalizePath(filename),
+        lineNumber: violation.line_numbers?.find((line) => line > 0),
+        description:
+          resources.length > 0
+            ? `Affected resources: ${resources.join(", ")}`
+            : undefined,
+      };
+    }),
+  );
+}
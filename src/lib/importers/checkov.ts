@@ -0,0 +1,54 @@
+import type { Finding } from "../../types/ash";
+import { normalizePath, toSeverityLevel } from "../utils";
+
+interface CheckovCheck {
+  check_id: string;
+  check_name: string;
+  file_path: string;
+  file_line_range?: [number, number];
+  resource?: string;
+  severity?: string | null;
+  guideline?: string | null;
+}
+
+interface CheckovCheckTypeReport {
+  check_type?: string;
+  results?: { failed_checks?: CheckovCheck[] };
+}
+
+// Checkov emits a single object for one framework and an array for several
+export type CheckovReport = CheckovCheckTypeReport | CheckovCheckTypeReport[];
+
+// One object per framework, or an array of them when several ran
+export function isCheckovReport(input: unknown): input is CheckovReport {
+  const reports = Array.isArray(input) ? input : [input];
+  return (
+    reports.length > 0 &&
+    reports.every(
+      (report) =>
+        typeof report === "object" &&
+        report !== null &&
+        typeof report.check_type === "string" &&
+        typeof report.results === "object",
+    )
+  );
+}
+
+export function parseCheckov(report: CheckovReport): Finding[] {
+  const reports = Array.isArray(report) ? report : [report];
+
+  return reports.flatMap((checkTypeReport) =>
+    (checkTypeReport.results?.failed_checks ?? []).map((check) => ({
+      tool: "Checkov",
+      severity: toSeverityLevel(check.severity),
+      ruleId: check.check_id,
+      message: check.check_name,
+      location: normalizePath(check.file_path.replace(/^\//, "")),
+      lineNumber: check.file_line_range?.[0],
+      description: check.resource
+        ? `Resource ${check.resource} failed ${check.check_id}.`
+        : undefined,
+      recommendation: check.guideline ? `See ${check.guideline}` : undefined,
+    })),
+  );
+}
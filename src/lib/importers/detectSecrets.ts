@@ -0,0 +1,46 @@
+import type { Finding } from "../../types/ash";
+import { normalizePath } from "../utils";
+
+interface DetectSecretsResult {
+  type: string;
+  filename: string;
+  line_number?: number;
+  is_verified?: boolean;
+}
+
+export interface DetectSecretsReport {
+  generated_at?: string;
+  results?: Record<string, DetectSecretsResult[]>;
+}
+
+// detect-secrets baselines key their results by file name
+export function isDetectSecretsReport(
+  input: unknown,
+): input is DetectSecretsReport {
+  if (typeof input !== "object" || input === null) return false;
+  const { results } = input as { results?: unknown };
+  return (
+    typeof results === "object" &&
+    results !== null &&
+    !Array.isArray(results) &&
+    ("plugins_used" in input || Object.keys(results).length > 0) &&
+    Object.values(results).every(Array.isArray)
+  );
+}
+
+export function parseDetectSecrets(report: DetectSecretsReport): Finding[] {
+  return Object.values(report.results ?? {}).flatMap((secrets) =>
+    secrets.map((secret) => ({
+      tool: "detect-secrets",
+      // A secret confirmed live by the plugin is worse than a potential one
+      severity: secret.is_verified ? ("CRITICAL" as const) : ("HIGH" as const),
+      message: `${secret.type} detected`,
+      location: normalizePath(secret.filename),
+      lineNumber: secret.line_number,
+      pattern: secret.type,
+      description: `Potential secret of type "${secret.type}" found in source code.`,
+      recommendation:
+        "Remove the secret from source control, rotate it, and load it from a secrets manager or environment variable instead.",
+    })),
+  );
+}
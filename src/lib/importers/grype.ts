@@ -0,0 +1,78 @@
+import type { Finding } from "../../types/ash";
+import { normalizePath, toSeverityLevel } from "../utils";
+
+interface GrypeVulnerability {
+  id: string;
+  severity?: string;
+  description?: string;
+  fix?: { versions?: string[]; state?: string };
+  cvss?: { metrics?: { baseScore?: number } }[];
+}
+
+interface GrypeMatch {
+  vulnerability: GrypeVulnerability;
+  relatedVulnerabilities?: GrypeVulnerability[];
+  artifact: {
+    name: string;
+    version?: string;
+    locations?: { path: string }[];
+  };
+}
+
+export interface GrypeReport {
+  matches?: GrypeMatch[];
+  descriptor?: { name?: string; version?: string; timestamp?: string };
+}
+
+export function isGrypeReport(input: unknown): input is GrypeReport {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    Array.isArray((input as GrypeReport).matches) &&
+    ("descriptor" in input ||
+      (input as { matches: unknown[] }).matches.every(
+        (match) =>
+          typeof match === "object" &&
+          match !== null &&
+          "vulnerability" in match,
+      ))
+  );
+}
+
+const isCve = (id: string) => /^CVE-\d{4}-\d+$/i.test(id);
+
+function highestScore(vulnerabilities: GrypeVulnerability[]) {
+  const scores = vulnerabilities
+    .flatMap((vulnerability) => vulnerability.cvss ?? [])
+    .map((cvss) => cvss.metrics?.baseScore)
+    .filter((score): score is number => typeof score === "number");
+  return scores.length > 0 ? Math.max(...scores) : undefined;
+}
+
+export function parseGrype(report: GrypeReport): Finding[] {
+  return (report.matches ?? []).map(
+    ({ vulnerability, relatedVulnerabilities = [], artifact }) => {
+      const all = [vulnerability, ...relatedVulnerabilities];
+      const cve = all.map((v) => v.id).find(isCve);
+      const fixVersions = vulnerability.fix?.versions ?? [];
+      const description =
+        vulnerability.description ??
+        relatedVulnerabilities.find((v) => v.description)?.description;
+
+      return {
+        tool: "Grype",
+        severity: toSeverityLevel(vulnerability.severity),
+        ruleId: vulnerability.id,
+        message: `Vulnerability ${vulnerability.id} in ${artifact.name}`,
+        location: normalizePath(artifact.locations?.[0]?.path ?? artifact.name),
+        description,
+        recommendation:
+          fixVersions.length > 0
+            ? `Upgrade ${artifact.name} to version ${fixVersions.join(" or ")} or later`
+            : undefined,
+        cve,
+        score: highestScore(all),
+      };
+    },
+  );
+}
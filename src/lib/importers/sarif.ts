@@ -0,0 +1,190 @@
+import type { ASHReport, Finding, SeverityLevel } from "../../types/ash";
+import { normalizePath, toSeverityLevel } from "../utils";
+
+interface SarifMessage {
+  text?: string;
+  markdown?: string;
+  id?: string;
+  arguments?: string[];
+}
+
+interface SarifRule {
+  id: string;
+  shortDescription?: SarifMessage;
+  fullDescription?: SarifMessage;
+  help?: SarifMessage;
+  helpUri?: string;
+  messageStrings?: Record<string, SarifMessage>;
+  defaultConfiguration?: { level?: string };
+  properties?: Record<string, unknown>;
+}
+
+interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation?: { uri?: string };
+    region?: { startLine?: number };
+  };
+  logicalLocations?: { fullyQualifiedName?: string; name?: string }[];
+}
+
+interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: { id?: string; index?: number };
+  level?: string;
+  message: SarifMessage;
+  locations?: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  properties?: Record<string, unknown>;
+}
+
+interface SarifRun {
+  tool: { driver: { name: string; version?: string; rules?: SarifRule[] } };
+  invocations?: { startTimeUtc?: string; endTimeUtc?: string }[];
+  results?: SarifResult[];
+}
+
+export interface SarifLog {
+  version: string;
+  $schema?: string;
+  runs: SarifRun[];
+}
+
+// partialFingerprints key for fingerprints written by the SARIF exporter
+export const SARIF_FINGERPRINT = "ashFingerprint/v1";
+
+const sarifLevels: Record<string, SeverityLevel> = {
+  error: "HIGH",
+  warning: "MEDIUM",
+  note: "INFO",
+  none: "INFO",
+};
+
+export function isSarifLog(input: unknown): input is SarifLog {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    typeof (input as SarifLog).version === "string" &&
+    (input as SarifLog).version.startsWith("2.1") &&
+    Array.isArray((input as SarifLog).runs)
+  );
+}
+
+// GitHub code scanning's convention: a CVSS-style score in "security-severity"
+function securitySeverity(
+  ...sources: (Record<string, unknown> | undefined)[]
+): number | undefined {
+  for (const properties of sources) {
+    const score = Number(properties?.["security-severity"]);
+    if (properties?.["security-severity"] !== undefined && !isNaN(score)) {
+      return score;
+    }
+  }
+  return undefined;
+}
+
+function scoreToSeverity(score: number): SeverityLevel {
+  if (score >= 9) return "CRITICAL";
+  if (score >= 7) return "HIGH";
+  if (score >= 4) return "MEDIUM";
+  return "LOW";
+}
+
+function messageText(message: SarifMessage | undefined, rule?: SarifRule) {
+  const template =
+    message?.text ??
+    message?.markdown ??
+    (message?.id ? rule?.messageStrings?.[message.id]?.text : undefined);
+  if (!template) return undefined;
+
+  return template.replace(
+    /\{(\d+)\}/g,
+    (placeholder, index) => message?.arguments?.[Number(index)] ?? placeholder,
+  );
+}
+
+function findRule(run: SarifRun, result: SarifResult) {
+  const rules = run.tool.driver.rules ?? [];
+  const index = result.ruleIndex ?? result.rule?.index;
+  if (index !== undefined && rules[index]) return rules[index];
+
+  const id = result.ruleId ?? result.rule?.id;
+  return rules.find((rule) => rule.id === id);
+}
+
+// A stray "%" in a path is kept as it is rather than failing the whole log
+function decodeUri(uri: string): string {
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    return uri;
+  }
+}
+
+function resultLocation(result: SarifResult) {
+  const [location] = result.locations ?? [];
+  const uri = location?.physicalLocation?.artifactLocation?.uri;
+  if (uri) {
+    return {
+      location: normalizePath(decodeUri(uri.replace(/^file:\/\//, ""))),
+      lineNumber: location.physicalLocation?.region?.startLine,
+    };
+  }
+
+  const [logical] = location?.logicalLocations ?? [];
+  return { location: logical?.fullyQualifiedName ?? logical?.name ?? "" };
+}
+
+function toFinding(run: SarifRun, result: SarifResult): Finding {
+  const rule = findRule(run, result);
+  const ruleId = result.ruleId ?? result.rule?.id ?? rule?.id;
+  const score = securitySeverity(result.properties, rule?.properties);
+  const level = result.level ?? rule?.defaultConfiguration?.level ?? "warning";
+
+  return {
+    tool: run.tool.driver.name,
+    severity:
+      score !== undefined
+        ? scoreToSeverity(score)
+        : (sarifLevels[level] ?? toSeverityLevel(level)),
+    ruleId,
+    message: messageText(result.message, rule) ?? ruleId ?? "",
+    ...resultLocation(result),
+    description: messageText(rule?.fullDescription ?? rule?.shortDescription),
+    recommendation:
+      messageText(rule?.help) ??
+      (rule?.helpUri ? `See ${rule.helpUri}` : undefined),
+    cve: ruleId?.match(/CVE-\d{4}-\d+/i)?.[0].toUpperCase(),
+    score,
+    fingerprint: result.partialFingerprints?.[SARIF_FINGERPRINT],
+  };
+}
+
+export function importSarifLog(log: SarifLog): ASHReport {
+  const findings = log.runs.flatMap((run) =>
+    (run.results ?? []).map((result) => toFinding(run, result)),
+  );
+
+  const invocations = log.runs.flatMap((run) => run.invocations ?? []);
+  const starts = invocations
+    .map((invocation) => Date.parse(invocation.startTimeUtc ?? ""))
+    .filter((time) => !isNaN(time));
+  const ends = invocations
+    .map((invocation) => Date.parse(invocation.endTimeUtc ?? ""))
+    .filter((time) => !isNaN(time));
+
+  return {
+    findings,
+    metadata: {
+      scanDate: new Date(
+        starts.length > 0 ? Math.min(...starts) : Date.now(),
+      ).toISOString(),
+      totalFindings: findings.length,
+      tools: [...new Set(log.runs.map((run) => run.tool.driver.name))],
+      duration:
+        starts.length > 0 && ends.length > 0
+          ? (Math.max(...ends) - Math.min(...starts)) / 1000
+          : undefined,
+    },
+  };
+}
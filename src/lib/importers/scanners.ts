@@ -0,0 +1,129 @@
+import type { ASHReport, Finding } from "../../types/ash";
+import { isBanditReport, parseBandit } from "./bandit";
+import { isCdkNagReport, parseCdkNag } from "./cdkNag";
+import { isCfnNagReport, parseCfnNag } from "./cfnNag";
+import { isCheckovReport, parseCheckov } from "./checkov";
+import { isDetectSecretsReport, parseDetectSecrets } from "./detectSecrets";
+import { isGrypeReport, parseGrype } from "./grype";
+import { isSemgrepReport, parseSemgrep } from "./semgrep";
+
+export interface ScannerImporter {
+  tool: string;
+  detect: (input: unknown) => boolean;
+  // Throws for input that isn't this scanner's output, rather than losing
+  // its findings without a word
+  parse: (report: unknown) => Finding[];
+  // When the scanner records when it ran
+  scanDate?: (report: unknown) => string | undefined;
+}
+
+interface ScannerDefinition<Report> {
+  tool: string;
+  detect: (input: unknown) => input is Report;
+  parse: (report: Report) => Finding[];
+  scanDate?: (report: Report) => string | undefined;
+}
+
+// Nothing to read in any format, e.g. { "results": [] }
+const isEmpty = (value: unknown): boolean =>
+  Array.isArray(value)
+    ? value.length === 0
+    : typeof value === "object" &&
+      value !== null &&
+      Object.values(value).every(isEmpty);
+
+// Narrows the input with the scanner's own guard before reading it
+function importer<Report>({
+  tool,
+  detect,
+  parse,
+  scanDate,
+}: ScannerDefinition<Report>): ScannerImporter {
+  return {
+    tool,
+    detect,
+    parse: (report) => {
+      if (detect(report)) return parse(report);
+      if (isEmpty(report)) return [];
+      throw new Error(`Not a ${tool} report`);
+    },
+    scanDate:
+      scanDate &&
+      ((report) => (detect(report) ? scanDate(report) : undefined)),
+  };
+}
+
+// Keyed by the scanner names ASH uses, which double as input format names
+export const scannerImporters = {
+  bandit: importer({
+    tool: "Bandit",
+    detect: isBanditReport,
+    parse: parseBandit,
+    scanDate: (report) => report.generated_at,
+  }),
+  semgrep: importer({
+    tool: "Semgrep",
+    detect: isSemgrepReport,
+    parse: parseSemgrep,
+  }),
+  grype: importer({
+    tool: "Grype",
+    detect: isGrypeReport,
+    parse: parseGrype,
+    scanDate: (report) => report.descriptor?.timestamp,
+  }),
+  checkov: importer({
+    tool: "Checkov",
+    detect: isCheckovReport,
+    parse: parseCheckov,
+  }),
+  "cfn-nag": importer({
+    tool: "cfn-nag",
+    detect: isCfnNagReport,
+    parse: parseCfnNag,
+  }),
+  "cdk-nag": importer({
+    tool: "CDK-nag",
+    detect: isCdkNagReport,
+    parse: parseCdkNag,
+  }),
+  "detect-secrets": importer({
+    tool: "detect-secrets",
+    detect: isDetectSecretsReport,
+    parse: parseDetectSecrets,
+    scanDate: (report) => report.generated_at,
+  }),
+} satisfies Record<string, ScannerImporter>;
+
+export type ScannerFormat = keyof typeof scannerImporters;
+
+export function importerFor(scanner: string): ScannerImporter | undefined {
+  const name = scanner.toLowerCase().replace(/_/g, "-");
+  return Object.prototype.hasOwnProperty.call(scannerImporters, name)
+    ? (scannerImporters as Record<string, ScannerImporter>)[name]
+    : undefined;
+}
+
+export function detectScannerFormat(input: unknown): ScannerFormat | null {
+  const formats = Object.keys(scannerImporters) as ScannerFormat[];
+  return (
+    formats.find((format) => scannerImporters[format].detect(input)) ?? null
+  );
+}
+
+/** Wraps a single scanner's native output in an ASHReport. */
+export function importScannerReport(
+  format: ScannerFormat,
+  report: unknown,
+): ASHReport {
+  const { tool, parse, scanDate } = scannerImporters[format];
+  const findings = parse(report);
+  return {
+    findings,
+    metadata: {
+      scanDate: scanDate?.(report) ?? new Date().toISOString(),
+      totalFindings: findings.length,
+      tools: [tool],
+    },
+  };
+}
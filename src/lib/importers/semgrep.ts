@@ -0,0 +1,59 @@
+import type { Finding } from "../../types/ash";
+import { normalizePath, toSeverityLevel } from "../utils";
+
+interface SemgrepResult {
+  check_id: string;
+  path: string;
+  start?: { line: number; col?: number };
+  extra: {
+    message: string;
+    severity?: string;
+    metadata?: {
+      cwe?: string[] | string;
+      references?: string[];
+      fix?: string;
+    };
+    fix?: string;
+  };
+}
+
+export interface SemgrepReport {
+  results?: SemgrepResult[];
+}
+
+export function isSemgrepReport(input: unknown): input is SemgrepReport {
+  if (typeof input !== "object" || input === null) return false;
+  const { results } = input as { results?: unknown[] };
+  return (
+    Array.isArray(results) &&
+    ("paths" in input ||
+      (results.length > 0 &&
+        results.every(
+          (result) =>
+            typeof result === "object" &&
+            result !== null &&
+            "check_id" in result,
+        )))
+  );
+}
+
+export function parseSemgrep(report: SemgrepReport): Finding[] {
+  return (report.results ?? []).map((result) => {
+    const { metadata = {} } = result.extra;
+    const cwe = Array.isArray(metadata.cwe) ? metadata.cwe[0] : metadata.cwe;
+    const references = metadata.references ?? [];
+
+    return {
+      tool: "Semgrep",
+      severity: toSeverityLevel(result.extra.severity),
+      ruleId: result.check_id,
+      message: result.extra.message,
+      location: normalizePath(result.path),
+      lineNumber: result.start?.line,
+      description: cwe,
+      recommendation:
+        result.extra.fix ??
+        (references.length > 0 ? `See ${references.join(", ")}` : undefined),
+    };
+  });
+}
@@ -0,0 +1,103 @@
+export class JsonSyntaxError extends SyntaxError {
+  constructor(
+    message: string,
+    readonly line: number,
+    readonly column: number,
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = "JsonSyntaxError";
+  }
+}
+
+function lineAndColumn(text: string, position: number) {
+  const before = text.slice(0, position).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * JSON.parse that reports where the document is malformed. Engines word
+ * their errors differently, so both the "position N" (V8) and
+ * "line N column N" (V8 12+, SpiderMonkey) forms are recognized.
+ */
+export function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const message = (error as Error).message;
+    const lineMatch = message.match(/line (\d+) column (\d+)/);
+    if (lineMatch) {
+      throw new JsonSyntaxError(
+        message.replace(/\s*\(line \d+ column \d+\)/, ""),
+        Number(lineMatch[1]),
+        Number(lineMatch[2]),
+      );
+    }
+
+    const positionMatch = message.match(/position (\d+)/);
+    const position = positionMatch ? Number(positionMatch[1]) : text.length;
+    const { line, column } = lineAndColumn(text, position);
+    throw new JsonSyntaxError(message, line, column);
+  }
+}
+
+/**
+ * Maps every value path in a valid JSON document (e.g. `findings[3].severity`)
+ * to the line it starts on, so validation errors can point into the source.
+ */
+export function jsonPathLines(text: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === "\n") line++;
+      pos++;
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos++;
+    while (text[pos] !== '"') {
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    pos++;
+    return JSON.parse(text.slice(start, pos));
+  };
+
+  const readValue = (path: string) => {
+    skipWhitespace();
+    lines.set(path, line);
+
+    const open = text[pos];
+    if (open === "{" || open === "[") {
+      const close = open === "{" ? "}" : "]";
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (text[pos] !== close) {
+        if (open === "{") {
+          const key = readString();
+          skipWhitespace();
+          pos++; // colon
+          readValue(path ? `${path}.${key}` : key);
+        } else {
+          readValue(`${path}[${index++}]`);
+        }
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          skipWhitespace();
+        }
+      }
+      pos++;
+    } else if (open === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+    }
+  };
+
+  readValue("");
+  return lines;
+}
@@ -0,0 +1,93 @@
+import type { ASHReport, ProjectScan } from "../types/ash";
+import { fingerprintFindings } from "./fingerprint";
+
+export interface ProjectReport {
+  project: string;
+  report: ASHReport;
+}
+
+// ASH names its output the same for every project, so use the directory
+const genericNames = /^(ash_)?aggregated_results$/i;
+
+/**
+ * Derives a project name from a report file path, e.g.
+ * "services/api/ash-output/aggregated_results.json" → "api".
+ */
+export function projectNameFromPath(path: string): string {
+  const segments = path.split(/[\\/]/).filter(Boolean);
+  const name = (segments.pop() ?? path).replace(/\.(json|sarif)$/i, "");
+  if (!genericNames.test(name)) return name;
+
+  const directories = segments.filter(
+    (segment) => !/^(ash[-_]?(output|results|scan[-_]results)?|\.+)$/i.test(segment),
+  );
+  return directories.pop() ?? name;
+}
+
+// Two reports for "api" become "api" and "api (2)"
+function uniqueProjects(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+}
+
+/**
+ * Combines several reports into one. Each finding is tagged with the project
+ * it came from and each scan's metadata is kept in `metadata.projects`; the
+ * merged scan date is the latest of the inputs, durations are summed and
+ * tool lists are unioned. Severity overrides from later inputs win.
+ */
+export function mergeReports(inputs: ProjectReport[]): ASHReport {
+  if (inputs.length === 1) return inputs[0].report;
+
+  const projects = uniqueProjects(
+    inputs.map(({ project, report }) => report.metadata.project ?? project),
+  );
+
+  const findings = fingerprintFindings(
+    inputs.flatMap(({ report }, index) =>
+      report.findings.map((finding) =>
+        finding.project ? finding : { ...finding, project: projects[index] },
+      ),
+    ),
+  );
+
+  const scans: ProjectScan[] = inputs.flatMap(({ report }, index) => {
+    const { projects: nested, ...metadata } = report.metadata;
+    return nested ?? [{ ...metadata, project: projects[index] }];
+  });
+
+  const durations = scans
+    .map((scan) => scan.duration)
+    .filter((duration): duration is number => duration !== undefined);
+  const versions = [...new Set(scans.map((scan) => scan.version))];
+  const severityOverrides = inputs
+    .map(({ report }) => report.severityConfig)
+    .filter((config) => config !== undefined);
+
+  return {
+    findings,
+    metadata: {
+      scanDate:
+        scans
+          .map((scan) => scan.scanDate)
+          .sort()
+          .pop() ?? new Date().toISOString(),
+      totalFindings: findings.length,
+      tools: [...new Set(scans.flatMap((scan) => scan.tools))],
+      duration:
+        durations.length > 0
+          ? durations.reduce((sum, duration) => sum + duration, 0)
+          : undefined,
+      version: versions.length === 1 ? versions[0] : undefined,
+      projects: scans,
+    },
+    severityConfig:
+      severityOverrides.length > 0
+        ? Object.assign({}, ...severityOverrides)
+        : undefined,
+  };
+}
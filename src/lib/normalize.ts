@@ -0,0 +1,94 @@
+import type { ASHReport } from "../types/ash";
+import {
+  type AshAggregatedResults,
+  importAshAggregatedResults,
+  isAshAggregatedResults,
+} from "./importers/ash";
+import { type SarifLog, importSarifLog, isSarifLog } from "./importers/sarif";
+import {
+  type ScannerFormat,
+  detectScannerFormat,
+  importScannerReport,
+  scannerImporters,
+} from "./importers/scanners";
+
+export type ReportFormat =
+  | "ash-reporter"
+  | "ash-aggregated"
+  | "sarif"
+  | ScannerFormat;
+
+export const reportFormats: ReportFormat[] = [
+  "ash-reporter",
+  "ash-aggregated",
+  "sarif",
+  ...(Object.keys(scannerImporters) as ScannerFormat[]),
+];
+
+export const isReportFormat = (value: string): value is ReportFormat =>
+  (reportFormats as string[]).includes(value);
+
+function isASHReport(input: unknown): input is ASHReport {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    Array.isArray((input as ASHReport).findings)
+  );
+}
+
+export function detectReportFormat(input: unknown): ReportFormat | null {
+  if (isASHReport(input)) return "ash-reporter";
+  if (isSarifLog(input)) return "sarif";
+  if (isAshAggregatedResults(input)) return "ash-aggregated";
+  return detectScannerFormat(input);
+}
+
+function convertReport(
+  input: unknown,
+  format: ReportFormat | null,
+  warn?: (path: string, message: string) => void,
+): ASHReport {
+  switch (format) {
+    case "ash-reporter": {
+      const report = input as ASHReport;
+      return {
+        ...report,
+        metadata: {
+          scanDate: new Date().toISOString(),
+          totalFindings: report.findings.length,
+          tools: [...new Set(report.findings.map((f) => f.tool))],
+          ...report.metadata,
+        },
+      };
+    }
+    case "ash-aggregated":
+      return importAshAggregatedResults(input as AshAggregatedResults, warn);
+    case "sarif":
+      return importSarifLog(input as SarifLog);
+    case null:
+      throw new Error("Unrecognized report format");
+    default:
+      return importScannerReport(format, input);
+  }
+}
+
+/**
+ * Converts any supported scan output into an ASHReport. Reports that are
+ * already in our own format are passed through with their metadata filled in.
+ * Pass `format` to skip detection when the input is ambiguous, and `warn` to
+ * hear about scanner reports inside ASH results that could not be imported.
+ */
+export function normalizeReport(
+  input: unknown,
+  format?: ReportFormat,
+  warn?: (path: string, message: string) => void,
+): ASHReport {
+  if (!format) return convertReport(input, detectReportFormat(input), warn);
+  try {
+    return convertReport(input, format, warn);
+  } catch (error) {
+    throw new Error(
+      `Could not read input as ${format}: ${(error as Error).message}`,
+    );
+  }
+}
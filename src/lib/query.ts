@@ -0,0 +1,263 @@
+import type { Finding, FindingStatus, SeverityLevel } from "../types/ash";
+import { globToRegExp, isGlob } from "./glob";
+import { normalizePath, statusConfig, type SeverityConfigMap } from "./utils";
+
+export interface QueryError {
+  message: string;
+  // Offsets of the offending term in the query text
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  // Every finding matches an empty query
+  matches: (finding: Finding) => boolean;
+  // Free-text terms to mark in the matching rows
+  highlights: string[];
+  // Terms with errors are left out of `matches`
+  errors: QueryError[];
+}
+
+type Operator = ":" | "=" | ">" | ">=" | "<" | "<=";
+type Predicate = (finding: Finding) => boolean;
+
+interface Term {
+  start: number;
+  end: number;
+  negated: boolean;
+  field?: string;
+  operator?: Operator;
+  value: string;
+}
+
+const qualifier = /([A-Za-z]+)(>=|<=|:|=|>|<)/y;
+
+// Reads up to the next space outside quotes, without the quotes
+function readValue(query: string, from: number) {
+  let value = "";
+  let i = from;
+  while (i < query.length && !/\s/.test(query[i])) {
+    if (query[i] !== '"') {
+      value += query[i++];
+      continue;
+    }
+    const close = query.indexOf('"', i + 1);
+    if (close === -1) return { value, end: query.length, unclosed: true };
+    value += query.slice(i + 1, close);
+    i = close + 1;
+  }
+  return { value, end: i, unclosed: false };
+}
+
+function tokenize(query: string): { terms: Term[]; errors: QueryError[] } {
+  const terms: Term[] = [];
+  const errors: QueryError[] = [];
+
+  for (let i = 0; i < query.length; ) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = query[i] === "-";
+    if (negated) i++;
+
+    qualifier.lastIndex = i;
+    const match = qualifier.exec(query);
+    if (match) i += match[0].length;
+
+    const { value, end, unclosed } = readValue(query, i);
+    i = end;
+    if (unclosed) {
+      errors.push({ message: "Missing closing quote", start, end });
+    } else if (negated && !match && end === start + 1) {
+      errors.push({ message: 'Expected a term after "-"', start, end });
+    } else {
+      terms.push({
+        start,
+        end,
+        negated,
+        field: match?.[1].toLowerCase(),
+        operator: match?.[2] as Operator | undefined,
+        value,
+      });
+    }
+  }
+  return { terms, errors };
+}
+
+// "CVE-2024-*" → /^CVE-2024-.*$/i; `*` and `?` are the only wildcards
+function wildcard(pattern: string): (text: string | undefined) => boolean {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+          ? "."
+          : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  const regex = new RegExp(`^${source}$`, "i");
+  return (text) => text !== undefined && regex.test(text);
+}
+
+const compare = (operator: Operator, a: number, b: number) => {
+  switch (operator) {
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    default:
+      return a === b;
+  }
+};
+
+const isEquality = (operator: Operator) =>
+  operator === ":" || operator === "=";
+
+// Each qualifier returns a predicate, or an error message for the term
+const fields: Record<
+  string,
+  (
+    value: string,
+    operator: Operator,
+    severities: SeverityConfigMap,
+  ) => Predicate | string
+> = {
+  tool: (value) => {
+    const matches = wildcard(value);
+    return (finding) => matches(finding.tool);
+  },
+  project: (value) => {
+    const matches = wildcard(value);
+    return (finding) => matches(finding.project);
+  },
+  // Like suppressions, rules match the rule ID, pattern or CVE
+  rule: (value) => {
+    const matches = wildcard(value);
+    return (finding) =>
+      [finding.ruleId, finding.pattern, finding.cve].some(matches);
+  },
+  cve: (value) => {
+    const matches = wildcard(value);
+    return (finding) => matches(finding.cve);
+  },
+  // A glob over the whole location, else any part of it
+  path: (value) => {
+    const pattern = normalizePath(value).replace(/^\/+/, "");
+    const location = (finding: Finding) =>
+      normalizePath(finding.location)
+        .replace(/(:\d+){1,2}$/, "")
+        .replace(/^\/+/, "");
+    if (!isGlob(pattern)) {
+      return (finding) =>
+        location(finding).toLowerCase().includes(pattern.toLowerCase());
+    }
+    // Compiled once per query rather than per finding
+    let glob: RegExp;
+    try {
+      glob = globToRegExp(pattern);
+    } catch (error) {
+      return (error as Error).message;
+    }
+    return (finding) => glob.test(location(finding));
+  },
+  status: (value) => {
+    const statuses = Object.keys(statusConfig) as FindingStatus[];
+    const status = statuses.find((s) => s === value.toLowerCase());
+    if (!status) {
+      return `Unknown status "${value}" (expected one of ${statuses.join(", ")})`;
+    }
+    return (finding) => finding.status === status;
+  },
+  severity: (value, operator, severities) => {
+    const levels = Object.keys(severities) as SeverityLevel[];
+    const level = levels.find(
+      (level) =>
+        level.toLowerCase() === value.toLowerCase() ||
+        severities[level].label.toLowerCase() === value.toLowerCase(),
+    );
+    if (!level) {
+      return `Unknown severity "${value}" (expected one of ${levels.join(", ")})`;
+    }
+    if (isEquality(operator)) return (finding) => finding.severity === level;
+    const priority = severities[level].priority;
+    return (finding) =>
+      compare(operator, severities[finding.severity].priority, priority);
+  },
+  score: (value, operator) => {
+    if (!/^\d+(\.\d+)?$/.test(value)) {
+      return `Expected a number after "score${operator}"`;
+    }
+    const limit = Number(value);
+    return (finding) =>
+      finding.score !== undefined && compare(operator, finding.score, limit);
+  },
+};
+
+// Only these can be compared with < and >
+const ordered = new Set(["severity", "score"]);
+
+const searchedText = (finding: Finding) =>
+  [finding.message, finding.description ?? "", finding.location].map((text) =>
+    text.toLowerCase(),
+  );
+
+function compileTerm(
+  { field, operator, value }: Term,
+  severities: SeverityConfigMap,
+): Predicate | string {
+  if (field === undefined || operator === undefined) {
+    const text = value.toLowerCase();
+    return (finding) =>
+      searchedText(finding).some((searched) => searched.includes(text));
+  }
+  if (!Object.prototype.hasOwnProperty.call(fields, field)) {
+    return `Unknown field "${field}" (expected one of ${Object.keys(fields).join(", ")})`;
+  }
+  if (value === "") return `Expected a value after "${field}${operator}"`;
+  if (!isEquality(operator) && !ordered.has(field)) {
+    return `"${field}" can't be compared with "${operator}"; use ${field}:${value}`;
+  }
+  return fields[field](value, operator, severities);
+}
+
+/**
+ * Parses a findings search such as `sql tool:Semgrep severity>=HIGH
+ * -path:test/**`. Terms must all match; free text is looked for in the
+ * message, description and location, and a leading "-" negates a term.
+ */
+export function parseQuery(
+  query: string,
+  severities: SeverityConfigMap,
+): ParsedQuery {
+  const { terms, errors } = tokenize(query);
+  const predicates: Predicate[] = [];
+  const highlights: string[] = [];
+
+  for (const term of terms) {
+    // An empty pair of quotes
+    if (term.field === undefined && term.value === "") continue;
+
+    const predicate = compileTerm(term, severities);
+    if (typeof predicate === "string") {
+      errors.push({ message: predicate, start: term.start, end: term.end });
+      continue;
+    }
+    predicates.push(
+      term.negated ? (finding) => !predicate(finding) : predicate,
+    );
+    if (term.field === undefined && !term.negated) highlights.push(term.value);
+  }
+
+  return {
+    matches: (finding) => predicates.every((predicate) => predicate(finding)),
+    highlights,
+    errors: errors.sort((a, b) => a.start - b.start),
+  };
+}
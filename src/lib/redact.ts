@@ -0,0 +1,119 @@
+import type { ASHReport, Finding, RedactedField } from "../types/ash";
+import { fingerprintFindings } from "./fingerprint";
+
+export interface RedactOptions {
+  // Tools whose findings are checked for the built-in credential patterns
+  tools?: string[];
+  // Checked in every finding; a `secret` group limits the mask to that part
+  patterns?: RegExp[];
+}
+
+export const secretTools = [
+  "git-secrets",
+  "detect-secrets",
+  "gitleaks",
+  "trufflehog",
+];
+
+export const secretPatterns: RegExp[] = [
+  // AWS access key IDs
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  // GitHub and Slack tokens
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  // JSON web tokens
+  /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+  // Private keys, including ones cut off before their footer
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----(?<secret>[\s\S]*?)(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  // Values assigned to credential-like names, e.g. `password = "..."`
+  /\b(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|aws_secret_access_key)["']?\s*[:=]\s*["']?(?<secret>[^\s"',;]{8,})/gi,
+  /\bBearer\s+(?<secret>[\w.~+/-]{16,}=*)/g,
+];
+
+const redactedFields: RedactedField[] = ["message", "description", "pattern"];
+
+const MASK = "****";
+
+/**
+ * Masks a secret, keeping its first and last four characters so it can still
+ * be recognized. Short secrets are masked completely.
+ */
+export function maskSecret(secret: string): string {
+  const [, before, text, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(secret)!;
+  const masked =
+    text.length >= 12 ? `${text.slice(0, 4)}${MASK}${text.slice(-4)}` : MASK;
+  return `${before}${masked}${after}`;
+}
+
+export function redactText(text: string, patterns: RegExp[]): string {
+  return patterns.reduce(
+    (result, pattern) =>
+      result.replace(pattern, (match, ...args) => {
+        const groups = args[args.length - 1] as
+          | Record<string, string | undefined>
+          | undefined;
+        const secret = typeof groups === "object" ? groups.secret : undefined;
+        if (secret === undefined) return maskSecret(match);
+        // The secret comes last in the match, after the name or header
+        const start = match.lastIndexOf(secret);
+        return `${match.slice(0, start)}${maskSecret(secret)}${match.slice(start + secret.length)}`;
+      }),
+    text,
+  );
+}
+
+function redactFinding(finding: Finding, patterns: RegExp[]): Finding {
+  if (patterns.length === 0) return finding;
+
+  const redacted = new Set(finding.redacted);
+  const fields: Partial<Finding> = {};
+  for (const field of redactedFields) {
+    const text = finding[field];
+    if (text === undefined) continue;
+    const masked = redactText(text, patterns);
+    if (masked !== text) {
+      fields[field] = masked;
+      redacted.add(field);
+    }
+  }
+  return redacted.size > 0
+    ? { ...finding, ...fields, redacted: [...redacted] }
+    : finding;
+}
+
+/**
+ * Masks credentials in the messages, descriptions and patterns of the
+ * report's findings, including fixed and suppressed ones. Fingerprints are
+ * computed first so they match unredacted scans.
+ */
+export function redactReport(
+  report: ASHReport,
+  { tools = secretTools, patterns = [] }: RedactOptions = {},
+): ASHReport {
+  const builtIn = new Set(tools.map((tool) => tool.toLowerCase()));
+  const redact = (findings: Finding[]) =>
+    fingerprintFindings(findings).map((finding) =>
+      redactFinding(
+        finding,
+        builtIn.has(finding.tool.toLowerCase())
+          ? [...secretPatterns, ...patterns]
+          : patterns,
+      ),
+    );
+
+  return {
+    ...report,
+    findings: redact(report.findings),
+    ...(report.baseline
+      ? { baseline: { ...report.baseline, fixed: redact(report.baseline.fixed) } }
+      : {}),
+    ...(report.suppressions
+      ? {
+          suppressions: {
+            ...report.suppressions,
+            suppressed: redact(report.suppressions.suppressed),
+          },
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,98 @@
+import type { ASHReport, Finding } from "../types/ash";
+import { documentTitle } from "./branding";
+import { fingerprintFindings } from "./fingerprint";
+
+// URL slugs of a static site's pages, built the same way by the generator
+// and the browser so links match the files written
+export interface SiteMap {
+  tools: Map<string, string>;
+  // Keyed by the finding's location
+  files: Map<string, string>;
+  findings: Map<Finding, string>;
+}
+
+export interface SitePage {
+  // Below the site's base, ending in "/" so static hosts serve index.html
+  path: string;
+  title: string;
+}
+
+export const sitePaths = {
+  overview: "",
+  tools: "tools/",
+  tool: (slug: string) => `tools/${slug}/`,
+  files: "files/",
+  file: (slug: string) => `files/${slug}/`,
+  finding: (slug: string) => `findings/${slug}/`,
+};
+
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z\d]+/g, "-")
+    .slice(0, 80)
+    .replace(/^-+|-+$/g, "") || "page";
+
+// Numbers repeated slugs, so "src/a.py" and "src-a.py" get separate pages
+function uniqueSlugs(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const slug = slugify(name);
+    let unique = slug;
+    for (let n = 2; used.has(unique); n++) unique = `${slug}-${n}`;
+    used.add(unique);
+    return unique;
+  });
+}
+
+const slugMap = (names: string[]) => {
+  const unique = [...new Set(names)];
+  const slugs = uniqueSlugs(unique);
+  return new Map(unique.map((name, index) => [name, slugs[index]]));
+};
+
+export function buildSiteMap(report: ASHReport): SiteMap {
+  // Fingerprints keep a finding's page at the same URL across scans
+  const slugs = uniqueSlugs(
+    fingerprintFindings(report.findings).map((finding) => finding.fingerprint!),
+  );
+  return {
+    tools: slugMap([
+      ...report.metadata.tools,
+      ...report.findings.map((finding) => finding.tool),
+    ]),
+    files: slugMap(report.findings.map((finding) => finding.location)),
+    findings: new Map(
+      report.findings.map((finding, index) => [finding, slugs[index]]),
+    ),
+  };
+}
+
+export const findingTitle = (finding: Finding) =>
+  finding.ruleId ? `${finding.ruleId}: ${finding.message}` : finding.message;
+
+/** Every page of the site with its document title, the overview first. */
+export function sitePages(report: ASHReport, map: SiteMap): SitePage[] {
+  const suffix = ` – ${documentTitle(report)}`;
+  return [
+    { path: sitePaths.overview, title: documentTitle(report) },
+    { path: sitePaths.tools, title: `Tools${suffix}` },
+    ...[...map.tools].map(([tool, slug]) => ({
+      path: sitePaths.tool(slug),
+      title: `${tool}${suffix}`,
+    })),
+    { path: sitePaths.files, title: `Files${suffix}` },
+    ...[...map.files].map(([file, slug]) => ({
+      path: sitePaths.file(slug),
+      title: `${file}${suffix}`,
+    })),
+    ...[...map.findings].map(([finding, slug]) => ({
+      path: sitePaths.finding(slug),
+      title: `${findingTitle(finding)}${suffix}`,
+    })),
+  ];
+}
+
+// "/reports/security" → "/reports/security/"
+export const normalizeBase = (base: string) =>
+  `/${base.replace(/^\/+|\/+$/g, "")}/`.replace(/^\/\/$/, "/");
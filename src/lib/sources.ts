@@ -0,0 +1,79 @@
+import { mergeReports, projectNameFromPath, type ProjectReport } from "./merge";
+import type { ReportFormat } from "./normalize";
+import { loadReport, type ValidationResult } from "./validate";
+
+export interface ReportSource {
+  name: string;
+  text: string;
+}
+
+/**
+ * Loads and merges reports from several files, one project per file. A file
+ * that cannot be parsed becomes an issue rather than failing the others.
+ * Formats are detected per file unless `format` is given.
+ */
+export function loadReportSources(
+  sources: ReportSource[],
+  format?: ReportFormat,
+): ValidationResult {
+  const reports: ProjectReport[] = [];
+  const issues: ValidationResult["issues"] = [];
+
+  for (const source of sources) {
+    try {
+      const result = loadReport(source.text, format);
+      if (result.report) {
+        reports.push({
+          project: projectNameFromPath(source.name),
+          report: result.report,
+        });
+      }
+      issues.push(
+        ...result.issues.map((issue) => ({ ...issue, file: source.name })),
+      );
+    } catch (error) {
+      issues.push({
+        level: "error",
+        file: source.name,
+        path: "",
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return {
+    report: reports.length > 0 ? mergeReports(reports) : null,
+    issues,
+  };
+}
+
+export async function readFiles(files: Iterable<File>): Promise<ReportSource[]> {
+  return Promise.all(
+    [...files].map(async (file) => ({ name: file.name, text: await file.text() })),
+  );
+}
+
+/**
+ * Fetches report files named in `?src=` parameters. Only URLs on the viewer's
+ * own origin are allowed so a crafted link cannot pull data from elsewhere.
+ */
+export async function fetchSources(
+  urls: string[],
+  base: string = window.location.href,
+): Promise<ReportSource[]> {
+  const origin = new URL(base).origin;
+
+  return Promise.all(
+    urls.map(async (url) => {
+      const resolved = new URL(url, base);
+      if (resolved.origin !== origin) {
+        throw new Error(`Refusing to load ${url}: not on ${origin}`);
+      }
+      const response = await fetch(resolved.href);
+      if (!response.ok) {
+        throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+      }
+      return { name: url, text: await response.text() };
+    }),
+  );
+}
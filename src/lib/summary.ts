@@ -0,0 +1,35 @@
+import type { ASHReport, SeverityLevel } from "../types/ash";
+import { severityConfig } from "./utils";
+
+export interface ReportSummary {
+  total: number;
+  bySeverity: Record<SeverityLevel, number>;
+  byTool: Record<string, number>;
+  // Only for merged multi-project reports
+  byProject?: Record<string, number>;
+}
+
+const increment = (counts: Record<string, number>, key: string) => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+export function summarizeReport(report: ASHReport): ReportSummary {
+  const bySeverity = Object.fromEntries(
+    Object.keys(severityConfig).map((level) => [level, 0]),
+  ) as Record<SeverityLevel, number>;
+  const byTool: Record<string, number> = {};
+  const byProject: Record<string, number> = {};
+
+  for (const finding of report.findings) {
+    bySeverity[finding.severity]++;
+    increment(byTool, finding.tool);
+    if (finding.project) increment(byProject, finding.project);
+  }
+
+  return {
+    total: report.findings.length,
+    bySeverity,
+    byTool,
+    byProject: Object.keys(byProject).length > 0 ? byProject : undefined,
+  };
+}
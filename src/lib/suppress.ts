@@ -0,0 +1,96 @@
+import type { ASHReport, Finding, Suppression } from "../types/ash";
+import { fingerprintFindings } from "./fingerprint";
+import { matchesGlob } from "./glob";
+import { normalizePath } from "./utils";
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function matchesSuppression(
+  finding: Finding,
+  { tool, rule, path, fingerprint }: Suppression,
+): boolean {
+  if (tool && !sameText(finding.tool, tool)) return false;
+  if (
+    rule &&
+    ![finding.ruleId, finding.pattern, finding.cve].some(
+      (value) => value !== undefined && sameText(value, rule),
+    )
+  ) {
+    return false;
+  }
+  if (path) {
+    // Locations may carry a line suffix or a leading slash
+    const location = normalizePath(finding.location).replace(
+      /(:\d+){1,2}$/,
+      "",
+    );
+    if (
+      !matchesGlob(location, path) &&
+      !matchesGlob(location.replace(/^\/+/, ""), path)
+    ) {
+      return false;
+    }
+  }
+  return !fingerprint || finding.fingerprint === fingerprint;
+}
+
+// Suppressions apply through the whole of their expiry day
+export const isExpired = ({ expires }: Suppression, today: Date) =>
+  expires < today.toISOString().slice(0, 10);
+
+// Names a suppression by its matchers, e.g. for warnings
+export const describeSuppression = ({
+  tool,
+  rule,
+  path,
+  fingerprint,
+}: Suppression) =>
+  Object.entries({ tool, rule, path, fingerprint })
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key} ${value}`)
+    .join(", ");
+
+/**
+ * Moves findings matched by an unexpired suppression out of the report's
+ * findings. Findings only matched by expired suppressions stay, tagged with
+ * the suppression so they can be flagged; suppressions that matched nothing
+ * are listed as unused.
+ */
+export function applySuppressions(
+  report: ASHReport,
+  suppressions: Suppression[],
+  today = new Date(),
+): ASHReport {
+  const used = new Set<Suppression>();
+  const expired = new Set<Suppression>();
+  const findings: Finding[] = [];
+  const suppressed: Finding[] = [];
+
+  for (const finding of fingerprintFindings(report.findings)) {
+    const matches = suppressions.filter((suppression) =>
+      matchesSuppression(finding, suppression),
+    );
+    matches.forEach((suppression) => used.add(suppression));
+
+    const active = matches.find((suppression) => !isExpired(suppression, today));
+    if (active) {
+      suppressed.push({ ...finding, suppression: active });
+    } else if (matches.length > 0) {
+      matches.forEach((suppression) => expired.add(suppression));
+      findings.push({ ...finding, suppression: matches[0] });
+    } else {
+      findings.push(finding);
+    }
+  }
+
+  return {
+    ...report,
+    metadata: { ...report.metadata, totalFindings: findings.length },
+    findings,
+    suppressions: {
+      suppressed,
+      expired: [...expired],
+      unused: suppressions.filter((suppression) => !used.has(suppression)),
+    },
+  };
+}
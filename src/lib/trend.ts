@@ -0,0 +1,94 @@
+import type {
+  ASHReport,
+  Finding,
+  RemediationStats,
+  SeverityLevel,
+  Trend,
+} from "../types/ash";
+import { fingerprintFindings, matchFindings } from "./fingerprint";
+import { summarizeReport } from "./summary";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const scanTime = (report: ASHReport) => Date.parse(report.metadata.scanDate);
+
+/** Orders scans oldest first by `metadata.scanDate`. */
+export const sortScans = (scans: ASHReport[]) =>
+  [...scans].sort((a, b) => scanTime(a) - scanTime(b));
+
+function remediationStats(days: number[]): RemediationStats {
+  return {
+    count: days.length,
+    meanDays:
+      days.length > 0
+        ? days.reduce((sum, value) => sum + value, 0) / days.length
+        : undefined,
+  };
+}
+
+/**
+ * Counts each scan's findings and measures how long findings stayed open:
+ * a finding is open from the first scan with its fingerprint until the
+ * first later scan without it. Findings that come back are counted again.
+ */
+export function buildTrend(scans: ASHReport[]): Trend {
+  const sorted = sortScans(scans);
+  // When each finding of the previous scan was first seen
+  let open = new Map<Finding, number>();
+  const remediated: { severity: SeverityLevel; days: number }[] = [];
+
+  for (const scan of sorted) {
+    const time = scanTime(scan);
+    const { matched, added, removed } = matchFindings(
+      [...open.keys()],
+      fingerprintFindings(scan.findings),
+    );
+    for (const finding of removed) {
+      remediated.push({
+        severity: finding.severity,
+        days: (time - open.get(finding)!) / DAY,
+      });
+    }
+    open = new Map([
+      ...matched.map(([before, after]): [Finding, number] => [
+        after,
+        open.get(before)!,
+      ]),
+      ...added.map((finding): [Finding, number] => [finding, time]),
+    ]);
+  }
+
+  const bySeverity: Partial<Record<SeverityLevel, number[]>> = {};
+  for (const { severity, days } of remediated) {
+    (bySeverity[severity] ??= []).push(days);
+  }
+
+  return {
+    scans: sorted.map((scan) => {
+      const { total, bySeverity, byTool } = summarizeReport(scan);
+      return { scanDate: scan.metadata.scanDate, total, bySeverity, byTool };
+    }),
+    remediation: {
+      ...remediationStats(remediated.map(({ days }) => days)),
+      bySeverity: Object.fromEntries(
+        Object.entries(bySeverity).map(([severity, days]) => [
+          severity,
+          remediationStats(days),
+        ]),
+      ),
+    },
+  };
+}
+
+/** The latest scan, carrying the trend across all of them. */
+export function trendReport(scans: ASHReport[]): ASHReport {
+  if (scans.length === 0) throw new Error("A trend needs at least one scan");
+  const sorted = sortScans(scans);
+  return { ...sorted[sorted.length - 1], trend: buildTrend(sorted) };
+}
+
+// 2.25 → "2.3 days"
+export function formatDays(days: number): string {
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} ${rounded === 1 ? "day" : "days"}`;
+}
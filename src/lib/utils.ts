@@ -1,6 +1,13 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
-import type { SeverityLevel, SeverityConfig } from "../types/ash";
+import type { JSX } from "preact";
+import type {
+  Finding,
+  FindingStatus,
+  SeverityConfig,
+  SeverityLevel,
+  SeverityOverrides,
+} from "../types/ash";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -8,23 +15,144 @@ export function cn(...inputs: ClassValue[]) {
 
 export const severityConfig: Record<SeverityLevel, SeverityConfig> = {
   CRITICAL: {
+    label: "CRITICAL",
     color: "bg-red-100 text-red-800 border-red-300",
     icon: "🔴",
     priority: 4,
   },
   HIGH: {
+    label: "HIGH",
     color: "bg-orange-100 text-orange-800 border-orange-300",
     icon: "🟠",
     priority: 3,
   },
   MEDIUM: {
+    label: "MEDIUM",
     color: "bg-yellow-100 text-yellow-800 border-yellow-300",
     icon: "🟡",
     priority: 2,
   },
   LOW: {
+    label: "LOW",
     color: "bg-green-100 text-green-800 border-green-300",
     icon: "🟢",
     priority: 1,
   },
+  INFO: {
+    label: "INFORMATIONAL",
+    color: "bg-blue-100 text-blue-800 border-blue-300",
+    icon: "🔵",
+    priority: 0,
+    hideWhenEmpty: true,
+  },
+  UNKNOWN: {
+    label: "UNKNOWN",
+    color: "bg-gray-100 text-gray-800 border-gray-300",
+    icon: "⚪",
+    priority: -1,
+    hideWhenEmpty: true,
+  },
+};
+
+export type SeverityConfigMap = Record<SeverityLevel, SeverityConfig>;
+
+// How findings compared with a baseline scan are shown
+export const statusConfig: Record<
+  FindingStatus,
+  Pick<SeverityConfig, "label" | "color" | "icon">
+> = {
+  new: {
+    label: "New",
+    color: "bg-red-50 text-red-700 border-red-300",
+    icon: "🆕",
+  },
+  existing: {
+    label: "Existing",
+    color: "bg-gray-100 text-gray-700 border-gray-300",
+    icon: "📌",
+  },
+  fixed: {
+    label: "Fixed",
+    color: "bg-green-50 text-green-700 border-green-300",
+    icon: "✅",
+  },
+};
+
+/**
+ * Applies a report's severity overrides on top of the built-in config.
+ * Overridden colors are CSS colors, so they are kept apart from the
+ * Tailwind classes of the built-in levels.
+ */
+export function resolveSeverityConfig(
+  overrides: SeverityOverrides = {},
+): SeverityConfigMap {
+  const resolved = { ...severityConfig };
+  for (const [severity, override] of Object.entries(overrides)) {
+    const level = severity as SeverityLevel;
+    if (!override || !Object.prototype.hasOwnProperty.call(resolved, level)) {
+      continue;
+    }
+    const { color, ...rest } = override;
+    resolved[level] = {
+      ...resolved[level],
+      ...Object.fromEntries(
+        Object.entries(rest).filter(([, value]) => value !== undefined),
+      ),
+      ...(color ? { accent: color } : {}),
+    };
+  }
+  return resolved;
+}
+
+// Levels to display, most severe first, skipping empty hideWhenEmpty levels
+export function severityLevels(
+  config: SeverityConfigMap,
+  findings: Finding[] = [],
+): SeverityLevel[] {
+  const present = new Set(findings.map((finding) => finding.severity));
+  return (Object.keys(config) as SeverityLevel[])
+    .filter((level) => !config[level].hideWhenEmpty || present.has(level))
+    .sort((a, b) => config[b].priority - config[a].priority);
+}
+
+// Inline colors for levels whose color came from a report's configuration
+export function severityStyle(
+  config: SeverityConfig,
+): JSX.CSSProperties | undefined {
+  if (!config.accent) return undefined;
+  return {
+    color: config.accent,
+    borderColor: config.accent,
+    backgroundColor: `color-mix(in srgb, ${config.accent} 12%, white)`,
+  };
+}
+
+// Severity names used by the scanners ASH wraps, mapped onto our levels
+const severityAliases: Record<string, SeverityLevel> = {
+  CRITICAL: "CRITICAL",
+  HIGH: "HIGH",
+  ERROR: "HIGH",
+  FAILING_VIOLATION: "HIGH",
+  MEDIUM: "MEDIUM",
+  MODERATE: "MEDIUM",
+  WARNING: "MEDIUM",
+  LOW: "LOW",
+  NEGLIGIBLE: "LOW",
+  INFO: "INFO",
+  INFORMATIONAL: "INFO",
+  NOTE: "INFO",
+  UNKNOWN: "UNKNOWN",
 };
+
+export function toSeverityLevel(
+  value: unknown,
+  fallback: SeverityLevel = "UNKNOWN",
+): SeverityLevel {
+  if (typeof value !== "string") return fallback;
+  return severityAliases[value.trim().toUpperCase()] ?? fallback;
+}
+
+// Scanners report the same file as "./src/a.js", "src\\a.js" or "src/a.js"
+export function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+}
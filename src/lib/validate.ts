@@ -0,0 +1,569 @@
+import type {
+  ASHReport,
+  BaselineComparison,
+  Branding,
+  Finding,
+  QualityGate,
+  ScanMetadata,
+  SeverityLevel,
+  SeverityOverride,
+  SeverityOverrides,
+  Suppression,
+  SuppressionResult,
+  Trend,
+} from "../types/ash";
+import { isCssColor, isImageDataUri } from "./branding";
+import { fingerprintFindings } from "./fingerprint";
+import { globError } from "./glob";
+import { jsonPathLines, parseJson } from "./json";
+import {
+  detectReportFormat,
+  normalizeReport,
+  type ReportFormat,
+} from "./normalize";
+import { severityConfig } from "./utils";
+
+export interface ValidationIssue {
+  // "error" records were dropped, "warning" records were repaired
+  level: "error" | "warning";
+  path: string;
+  message: string;
+  line?: number;
+  // Set when the report was loaded from one of several files
+  file?: string;
+}
+
+export interface ValidationResult {
+  report: ASHReport | null;
+  issues: ValidationIssue[];
+}
+
+type Check = (value: unknown) => string | null;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const nonEmptyString: Check = (value) =>
+  typeof value === "string" && value.trim() !== ""
+    ? null
+    : "expected a non-empty string";
+
+const string: Check = (value) =>
+  typeof value === "string" ? null : "expected a string";
+
+const severity: Check = (value) => {
+  const levels = Object.keys(severityConfig);
+  if (typeof value === "string" && levels.includes(value)) return null;
+  return `unknown severity ${JSON.stringify(value)} (expected one of ${levels.join(", ")})`;
+};
+
+const findingStatuses = ["new", "existing", "fixed"];
+
+const status: Check = (value) =>
+  typeof value === "string" && findingStatuses.includes(value)
+    ? null
+    : `unknown status ${JSON.stringify(value)} (expected one of ${findingStatuses.join(", ")})`;
+
+const redactedFields = ["message", "description", "pattern"];
+
+const redacted: Check = (value) =>
+  Array.isArray(value) &&
+  value.every((field) => redactedFields.includes(field as string))
+    ? null
+    : `expected a list of ${redactedFields.join(", ")}`;
+
+const positiveInteger: Check = (value) =>
+  Number.isInteger(value) && (value as number) > 0
+    ? null
+    : "expected a positive integer";
+
+const score: Check = (value) =>
+  typeof value === "number" && value >= 0 && value <= 10
+    ? null
+    : "expected a number between 0 and 10";
+
+const suppressionMatchers = ["tool", "rule", "path", "fingerprint"] as const;
+const suppressionFields = [
+  ...suppressionMatchers,
+  "justification",
+  "owner",
+  "expires",
+];
+
+// Problems that make a suppression unusable, as [field, message] pairs
+function suppressionErrors(value: Record<string, unknown>): string[][] {
+  const errors: string[][] = [];
+  for (const field of suppressionMatchers) {
+    const error = value[field] === undefined ? null : nonEmptyString(value[field]);
+    if (error) errors.push([field, error]);
+  }
+  if (typeof value.path === "string") {
+    const error = globError(value.path);
+    if (error) errors.push(["path", error]);
+  }
+  if (suppressionMatchers.every((field) => value[field] === undefined)) {
+    errors.push(["", "needs a tool, rule, path or fingerprint to match"]);
+  }
+  for (const field of ["justification", "owner"]) {
+    if (value[field] === undefined) errors.push([field, "is required"]);
+    else {
+      const error = nonEmptyString(value[field]);
+      if (error) errors.push([field, error]);
+    }
+  }
+  if (
+    typeof value.expires !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(value.expires) ||
+    isNaN(Date.parse(value.expires))
+  ) {
+    errors.push(["expires", "expected a YYYY-MM-DD date"]);
+  }
+  return errors;
+}
+
+const suppression: Check = (value) => {
+  if (!isObject(value)) return "expected a suppression object";
+  const [error] = suppressionErrors(value);
+  return error ? `${error[0] || "suppression"} ${error[1]}` : null;
+};
+
+const findingSchema: Record<keyof Finding, { check: Check; required?: true }> =
+  {
+    tool: { check: nonEmptyString, required: true },
+    severity: { check: severity, required: true },
+    message: { check: string, required: true },
+    location: { check: string, required: true },
+    ruleId: { check: string },
+    description: { check: string },
+    recommendation: { check: string },
+    lineNumber: { check: positiveInteger },
+    pattern: { check: string },
+    cve: { check: string },
+    score: { check: score },
+    project: { check: string },
+    fingerprint: { check: nonEmptyString },
+    status: { check: status },
+    suppression: { check: suppression },
+    redacted: { check: redacted },
+  };
+
+function validateFinding(value: unknown, path: string): string[][] {
+  if (!isObject(value)) return [[path, "expected a finding object"]];
+
+  const errors: string[][] = [];
+  for (const [field, { check, required }] of Object.entries(findingSchema)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (required) errors.push([`${path}.${field}`, "is required"]);
+      continue;
+    }
+    const error = check(fieldValue);
+    if (error) errors.push([`${path}.${field}`, error]);
+  }
+  return errors;
+}
+
+function validateMetadata(
+  value: unknown,
+  findings: Finding[],
+  warn: (path: string, message: string) => void,
+): ScanMetadata {
+  const metadata: Partial<ScanMetadata> = isObject(value) ? (value as Partial<ScanMetadata>) : {};
+  if (value !== undefined && !isObject(value)) {
+    warn("metadata", "expected an object; derived from findings instead");
+  }
+
+  const scanDate =
+    typeof metadata.scanDate === "string" && !isNaN(Date.parse(metadata.scanDate))
+      ? metadata.scanDate
+      : undefined;
+  if (metadata.scanDate !== undefined && !scanDate) {
+    warn("metadata.scanDate", "expected an ISO 8601 date; using current time");
+  }
+
+  const tools =
+    Array.isArray(metadata.tools) &&
+    metadata.tools.every((tool) => typeof tool === "string")
+      ? metadata.tools
+      : undefined;
+  if (metadata.tools !== undefined && !tools) {
+    warn("metadata.tools", "expected an array of strings; derived from findings");
+  }
+
+  for (const field of ["duration", "totalFindings"] as const) {
+    if (metadata[field] !== undefined && typeof metadata[field] !== "number") {
+      warn(`metadata.${field}`, "expected a number; ignored");
+    }
+  }
+  for (const field of ["version", "project"] as const) {
+    if (metadata[field] !== undefined && typeof metadata[field] !== "string") {
+      warn(`metadata.${field}`, "expected a string; ignored");
+    }
+  }
+
+  const projects =
+    Array.isArray(metadata.projects) &&
+    metadata.projects.every(
+      (scan) => isObject(scan) && typeof scan.project === "string",
+    )
+      ? metadata.projects
+      : undefined;
+  if (metadata.projects !== undefined && !projects) {
+    warn("metadata.projects", "expected an array of project scans; ignored");
+  }
+
+  return {
+    scanDate: scanDate ?? new Date().toISOString(),
+    totalFindings: findings.length,
+    tools: tools ?? [...new Set(findings.map((finding) => finding.tool))],
+    duration:
+      typeof metadata.duration === "number" ? metadata.duration : undefined,
+    version: typeof metadata.version === "string" ? metadata.version : undefined,
+    project: typeof metadata.project === "string" ? metadata.project : undefined,
+    projects,
+  };
+}
+
+const severityOverrideTypes: Record<keyof SeverityOverride, string> = {
+  label: "string",
+  icon: "string",
+  color: "string",
+  priority: "number",
+  hideWhenEmpty: "boolean",
+};
+
+/**
+ * Keeps the valid parts of a report's severity overrides, reporting the rest
+ * through `warn`.
+ */
+export function validateSeverityConfig(
+  value: unknown,
+  warn: (path: string, message: string) => void,
+): SeverityOverrides | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    warn("severityConfig", "expected an object; using default severities");
+    return undefined;
+  }
+
+  const overrides: SeverityOverrides = {};
+  for (const [level, override] of Object.entries(value)) {
+    const path = `severityConfig.${level}`;
+    if (!Object.prototype.hasOwnProperty.call(severityConfig, level)) {
+      warn(path, "unknown severity level; ignored");
+      continue;
+    }
+    if (!isObject(override)) {
+      warn(path, "expected an object; ignored");
+      continue;
+    }
+    const valid: Record<string, unknown> = {};
+    for (const [field, fieldValue] of Object.entries(override)) {
+      const type = Object.prototype.hasOwnProperty.call(
+        severityOverrideTypes,
+        field,
+      )
+        ? severityOverrideTypes[field as keyof SeverityOverride]
+        : undefined;
+      if (!type) warn(`${path}.${field}`, "unknown field; ignored");
+      else if (typeof fieldValue !== type) {
+        warn(`${path}.${field}`, `expected a ${type}; ignored`);
+      } else valid[field] = fieldValue;
+    }
+    overrides[level as SeverityLevel] = valid as SeverityOverride;
+  }
+  return overrides;
+}
+
+const cssColor: Check = (value) =>
+  typeof value === "string" && isCssColor(value)
+    ? null
+    : "expected a CSS color such as #1d4ed8";
+
+const brandingFields: Record<keyof Branding, Check> = {
+  companyName: nonEmptyString,
+  logo: (value) =>
+    typeof value === "string" && isImageDataUri(value)
+      ? null
+      : "expected a base64 data:image URI",
+  classification: nonEmptyString,
+  footer: nonEmptyString,
+  accentColor: cssColor,
+  bannerColor: cssColor,
+};
+
+/**
+ * Keeps the valid branding fields, reporting the rest through `warn`. Logos
+ * must already be inlined as data URIs.
+ */
+export function validateBranding(
+  value: unknown,
+  warn: (path: string, message: string) => void,
+  path = "branding",
+): Branding | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    warn(path, "expected an object; ignored");
+    return undefined;
+  }
+
+  const branding: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    const message = Object.prototype.hasOwnProperty.call(brandingFields, field)
+      ? brandingFields[field as keyof Branding](fieldValue)
+      : "unknown field";
+    if (message) warn(`${path}.${field}`, `${message}; ignored`);
+    else branding[field] = fieldValue;
+  }
+  return branding as Branding;
+}
+
+const isThreshold = (value: unknown) =>
+  isObject(value) &&
+  typeof value.label === "string" &&
+  Number.isInteger(value.count) &&
+  Number.isInteger(value.limit);
+
+function validateGate(
+  value: unknown,
+  warn: (path: string, message: string) => void,
+): QualityGate | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !isObject(value) ||
+    typeof value.passed !== "boolean" ||
+    !Array.isArray(value.thresholds) ||
+    !value.thresholds.every(isThreshold)
+  ) {
+    warn("gate", "expected a gate result; ignored");
+    return undefined;
+  }
+  return value as unknown as QualityGate;
+}
+
+const isCounts = (value: unknown) =>
+  isObject(value) && Object.values(value).every(Number.isInteger);
+
+const isTrendScan = (value: unknown) =>
+  isObject(value) &&
+  typeof value.scanDate === "string" &&
+  Number.isInteger(value.total) &&
+  isCounts(value.bySeverity) &&
+  isCounts(value.byTool);
+
+const isRemediationStats = (
+  value: unknown,
+): value is Record<string, unknown> =>
+  isObject(value) &&
+  Number.isInteger(value.count) &&
+  (value.meanDays === undefined || typeof value.meanDays === "number");
+
+const isRemediationSummary = (value: unknown) =>
+  isRemediationStats(value) &&
+  isObject(value.bySeverity) &&
+  Object.values(value.bySeverity).every(isRemediationStats);
+
+function validateTrend(
+  value: unknown,
+  warn: (path: string, message: string) => void,
+): Trend | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !isObject(value) ||
+    !Array.isArray(value.scans) ||
+    !value.scans.every(isTrendScan) ||
+    !isRemediationSummary(value.remediation)
+  ) {
+    warn("trend", "expected a trend across scans; ignored");
+    return undefined;
+  }
+  return value as unknown as Trend;
+}
+
+/**
+ * Keeps the usable entries of a suppression list. Entries without a matcher,
+ * justification, owner or valid expiry date are ignored and reported through
+ * `warn`, so the findings they would hide stay visible.
+ */
+export function validateSuppressions(
+  value: unknown,
+  warn: (path: string, message: string) => void,
+  path = "suppressions",
+): Suppression[] {
+  if (!Array.isArray(value)) {
+    warn(path, "expected an array of suppressions; ignored");
+    return [];
+  }
+
+  return value.flatMap((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isObject(entry)) {
+      warn(entryPath, "expected an object; ignored");
+      return [];
+    }
+    for (const field of Object.keys(entry)) {
+      if (!suppressionFields.includes(field)) {
+        warn(`${entryPath}.${field}`, "unknown field; ignored");
+      }
+    }
+    const errors = suppressionErrors(entry);
+    errors.forEach(([field, message]) =>
+      warn(
+        field ? `${entryPath}.${field}` : entryPath,
+        `${message}; suppression ignored`,
+      ),
+    );
+    if (errors.length > 0) return [];
+    return [
+      Object.fromEntries(
+        suppressionFields
+          .filter((field) => entry[field] !== undefined)
+          .map((field) => [field, entry[field]]),
+      ) as unknown as Suppression,
+    ];
+  });
+}
+
+function validateSuppressionResult(
+  value: unknown,
+  addIssue: (
+    level: ValidationIssue["level"],
+  ) => (path: string, message: string) => void,
+): SuppressionResult | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !Array.isArray(value.suppressed)) {
+    addIssue("warning")("suppressions", "expected suppression results; ignored");
+    return undefined;
+  }
+
+  const suppressed = value.suppressed.filter((finding, index) => {
+    const errors = validateFinding(finding, `suppressions.suppressed[${index}]`);
+    errors.forEach(([path, message]) => addIssue("error")(path, message));
+    return errors.length === 0;
+  }) as Finding[];
+  return {
+    suppressed: fingerprintFindings(suppressed),
+    expired: validateSuppressions(
+      value.expired ?? [],
+      addIssue("warning"),
+      "suppressions.expired",
+    ),
+    unused: validateSuppressions(
+      value.unused ?? [],
+      addIssue("warning"),
+      "suppressions.unused",
+    ),
+  };
+}
+
+// Invalid fixed findings are dropped like the report's own
+function validateBaseline(
+  value: unknown,
+  addIssue: (
+    level: ValidationIssue["level"],
+  ) => (path: string, message: string) => void,
+): BaselineComparison | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !isObject(value) ||
+    typeof value.scanDate !== "string" ||
+    !Array.isArray(value.fixed)
+  ) {
+    addIssue("warning")("baseline", "expected a baseline comparison; ignored");
+    return undefined;
+  }
+
+  const fixed = value.fixed.filter((finding, index) => {
+    const errors = validateFinding(finding, `baseline.fixed[${index}]`);
+    errors.forEach(([path, message]) => addIssue("error")(path, message));
+    return errors.length === 0;
+  }) as Finding[];
+  return { scanDate: value.scanDate, fixed: fingerprintFindings(fixed) };
+}
+
+/**
+ * Checks a report against the ASHReport schema. Invalid findings are dropped
+ * and bad metadata is repaired, so whatever is usable can still be rendered.
+ * Findings without a fingerprint get one.
+ * Pass the JSON source to get line numbers on each issue.
+ */
+export function validateReport(
+  input: unknown,
+  source?: string,
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  let lines: Map<string, number> | undefined;
+  const lineOf = (path: string) => {
+    if (source === undefined) return undefined;
+    lines ??= jsonPathLines(source);
+    // Fall back to the enclosing value when the field itself is missing
+    for (let p = path; ; p = p.replace(/((^|\.)[^.[\]]+|\[\d+\])$/, "")) {
+      if (lines.has(p)) return lines.get(p);
+      if (p === "") return undefined;
+    }
+  };
+  const addIssue =
+    (level: ValidationIssue["level"]) => (path: string, message: string) => {
+      issues.push({ level, path, message, line: lineOf(path) });
+    };
+
+  if (!isObject(input) || !Array.isArray(input.findings)) {
+    addIssue("error")("findings", "expected an object with a findings array");
+    return { report: null, issues };
+  }
+
+  const findings = fingerprintFindings(
+    input.findings.filter((finding, index) => {
+      const errors = validateFinding(finding, `findings[${index}]`);
+      errors.forEach(([path, message]) => addIssue("error")(path, message));
+      return errors.length === 0;
+    }) as Finding[],
+  );
+
+  if (input.title !== undefined && typeof input.title !== "string") {
+    addIssue("warning")("title", "expected a string; ignored");
+  }
+
+  return {
+    report: {
+      ...input,
+      title: typeof input.title === "string" ? input.title : undefined,
+      findings,
+      metadata: validateMetadata(input.metadata, findings, addIssue("warning")),
+      severityConfig: validateSeverityConfig(
+        input.severityConfig,
+        addIssue("warning"),
+      ),
+      gate: validateGate(input.gate, addIssue("warning")),
+      baseline: validateBaseline(input.baseline, addIssue),
+      suppressions: validateSuppressionResult(input.suppressions, addIssue),
+      branding: validateBranding(input.branding, addIssue("warning")),
+      trend: validateTrend(input.trend, addIssue("warning")),
+    },
+    issues,
+  };
+}
+
+/**
+ * Parses, converts and validates a report file's contents. Throws a
+ * JsonSyntaxError for malformed JSON and an Error for unknown formats.
+ * `format` overrides detection.
+ */
+export function loadReport(
+  text: string,
+  format?: ReportFormat,
+): ValidationResult {
+  const input = parseJson(text);
+  if ((format ?? detectReportFormat(input)) === "ash-reporter") {
+    return validateReport(input, text);
+  }
+
+  // Findings that could not be imported are as lost as invalid ones
+  const skipped: ValidationIssue[] = [];
+  const result = validateReport(
+    normalizeReport(input, format, (path, message) =>
+      skipped.push({ level: "error", path, message }),
+    ),
+  );
+  return { ...result, issues: [...skipped, ...result.issues] };
+}
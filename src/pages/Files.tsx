@@ -0,0 +1,60 @@
+import { useRoute } from "preact-iso";
+import { CountTable } from "../components/CountTable";
+import { FindingList } from "../components/FindingList";
+import { Card, CardContent } from "../components/ui/card";
+import { sitePaths } from "../lib/site";
+import { findingHref, useSite } from "./context";
+import { NotFound } from "./_404";
+
+export function FileList() {
+  const { report, base, map } = useSite();
+  const rows = [...map.files]
+    .map(([file, slug]) => ({
+      label: file,
+      href: `${base}${sitePaths.file(slug)}`,
+      count: report.findings.filter((f) => f.location === file).length,
+    }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">Files</h1>
+      <Card>
+        <CardContent className="pt-6">
+          <CountTable label="File" rows={rows} />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export function FilePage() {
+  const site = useSite();
+  const { params } = useRoute();
+  const file = [...site.map.files].find(
+    ([, slug]) => slug === params.slug,
+  )?.[0];
+  if (file === undefined) return <NotFound />;
+
+  const findings = site.report.findings.filter((f) => f.location === file);
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold text-gray-900 mb-2 font-mono break-all">
+        {file}
+      </h1>
+      <p className="text-gray-600 mb-6">
+        {findings.length} {findings.length === 1 ? "finding" : "findings"}
+      </p>
+      <Card>
+        <CardContent className="pt-6">
+          <FindingList
+            findings={findings}
+            severities={site.severities}
+            href={findingHref(site)}
+          />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { useRoute } from "preact-iso";
+import { FindingDetails } from "../components/FindingDetails";
+import { Card, CardContent } from "../components/ui/card";
+import { findingTitle, sitePaths } from "../lib/site";
+import { useSite } from "./context";
+import { NotFound } from "./_404";
+
+export function FindingPage() {
+  const { base, map, severities } = useSite();
+  const { params } = useRoute();
+  const finding = [...map.findings].find(
+    ([, slug]) => slug === params.slug,
+  )?.[0];
+  if (!finding) return <NotFound />;
+
+  return (
+    <>
+      <nav aria-label="Breadcrumb" className="mb-2 text-sm text-gray-600">
+        <a
+          href={`${base}${sitePaths.tool(map.tools.get(finding.tool)!)}`}
+          className="text-accent hover:text-accent-dark"
+        >
+          {finding.tool}
+        </a>
+        {" / "}
+        <a
+          href={`${base}${sitePaths.file(map.files.get(finding.location)!)}`}
+          className="font-mono text-accent hover:text-accent-dark"
+        >
+          {finding.location}
+        </a>
+      </nav>
+      <h1 className="text-2xl font-bold text-gray-900 mb-6 break-words">
+        {findingTitle(finding)}
+      </h1>
+      <Card>
+        <CardContent className="pt-6">
+          <FindingDetails finding={finding} severities={severities} />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
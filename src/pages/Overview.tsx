@@ -0,0 +1,108 @@
+import { CountTable } from "../components/CountTable";
+import { FindingList } from "../components/FindingList";
+import { GateBanner } from "../components/GateBanner";
+import { SummaryCards } from "../components/SummaryCards";
+import { TrendPanel } from "../components/TrendPanel";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { reportTitle } from "../lib/branding";
+import { sitePaths } from "../lib/site";
+import { summarizeReport } from "../lib/summary";
+import { findingHref, useSite } from "./context";
+
+const TOP_FINDINGS = 10;
+const TOP_FILES = 10;
+
+export function Overview() {
+  const site = useSite();
+  const { report, base, map, severities } = site;
+  const { byTool } = summarizeReport(report);
+
+  const fileCounts = new Map<string, number>();
+  for (const { location } of report.findings) {
+    fileCounts.set(location, (fileCounts.get(location) ?? 0) + 1);
+  }
+  const files = [...fileCounts].sort((a, b) => b[1] - a[1]);
+  const topFindings = [...report.findings]
+    .sort(
+      (a, b) =>
+        severities[b.severity].priority - severities[a.severity].priority,
+    )
+    .slice(0, TOP_FINDINGS);
+
+  return (
+    <>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          {reportTitle(report)}
+        </h1>
+        <p className="text-gray-600">
+          Scan completed: {report.metadata.scanDate} | Total findings:{" "}
+          {report.findings.length}
+        </p>
+        <GateBanner gate={report.gate} />
+      </div>
+
+      <SummaryCards
+        findings={report.findings}
+        severities={severities}
+        baseline={report.baseline}
+      />
+
+      {report.trend && (
+        <TrendPanel trend={report.trend} severities={severities} />
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Tools</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CountTable
+              label="Tool"
+              rows={[...map.tools].map(([tool, slug]) => ({
+                label: tool,
+                href: `${base}${sitePaths.tool(slug)}`,
+                count: byTool[tool] ?? 0,
+              }))}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Files with the most findings</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CountTable
+              label="File"
+              rows={files.slice(0, TOP_FILES).map(([file, count]) => ({
+                label: file,
+                href: `${base}${sitePaths.file(map.files.get(file)!)}`,
+                count,
+              }))}
+            />
+            <a
+              href={`${base}${sitePaths.files}`}
+              className="mt-4 inline-block text-sm text-accent hover:text-accent-dark"
+            >
+              All {files.length} files
+            </a>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Most severe findings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <FindingList
+            findings={topFindings}
+            severities={severities}
+            href={findingHref(site)}
+          />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
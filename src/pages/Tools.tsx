@@ -0,0 +1,58 @@
+import { useRoute } from "preact-iso";
+import { CountTable } from "../components/CountTable";
+import { FindingList } from "../components/FindingList";
+import { Card, CardContent } from "../components/ui/card";
+import { sitePaths } from "../lib/site";
+import { findingHref, useSite } from "./context";
+import { NotFound } from "./_404";
+
+export function ToolList() {
+  const { report, base, map } = useSite();
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">Tools</h1>
+      <Card>
+        <CardContent className="pt-6">
+          <CountTable
+            label="Tool"
+            rows={[...map.tools].map(([tool, slug]) => ({
+              label: tool,
+              href: `${base}${sitePaths.tool(slug)}`,
+              count: report.findings.filter((f) => f.tool === tool).length,
+            }))}
+          />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export function ToolPage() {
+  const site = useSite();
+  const { params } = useRoute();
+  const tool = [...site.map.tools].find(
+    ([, slug]) => slug === params.slug,
+  )?.[0];
+  if (tool === undefined) return <NotFound />;
+
+  const findings = site.report.findings.filter((f) => f.tool === tool);
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">{tool}</h1>
+      <p className="text-gray-600 mb-6">
+        {findings.length} {findings.length === 1 ? "finding" : "findings"}
+      </p>
+      <Card>
+        <CardContent className="pt-6">
+          <FindingList
+            findings={findings}
+            severities={site.severities}
+            href={findingHref(site)}
+          />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -1,8 +1,19 @@
+import { useContext } from "preact/hooks";
+import { SiteContext } from "./context";
+
 export function NotFound() {
+  const base = useContext(SiteContext)?.base ?? "/";
+
   return (
-    <section>
-      <h1>404: Not Found</h1>
-      <p>It's gone :(</p>
+    <section className="py-16 text-center">
+      <h1 className="text-2xl font-bold text-gray-800 mb-4">404: Not Found</h1>
+      <p className="text-gray-600">It's gone :(</p>
+      <a
+        href={base}
+        className="mt-6 inline-block text-accent hover:text-accent-dark"
+      >
+        Back to the overview
+      </a>
     </section>
   );
 }
@@ -0,0 +1,27 @@
+import { createContext } from "preact";
+import { useContext } from "preact/hooks";
+import { sitePaths, type SiteMap } from "../lib/site";
+import type { SeverityConfigMap } from "../lib/utils";
+import type { ASHReport, Finding } from "../types/ash";
+
+export interface SiteData {
+  report: ASHReport;
+  // Path the site is served from, starting and ending with "/"
+  base: string;
+  map: SiteMap;
+  severities: SeverityConfigMap;
+}
+
+export const SiteContext = createContext<SiteData | null>(null);
+
+export function useSite(): SiteData {
+  const site = useContext(SiteContext);
+  if (!site) throw new Error("Site pages must be rendered inside <Site>");
+  return site;
+}
+
+// Link to a finding's page; findings are matched by identity
+export const findingHref =
+  ({ base, map }: SiteData) =>
+  (finding: Finding) =>
+    `${base}${sitePaths.finding(map.findings.get(finding) ?? "")}`;
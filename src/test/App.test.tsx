@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
-import { render, screen, waitFor } from './utils'
+import { gzipSync } from 'zlib'
+import { render, screen, waitFor, userEvent } from './utils'
 import App from '../App'
-import { mockASHReport, mockEmbeddedData, clearMockEmbeddedData } from './utils'
+import { mockASHReport, mockEmbeddedData, clearMockEmbeddedData, mockFinding } from './utils'
 
 // Mock child components for isolated testing
 vi.mock('../components/SummaryCards', () => ({
@@ -21,6 +22,31 @@ vi.mock('../components/ui/card', () => ({
   CardTitle: ({ children }: { children: any }) => <h3 data-testid="card-title">{children}</h3>,
 }))
 
+vi.mock('@radix-ui/react-progress', () => ({
+  Root: ({ children, value, ...props }: any) => <div role="progressbar" aria-valuenow={value} {...props}>{children}</div>,
+  Indicator: (props: any) => <div {...props} />,
+}))
+
+// Tabs that switch content like Radix's, without its React dependency
+vi.mock('@radix-ui/react-tabs', async () => {
+  const { createContext } = await import('preact')
+  const { useContext, useState } = await import('preact/hooks')
+  const TabsContext = createContext<any>(null)
+  return {
+    Root: ({ children, defaultValue }: any) => {
+      const [value, setValue] = useState(defaultValue)
+      return <TabsContext.Provider value={{ value, setValue }}><div>{children}</div></TabsContext.Provider>
+    },
+    List: ({ children }: any) => <div role="tablist">{children}</div>,
+    Trigger: ({ children, value }: any) => {
+      const tabs = useContext(TabsContext)
+      return <button role="tab" aria-selected={tabs.value === value} onClick={() => tabs.setValue(value)}>{children}</button>
+    },
+    Content: ({ children, value }: any) =>
+      useContext(TabsContext).value === value ? <div role="tabpanel">{children}</div> : null,
+  }
+})
+
 describe('App Component', () => {
   beforeEach(() => {
     // Clear DOM before each test
@@ -111,6 +137,27 @@ describe('App Component', () => {
       expect(screen.getByText(/Tools used: Grype, git-secrets/)).toBeInTheDocument()
     })
 
+    it('offers to copy the report as Markdown', async () => {
+      mockEmbeddedData(mockASHReport())
+
+      render(<App />)
+
+      expect(await screen.findByRole('button', { name: 'Copy as Markdown' })).toBeInTheDocument()
+    })
+
+    it('shows the recorded quality gate result in the header', async () => {
+      mockEmbeddedData(mockASHReport({
+        gate: { passed: false, thresholds: [{ label: 'HIGH or above', count: 2, limit: 0 }] },
+      }))
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Quality gate: FAIL')).toBeInTheDocument()
+      })
+      expect(screen.getByText('HIGH or above: 2 findings (max 0)')).toBeInTheDocument()
+    })
+
     it('handles malformed JSON gracefully', async () => {
       // Mock invalid JSON
       const mockElement = document.createElement('script')
@@ -134,31 +181,134 @@ describe('App Component', () => {
       
       consoleSpy.mockRestore()
     })
+
+    it('renders compressed embedded data', async () => {
+      const mockElement = mockEmbeddedData(mockASHReport())
+      mockElement.textContent = gzipSync(mockElement.textContent!).toString('base64')
+      mockElement.setAttribute('data-encoding', 'gzip+base64')
+
+      render(<App />)
+
+      expect(screen.getByLabelText('Decompressing report')).toBeInTheDocument()
+      await waitFor(() => {
+        expect(screen.getByText('Summary: 4 findings')).toBeInTheDocument()
+      })
+    })
+
+    it('reports compressed data that cannot be decoded', async () => {
+      const mockElement = mockEmbeddedData(mockASHReport())
+      mockElement.setAttribute('data-encoding', 'gzip+base64')
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByText('No Data Available')).toBeInTheDocument()
+      })
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to parse ASH data:', expect.any(Error))
+
+      consoleSpy.mockRestore()
+    })
+
+    it('shows parse errors in the diagnostics panel', async () => {
+      const mockElement = document.createElement('script')
+      mockElement.id = 'ash-data'
+      mockElement.type = 'application/json'
+      mockElement.textContent = '{\n  "findings": [\n    { invalid json'
+      document.body.appendChild(mockElement)
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Report Diagnostics')).toBeInTheDocument()
+      })
+      expect(screen.getByText(/line 3, column 7/)).toBeInTheDocument()
+
+      consoleSpy.mockRestore()
+    })
+
+    it('renders valid findings and lists invalid ones', async () => {
+      const mockData = mockASHReport()
+      mockData.findings[1] = { ...mockData.findings[1], severity: 'BLOCKER' as any }
+      mockEmbeddedData(mockData)
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Summary: 3 findings')).toBeInTheDocument()
+      })
+      expect(screen.getByText('Report Diagnostics')).toBeInTheDocument()
+      expect(screen.getByText(/findings\[1\]\.severity/)).toBeInTheDocument()
+    })
   })
 
-  describe('Sample Data Fallback', () => {
-    it('renders with sample data when no embedded data exists', async () => {
+  describe('Standalone Viewer', () => {
+    afterEach(() => {
+      window.history.replaceState({}, '', '/')
+      vi.unstubAllGlobals()
+    })
+
+    it('shows the file loader when no embedded data exists', async () => {
       render(<App />)
       
       await waitFor(() => {
-        expect(screen.getByText('ASH Security Report')).toBeInTheDocument()
+        expect(screen.getByTestId('drop-zone')).toBeInTheDocument()
       })
       
-      expect(screen.getByTestId('summary-cards')).toBeInTheDocument()
-      expect(screen.getByTestId('findings-table')).toBeInTheDocument()
+      expect(screen.getByText('ASH Security Report')).toBeInTheDocument()
+      expect(screen.queryByTestId('summary-cards')).not.toBeInTheDocument()
     })
 
-    it('displays sample data with correct structure', async () => {
+    it('renders a report opened through the file picker', async () => {
+      const user = userEvent.setup()
       render(<App />)
-      
+
+      const file = new File([JSON.stringify(mockASHReport())], 'scan.json', { type: 'application/json' })
+      await user.upload(document.querySelector('input[type="file"]') as HTMLInputElement, file)
+
       await waitFor(() => {
-        expect(screen.getByText('ASH Security Report')).toBeInTheDocument()
+        expect(screen.getByText('Summary: 4 findings')).toBeInTheDocument()
       })
-      
-      // Verify sample data is passed to components
-      expect(screen.getByText('Summary: 4 findings')).toBeInTheDocument()
-      expect(screen.getByText('Table: 4 findings')).toBeInTheDocument()
-      expect(screen.getByText(/Tools used: Grype, git-secrets, Semgrep, CDK-nag/)).toBeInTheDocument()
+      expect(screen.getByText('Open other files')).toBeInTheDocument()
+    })
+
+    it('returns to the file loader from an opened report', async () => {
+      const user = userEvent.setup()
+      render(<App />)
+
+      const file = new File([JSON.stringify(mockASHReport())], 'scan.json')
+      await user.upload(document.querySelector('input[type="file"]') as HTMLInputElement, file)
+      await user.click(await screen.findByText('Open other files'))
+
+      expect(screen.getByTestId('drop-zone')).toBeInTheDocument()
+    })
+
+    it('loads reports named in ?src= parameters', async () => {
+      window.history.replaceState({}, '', '/?src=/reports/a.json&src=/reports/b.json')
+      const fetchMock = vi.fn().mockImplementation(async () => new Response(JSON.stringify(mockASHReport())))
+      vi.stubGlobal('fetch', fetchMock)
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Summary: 8 findings')).toBeInTheDocument()
+      })
+      expect(fetchMock).toHaveBeenCalledWith(`${window.location.origin}/reports/a.json`)
+    })
+
+    it('refuses ?src= URLs on another origin', async () => {
+      window.history.replaceState({}, '', '/?src=https://evil.example/report.json')
+      const fetchMock = vi.fn()
+      vi.stubGlobal('fetch', fetchMock)
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByText(/Refusing to load https:\/\/evil.example\/report.json/)).toBeInTheDocument()
+      })
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(screen.getByTestId('drop-zone')).toBeInTheDocument()
     })
   })
 
@@ -196,6 +346,141 @@ describe('App Component', () => {
     })
   })
 
+  describe('Trends', () => {
+    const trend = {
+      scans: [
+        { scanDate: '2025-01-01T00:00:00Z', total: 3, bySeverity: { HIGH: 3 }, byTool: { Grype: 3 } },
+        { scanDate: '2025-01-05T00:00:00Z', total: 1, bySeverity: { HIGH: 1 }, byTool: { Grype: 1 } },
+      ],
+      remediation: { count: 2, meanDays: 4, bySeverity: { HIGH: { count: 2, meanDays: 4 } } },
+    }
+
+    it('shows the trend above the latest scan\'s findings', async () => {
+      mockEmbeddedData(mockASHReport({ trend }))
+
+      render(<App />)
+
+      const heading = await screen.findByText('Trends')
+      expect(screen.getByRole('table', { name: 'Findings by severity' })).toBeInTheDocument()
+      expect(heading.compareDocumentPosition(screen.getByTestId('findings-table'))).toBe(
+        Node.DOCUMENT_POSITION_FOLLOWING
+      )
+    })
+
+    it('leaves the trend out of single scans', async () => {
+      mockEmbeddedData(mockASHReport())
+
+      render(<App />)
+
+      await screen.findByTestId('findings-table')
+      expect(screen.queryByText('Trends')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Suppressed Findings', () => {
+    it('shows suppressed findings in their own tab', async () => {
+      const user = userEvent.setup()
+      mockEmbeddedData(mockASHReport({
+        suppressions: {
+          suppressed: [mockFinding({
+            message: 'Accepted risk',
+            suppression: { rule: 'CVE-1', justification: 'Not reachable', owner: 'alice', expires: '2099-01-01' },
+          })],
+          expired: [],
+          unused: [],
+        },
+      }))
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByRole('tab', { name: 'Suppressed (1)' })).toBeInTheDocument()
+      })
+      expect(screen.getByText('Table: 4 findings')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('tab', { name: 'Suppressed (1)' }))
+
+      expect(screen.getByText('Accepted risk')).toBeInTheDocument()
+      expect(screen.getByText('Not reachable')).toBeInTheDocument()
+      expect(screen.queryByText('Table: 4 findings')).not.toBeInTheDocument()
+    })
+
+    it('has no tabs without suppressions', async () => {
+      mockEmbeddedData(mockASHReport())
+
+      render(<App />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Table: 4 findings')).toBeInTheDocument()
+      })
+      expect(screen.queryByRole('tab')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Live Preview', () => {
+    class FakeEventSource {
+      static last: FakeEventSource
+      listeners: ((event: { data: string }) => void)[] = []
+      closed = false
+      constructor(readonly url: string) {
+        FakeEventSource.last = this
+      }
+      addEventListener(_type: string, listener: (event: { data: string }) => void) {
+        this.listeners.push(listener)
+      }
+      close() {
+        this.closed = true
+      }
+      send(result: unknown) {
+        this.listeners.forEach(listener => listener({ data: JSON.stringify(result) }))
+      }
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('EventSource', FakeEventSource)
+      const element = mockEmbeddedData(mockASHReport())
+      element.textContent = ''
+      element.setAttribute('data-live', '/events')
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('renders each report pushed by the preview server', async () => {
+      const { unmount } = render(<App />)
+      expect(FakeEventSource.last.url).toBe('/events')
+
+      FakeEventSource.last.send({ report: mockASHReport(), issues: [] })
+      expect(await screen.findByText('Table: 4 findings')).toBeInTheDocument()
+
+      FakeEventSource.last.send({ report: mockASHReport({ findings: [mockFinding()] }), issues: [] })
+      expect(await screen.findByText('Table: 1 findings')).toBeInTheDocument()
+
+      unmount()
+      expect(FakeEventSource.last.closed).toBe(true)
+    })
+
+    it('keeps the last report under an error overlay while the inputs are broken', async () => {
+      render(<App />)
+      FakeEventSource.last.send({ report: mockASHReport(), issues: [] })
+      await screen.findByText('Table: 4 findings')
+
+      FakeEventSource.last.send({
+        report: null,
+        issues: [{ level: 'error', file: 'report.json', path: '', message: 'Unexpected end of JSON input' }],
+      })
+
+      expect(await screen.findByRole('alertdialog')).toHaveTextContent('Unexpected end of JSON input')
+      expect(screen.getByText('Table: 4 findings')).toBeInTheDocument()
+
+      FakeEventSource.last.send({ report: mockASHReport(), issues: [] })
+      await waitFor(() => {
+        expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument()
+      })
+    })
+  })
+
   describe('No Data State', () => {
     it('shows no data message when JSON parsing fails and no fallback', async () => {
       // Create malformed JSON and suppress sample data fallback by mocking the data to be null
@@ -275,6 +560,40 @@ describe('App Component', () => {
     })
   })
 
+  describe('Branding', () => {
+    const logo = 'data:image/png;base64,iVBORw0KGgo='
+
+    it('shows the company, logo, banners and footer', async () => {
+      mockEmbeddedData(mockASHReport({
+        title: 'Payments',
+        branding: { companyName: 'Acme Corp', logo, classification: 'CONFIDENTIAL', footer: 'Internal use only' },
+      }))
+
+      render(<App />)
+
+      expect(await screen.findByRole('heading', { level: 1, name: 'Payments' })).toBeInTheDocument()
+      expect(screen.getByText('Acme Corp')).toBeInTheDocument()
+      expect(screen.getByAltText('Acme Corp logo')).toHaveAttribute('src', logo)
+      expect(screen.getAllByRole('note', { name: 'Classification' }).map(banner => banner.textContent)).toEqual([
+        'CONFIDENTIAL',
+        'CONFIDENTIAL',
+      ])
+      expect(screen.getByRole('contentinfo')).toHaveTextContent('Internal use only')
+      expect(document.title).toBe('Acme Corp – Payments')
+    })
+
+    it('applies the accent color through the theme variables', async () => {
+      mockEmbeddedData(mockASHReport({ branding: { accentColor: '#7c3aed' } }))
+
+      render(<App />)
+
+      await screen.findByText('ASH Security Report')
+      const root = document.querySelector<HTMLElement>('.min-h-screen')!
+      expect(root.style.getPropertyValue('--color-accent')).toBe('#7c3aed')
+      expect(screen.queryByRole('note', { name: 'Classification' })).not.toBeInTheDocument()
+    })
+  })
+
   describe('Responsive Layout', () => {
     it('renders with correct responsive classes', async () => {
       render(<App />)
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen, within } from './utils'
+import { Site } from '../Site'
+import { mockASHReport, mockFinding } from './utils'
+
+const report = mockASHReport({
+  title: 'Payments',
+  findings: [
+    mockFinding({ tool: 'Grype', severity: 'CRITICAL', message: 'Critical CVE', location: 'package.json', fingerprint: 'abc123' }),
+    mockFinding({ tool: 'Semgrep', severity: 'LOW', message: 'Weak hash', location: 'src/app.py', lineNumber: 12, ruleId: 'md5', fingerprint: 'def456' }),
+  ],
+})
+
+const renderAt = (url: string, base = '/') =>
+  render(<Site report={report} base={base} url={url} />)
+
+describe('Site', () => {
+  it('renders the overview at the base path', () => {
+    renderAt('/reports/', '/reports/')
+
+    expect(screen.getByRole('heading', { level: 1, name: 'Payments' })).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Overview' })).toHaveClass('active')
+    expect(screen.getByRole('link', { name: 'Critical CVE' })).toHaveAttribute('href', '/reports/findings/abc123/')
+  })
+
+  it('lists tools with their finding counts', () => {
+    renderAt('/tools/')
+
+    const row = screen.getByRole('link', { name: 'Grype' }).closest('tr')!
+    expect(row).toHaveTextContent('1')
+    expect(screen.getByRole('link', { name: 'CDK-nag' })).toHaveAttribute('href', '/tools/cdk-nag/')
+  })
+
+  it('renders a tool page with its findings', () => {
+    renderAt('/tools/semgrep/')
+
+    expect(screen.getByRole('heading', { level: 1, name: 'Semgrep' })).toBeInTheDocument()
+    expect(screen.getByText('1 finding')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Weak hash' })).toHaveAttribute('href', '/findings/def456/')
+    expect(screen.queryByText('Critical CVE')).not.toBeInTheDocument()
+  })
+
+  it('renders a file page', () => {
+    renderAt('/files/src-app-py/')
+
+    expect(screen.getByRole('heading', { level: 1, name: 'src/app.py' })).toBeInTheDocument()
+    expect(screen.getByText('src/app.py:12')).toBeInTheDocument()
+  })
+
+  it('renders a finding page with breadcrumb links', () => {
+    renderAt('/findings/def456/')
+
+    expect(screen.getByRole('heading', { level: 1, name: 'md5: Weak hash' })).toBeInTheDocument()
+    const breadcrumb = screen.getByRole('navigation', { name: 'Breadcrumb' })
+    expect(within(breadcrumb).getByRole('link', { name: 'Semgrep' })).toHaveAttribute('href', '/tools/semgrep/')
+    expect(within(breadcrumb).getByRole('link', { name: 'src/app.py' })).toHaveAttribute('href', '/files/src-app-py/')
+  })
+
+  it('renders the 404 page for unknown paths and slugs', () => {
+    const { unmount } = renderAt('/nowhere/')
+    expect(screen.getByRole('heading', { name: '404: Not Found' })).toBeInTheDocument()
+    unmount()
+
+    renderAt('/tools/unknown/')
+    expect(screen.getByRole('heading', { name: '404: Not Found' })).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Back to the overview' })).toHaveAttribute('href', '/')
+  })
+
+  it('applies branding to every page', () => {
+    render(
+      <Site
+        report={{ ...report, branding: { classification: 'Internal', footer: 'Acme Security', accentColor: '#ff0000' } }}
+        url="/files/"
+      />
+    )
+
+    expect(screen.getAllByRole('note', { name: 'Classification' })).toHaveLength(2)
+    expect(screen.getByText('Acme Security')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { spawnSync } from 'child_process'
+import { copyFileSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { mockASHReport } from '../utils'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '../../..')
+
+const run = (command: string, args: string[], cwd = root) => {
+  const result = spawnSync(command, args, { cwd, encoding: 'utf-8', timeout: 120_000 })
+  if (result.status !== 0) throw new Error(`${command} ${args.join(' ')} failed:\n${result.stdout}${result.stderr}`)
+  return result.stdout
+}
+
+// Builds the package as build:api does, then installs it in a project
+// outside the repository
+describe('ash-reporter package', () => {
+  let pkg: string
+  let project: string
+
+  beforeAll(() => {
+    pkg = realpathSync(mkdtempSync(join(tmpdir(), 'ash-package-')))
+    copyFileSync(join(root, 'package.json'), join(pkg, 'package.json'))
+    symlinkSync(join(root, 'node_modules'), join(pkg, 'node_modules'), 'dir')
+    run('node_modules/.bin/vite', ['build', '--config', 'vite.api.config.ts', '--outDir', join(pkg, 'dist/api'), '--emptyOutDir', '--logLevel', 'error'])
+    run('node_modules/.bin/tsc', ['-p', 'tsconfig.api.json', '--outDir', join(pkg, 'dist/api/types')])
+    run('node', ['scripts/declaration-extensions.mjs', join(pkg, 'dist/api/types')])
+    mkdirSync(join(pkg, 'dist/assets'))
+    writeFileSync(join(pkg, 'dist/assets/bundle.js'), 'console.log("packaged app")')
+
+    project = mkdtempSync(join(tmpdir(), 'ash-project-'))
+    mkdirSync(join(project, 'node_modules'))
+    symlinkSync(pkg, join(project, 'node_modules/ash-reporter'), 'dir')
+    symlinkSync(join(root, 'node_modules/@types'), join(project, 'node_modules/@types'), 'dir')
+    writeFileSync(join(project, 'package.json'), JSON.stringify({ type: 'module' }))
+    writeFileSync(join(project, 'report.json'), JSON.stringify(mockASHReport()))
+  }, 180_000)
+
+  afterAll(() => {
+    rmSync(pkg, { recursive: true, force: true })
+    rmSync(project, { recursive: true, force: true })
+  })
+
+  it('generates reports with the assets from the package', () => {
+    writeFileSync(
+      join(project, 'main.js'),
+      [
+        'import { readFileSync } from "node:fs"',
+        'import { DEFAULT_ASSETS_DIR, generateReport, loadReport } from "ash-reporter"',
+        'const { report } = loadReport(readFileSync("report.json", "utf-8"))',
+        'const { output } = generateReport({ report })',
+        'console.log(JSON.stringify({ assetsDir: DEFAULT_ASSETS_DIR, output }))',
+      ].join('\n')
+    )
+
+    const { assetsDir, output } = JSON.parse(run('node', ['main.js'], project))
+
+    expect(assetsDir).toBe(join(pkg, 'dist/assets'))
+    expect(output).toContain('console.log("packaged app")')
+  })
+
+  it('installs an ash-report command that uses the packaged assets', () => {
+    const { bin } = JSON.parse(readFileSync(join(pkg, 'package.json'), 'utf-8'))
+    const command = join(pkg, bin['ash-report'])
+
+    expect(readFileSync(command, 'utf-8')).toMatch(/^#!\/usr\/bin\/env node\n/)
+    run('node', [command, 'generate', 'report.json', '-o', 'report.html'], project)
+    expect(readFileSync(join(project, 'report.html'), 'utf-8')).toContain('console.log("packaged app")')
+  })
+
+  it('ships declarations that NodeNext projects can use', () => {
+    writeFileSync(
+      join(project, 'check.ts'),
+      [
+        'import { generateReport, type ASHReport, type GenerateOptions } from "ash-reporter"',
+        'declare const report: ASHReport',
+        'const options: GenerateOptions = { report, to: "markdown", top: 3 }',
+        'export const output: string = generateReport(options).output',
+        '// @ts-expect-error',
+        'generateReport({ report, to: "pdf" })',
+      ].join('\n')
+    )
+
+    expect(() =>
+      run(
+        join(root, 'node_modules/.bin/tsc'),
+        ['--noEmit', '--strict', '--module', 'nodenext', '--moduleResolution', 'nodenext', '--types', 'node', 'check.ts'],
+        project
+      )
+    ).not.toThrow()
+  })
+}, 120_000)
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createHash } from 'crypto'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { runInNewContext } from 'vm'
+import { escapeJsonForScript, fillTemplate, renderReportHtml } from '../../cli/html'
+import { validateReport } from '../../lib/validate'
+import type { CliContext } from '../../cli/command'
+import type { ASHReport } from '../../types/ash'
+import { loadFixture } from '../utils'
+
+// A bundle with the sequences that used to break the template
+const hostileBundle = [
+  'console.log("</script><script>alert(1)</script>")',
+  'const replaced = "a".replace("a", "$&$\'$`$$")',
+  'const placeholder = "__ASH_DATA__ __CSP__"',
+  '/* <!-- <script> */',
+  'globalThis.results = [/<!--/u.test("<!--"), `<!--</script>`, "</SCRIPT>".length]',
+].join('\n')
+
+describe('report HTML', () => {
+  let context: CliContext
+  const report = validateReport(loadFixture('hostile/report.json')).report as ASHReport
+
+  const render = (options = {}) => {
+    const html = renderReportHtml(report, options, context)
+    return { html, document: new DOMParser().parseFromString(html, 'text/html') }
+  }
+
+  beforeEach(() => {
+    const cwd = mkdtempSync(join(tmpdir(), 'ash-html-'))
+    context = { cwd, stdout: () => {}, stderr: () => {}, assetsDir: join(cwd, 'dist', 'assets') }
+    mkdirSync(join(context.cwd, 'dist', 'assets'), { recursive: true })
+    writeFileSync(join(context.cwd, 'dist', 'assets', 'bundle.js'), hostileBundle)
+    writeFileSync(join(context.cwd, 'dist', 'assets', 'style.css'), 'a::after { content: "</style><script>alert(1)</script>" }')
+  })
+
+  afterEach(() => {
+    rmSync(context.cwd, { recursive: true, force: true })
+  })
+
+  it('keeps hostile finding text inside the data block', () => {
+    const { document } = render()
+
+    expect(document.querySelectorAll('script')).toHaveLength(2)
+    expect(JSON.parse(document.getElementById('ash-data')!.textContent!)).toEqual(report)
+  })
+
+  it('never writes raw markup from the data into the page', () => {
+    const { html } = render()
+
+    expect(html).not.toContain('alert(document.domain)</script>')
+    expect(html).not.toContain('<img src=x')
+    expect(html).not.toContain('\u2028')
+  })
+
+  it('escapes the title', () => {
+    const { document } = render()
+
+    expect(document.title).toBe("</title><script>alert('title')</script>")
+    expect(document.head.querySelectorAll('script')).toHaveLength(0)
+  })
+
+  it('inserts the bundle literally', () => {
+    const { document } = render()
+    const bundle = document.querySelectorAll('script')[1].textContent!
+
+    expect(bundle).toContain('"$&$\'$`$$"')
+    expect(bundle).toContain('"__ASH_DATA__ __CSP__"')
+    expect(bundle).toContain('console.log("<\\/script><script>alert(1)<\\/script>")')
+    expect(bundle).toContain('/* \\x3C!-- <script> */')
+  })
+
+  it('keeps the escaped bundle valid and meaning the same', () => {
+    const { document } = render()
+    const sandbox = { console: { log: () => {} }, results: undefined }
+
+    runInNewContext(document.querySelectorAll('script')[1].textContent!, sandbox)
+
+    expect(sandbox.results).toEqual([true, '<!--</script>', 9])
+  })
+
+  it('keeps the stylesheet inside its style element', () => {
+    const { document } = render()
+
+    expect(document.querySelectorAll('style')).toHaveLength(1)
+    expect(document.querySelector('style')!.textContent).toContain('<\\/style>')
+  })
+
+  it('ships a CSP that only allows the inline bundle', () => {
+    const { document } = render()
+    const csp = document.querySelector('meta[http-equiv="Content-Security-Policy"]')!.getAttribute('content')!
+    const bundle = document.querySelectorAll('script')[1].textContent!
+    const hash = createHash('sha256').update(bundle).digest('base64')
+
+    expect(csp).toContain("default-src 'none'")
+    expect(csp).toContain(`script-src 'sha256-${hash}'`)
+    expect(csp).not.toMatch(/script-src[^;]*unsafe/)
+  })
+
+  it('embeds compressed data as base64', () => {
+    const { document } = render({ compress: true })
+    const data = document.getElementById('ash-data')!
+
+    expect(data.getAttribute('data-encoding')).toBe('gzip+base64')
+    expect(data.textContent).toMatch(/^[A-Za-z0-9+/]+=*$/)
+  })
+
+  describe('escapeJsonForScript', () => {
+    it('round-trips through JSON.parse', () => {
+      const value = { text: '</script><!-- & \u2028 \u2029 >' }
+      const escaped = escapeJsonForScript(JSON.stringify(value))
+
+      expect(escaped).not.toMatch(/[<>&\u2028\u2029]/)
+      expect(JSON.parse(escaped)).toEqual(value)
+    })
+  })
+
+  describe('fillTemplate', () => {
+    it('replaces placeholders literally in one pass', () => {
+      expect(fillTemplate('<p>__A__|__B__|__C__</p>', { A: "$& $' $`", B: '__A__' }))
+        .toBe("<p>$& $' $`|__A__|__C__</p>")
+    })
+  })
+})
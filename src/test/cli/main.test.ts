@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { spawnSync } from 'child_process'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { fixturePath } from '../utils'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '../../..')
+
+// Runs the real entry point in a child process, as `npm run cli` does
+const ashReport = (...args: string[]) =>
+  spawnSync('node_modules/.bin/tsx', ['src/cli/main.ts', ...args], {
+    cwd: root,
+    encoding: 'utf-8',
+    timeout: 30_000,
+  })
+
+describe('ash-report entry point', () => {
+  it('prints a summary and exits with 0', () => {
+    const result = ashReport('summary', fixturePath('scanners/bandit.json'))
+
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain('ASH Security Report: 2 findings')
+  })
+
+  it('exits with the usage error code', () => {
+    const result = ashReport('validate', '--nope')
+
+    expect(result.status).toBe(2)
+    expect(result.stderr).toContain("Unknown option '--nope'")
+  })
+}, 60_000)
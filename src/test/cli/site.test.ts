@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { CliContext } from '../../cli/command'
+import { writeSite } from '../../cli/site'
+import { mockASHReport, mockFinding } from '../utils'
+
+const report = mockASHReport({
+  title: 'Payments',
+  findings: [
+    mockFinding({ tool: 'Grype', message: 'Critical CVE', location: 'package.json', fingerprint: 'abc123' }),
+    mockFinding({ tool: 'Semgrep', message: 'Weak hash', location: 'src/app.py', fingerprint: 'def456' }),
+  ],
+})
+
+describe('writeSite', () => {
+  let cwd: string
+  let context: CliContext
+
+  const read = (path: string) => readFileSync(join(cwd, 'site', path), 'utf-8')
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'ash-site-'))
+    context = { cwd, stdout: () => {}, stderr: () => {}, assetsDir: join(cwd, 'assets') }
+    mkdirSync(join(cwd, 'assets'))
+    writeFileSync(join(cwd, 'assets', 'bundle.js'), 'console.log("app")')
+  })
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  it('writes a prerendered page for the overview, each tool, file and finding', async () => {
+    expect(await writeSite(report, 'site', {}, context)).toBe(12)
+
+    for (const page of [
+      'index.html',
+      'tools/index.html',
+      'tools/grype/index.html',
+      'tools/cdk-nag/index.html',
+      'files/index.html',
+      'files/src-app-py/index.html',
+      'findings/abc123/index.html',
+      'findings/def456/index.html',
+      '404.html',
+    ]) {
+      expect(existsSync(join(cwd, 'site', page)), page).toBe(true)
+    }
+
+    const finding = read('findings/abc123/index.html')
+    expect(finding).toContain('<title>Critical CVE – Payments</title>')
+    expect(finding).toContain('<div id="app" data-site="/">')
+    expect(finding).toContain('href="/tools/grype/"')
+    expect(read('404.html')).toContain('404: Not Found')
+  })
+
+  it('writes the report and copies the assets for hydration', async () => {
+    await writeSite(report, 'site', {}, context)
+
+    expect(JSON.parse(read('report.json'))).toEqual(report)
+    expect(read('assets/bundle.js')).toBe('console.log("app")')
+    expect(read('index.html')).toContain('<script src="/assets/bundle.js"></script>')
+  })
+
+  it('only allows scripts and data from the site itself', async () => {
+    await writeSite(report, 'site', {}, context)
+
+    const html = read('index.html')
+    expect(html).toContain("script-src 'self'")
+    expect(html).toContain("connect-src 'self'")
+    expect(html).not.toContain("'unsafe-eval'")
+  })
+
+  it('prefixes links and assets with the base path', async () => {
+    await writeSite(report, 'site', { base: 'reports/security' }, context)
+
+    const html = read('tools/index.html')
+    expect(html).toContain('data-site="/reports/security/"')
+    expect(html).toContain('src="/reports/security/assets/bundle.js"')
+    expect(html).toContain('href="/reports/security/tools/grype/"')
+  })
+
+  it('copies a separate stylesheet when the build has one', async () => {
+    writeFileSync(join(cwd, 'assets', 'style.css'), 'body { margin: 0 }')
+
+    await writeSite(report, 'site', {}, context)
+
+    expect(read('assets/style.css')).toBe('body { margin: 0 }')
+    expect(read('index.html')).toContain('href="/assets/style.css"')
+  })
+
+  it('reports directories it cannot write', async () => {
+    writeFileSync(join(cwd, 'site'), 'not a directory')
+
+    await expect(writeSite(report, 'site', {}, context)).rejects.toThrow('Cannot write site/index.html')
+  })
+})
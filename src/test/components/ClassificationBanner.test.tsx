@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '../utils'
+import { ClassificationBanner } from '../../components/ClassificationBanner'
+
+describe('ClassificationBanner', () => {
+  it('renders nothing without a classification', () => {
+    const { container } = render(<ClassificationBanner position="top" />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('shows the classification and stays on screen at the top', () => {
+    render(<ClassificationBanner classification="CONFIDENTIAL" position="top" />)
+
+    const banner = screen.getByRole('note', { name: 'Classification' })
+    expect(banner).toHaveTextContent('CONFIDENTIAL')
+    expect(banner).toHaveClass('sticky', 'print:fixed', 'print:top-0')
+  })
+
+  it('is fixed to the bottom of printed pages at the bottom', () => {
+    render(<ClassificationBanner classification="CONFIDENTIAL" position="bottom" />)
+
+    const banner = screen.getByRole('note', { name: 'Classification' })
+    expect(banner).toHaveClass('print:fixed', 'print:bottom-0')
+    expect(banner).not.toHaveClass('sticky')
+  })
+})
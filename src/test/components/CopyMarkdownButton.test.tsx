@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, userEvent, mockASHReport } from '../utils'
+import { CopyMarkdownButton } from '../../components/CopyMarkdownButton'
+
+describe('CopyMarkdownButton', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('copies the Markdown summary to the clipboard', async () => {
+    const user = userEvent.setup()
+    const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockResolvedValue()
+    render(<CopyMarkdownButton report={mockASHReport({ title: 'Payments API' })} />)
+
+    await user.click(screen.getByRole('button', { name: 'Copy as Markdown' }))
+
+    expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/^## Payments API\n/))
+    expect(screen.getByRole('button')).toHaveTextContent('Copied!')
+  })
+
+  it('says when the clipboard is unavailable', async () => {
+    const user = userEvent.setup()
+    vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValue(new Error('denied'))
+    render(<CopyMarkdownButton report={mockASHReport()} />)
+
+    await user.click(screen.getByRole('button', { name: 'Copy as Markdown' }))
+
+    expect(screen.getByRole('button')).toHaveTextContent('Copy failed')
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '../utils'
+import { DiagnosticsPanel } from '../../components/DiagnosticsPanel'
+import type { ValidationIssue } from '../../lib/validate'
+
+describe('DiagnosticsPanel', () => {
+  const issues: ValidationIssue[] = [
+    { level: 'error', path: 'findings[2].severity', message: 'unknown severity "BLOCKER"', line: 31 },
+    { level: 'error', path: 'findings[2].message', message: 'is required', line: 27 },
+    { level: 'error', path: 'findings[5]', message: 'expected a finding object', line: 60 },
+    { level: 'warning', path: 'metadata.scanDate', message: 'expected an ISO 8601 date; using current time' },
+  ]
+
+  it('renders nothing without issues', () => {
+    const { container } = render(<DiagnosticsPanel issues={[]} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('summarizes skipped records and warnings', () => {
+    render(<DiagnosticsPanel issues={issues} />)
+
+    expect(screen.getByText('Report Diagnostics')).toBeInTheDocument()
+    expect(screen.getByText('2 records skipped, 1 warning')).toBeInTheDocument()
+  })
+
+  it('lists each issue with its path, line and reason', () => {
+    render(<DiagnosticsPanel issues={issues} />)
+
+    expect(screen.getByText('findings[2].severity (line 31)')).toBeInTheDocument()
+    expect(screen.getByText('unknown severity "BLOCKER"')).toBeInTheDocument()
+    expect(screen.getByText('metadata.scanDate')).toBeInTheDocument()
+    expect(screen.getAllByText('error')).toHaveLength(3)
+    expect(screen.getAllByText('warning')).toHaveLength(1)
+  })
+
+  it('labels document-level issues', () => {
+    render(<DiagnosticsPanel issues={[{ level: 'error', path: '', message: 'Unexpected end of JSON input' }]} />)
+
+    expect(screen.getByText('(root)')).toBeInTheDocument()
+    expect(screen.getByText('1 record skipped, 0 warnings')).toBeInTheDocument()
+  })
+})
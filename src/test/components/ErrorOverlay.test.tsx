@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen, userEvent } from '../utils'
+import { ErrorOverlay } from '../../components/ErrorOverlay'
+import type { ValidationIssue } from '../../lib/validate'
+
+const errors: ValidationIssue[] = [
+  { level: 'error', file: 'scan.json', line: 12, path: 'findings[3].severity', message: 'unknown severity "SEVERE"' },
+  { level: 'warning', file: 'scan.json', path: 'metadata.duration', message: 'expected a number; ignored' },
+]
+
+describe('ErrorOverlay', () => {
+  it('renders nothing without errors', () => {
+    const { container } = render(<ErrorOverlay issues={[errors[1]]} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('lists the errors with their file and line', () => {
+    render(<ErrorOverlay issues={errors} />)
+
+    expect(screen.getByRole('alertdialog')).toHaveTextContent('1 error in the report inputs')
+    expect(screen.getByText('scan.json:12 findings[3].severity: unknown severity "SEVERE"')).toBeInTheDocument()
+    expect(screen.queryByText(/metadata.duration/)).not.toBeInTheDocument()
+  })
+
+  it('can be dismissed until the next update', async () => {
+    const user = userEvent.setup()
+    const { rerender } = render(<ErrorOverlay issues={errors} />)
+
+    await user.click(screen.getByRole('button', { name: 'Dismiss' }))
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument()
+
+    rerender(<ErrorOverlay issues={[...errors]} />)
+    expect(screen.getByRole('alertdialog')).toBeInTheDocument()
+  })
+})
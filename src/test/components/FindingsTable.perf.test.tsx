@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, act, mockFinding } from '../utils'
+import { FindingsTable } from '../../components/FindingsTable'
+import type { Finding, SeverityLevel } from '../../types/ash'
+
+vi.mock('@radix-ui/react-dialog', () => ({
+  Root: ({ children, open }: any) => open ? <div>{children}</div> : null,
+  Portal: ({ children }: any) => <div>{children}</div>,
+  Overlay: () => null,
+  Content: ({ children }: any) => <div>{children}</div>,
+  Title: ({ children }: any) => <h2>{children}</h2>,
+  Close: ({ children }: any) => <button>{children}</button>
+}))
+
+vi.mock('@radix-ui/react-tabs', () => ({
+  Root: ({ children }: any) => <div>{children}</div>,
+  List: ({ children }: any) => <div>{children}</div>,
+  Trigger: ({ children }: any) => <button>{children}</button>
+}))
+
+vi.mock('lucide-preact', () => ({
+  X: () => <span>×</span>
+}))
+
+const FINDING_COUNT = 50_000
+// Generous enough for a loaded CI runner; an unvirtualized table takes minutes
+const RENDER_BUDGET_MS = 2000
+
+const severities: SeverityLevel[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW']
+const syntheticFindings: Finding[] = Array.from({ length: FINDING_COUNT }, (_, i) =>
+  mockFinding({
+    tool: `Tool ${i % 7}`,
+    severity: severities[i % severities.length],
+    message: `Synthetic finding ${i}`,
+    location: `src/module${i % 500}/file${i}.js`,
+    lineNumber: (i % 900) + 1,
+  })
+)
+
+const renderedRows = () => screen.getAllByText(/^Synthetic finding \d+$/)
+
+describe('FindingsTable performance', () => {
+  it(`renders ${FINDING_COUNT.toLocaleString()} findings within ${RENDER_BUDGET_MS}ms`, () => {
+    const start = performance.now()
+    render(<FindingsTable findings={syntheticFindings} />)
+    const elapsed = performance.now() - start
+
+    expect(elapsed).toBeLessThan(RENDER_BUDGET_MS)
+  })
+
+  it('only renders the rows in view', () => {
+    render(<FindingsTable findings={syntheticFindings} />)
+
+    expect(renderedRows().length).toBeLessThan(50)
+    expect(screen.getByText('Synthetic finding 0')).toBeInTheDocument()
+    expect(screen.queryByText(`Synthetic finding ${FINDING_COUNT - 1}`)).not.toBeInTheDocument()
+  })
+
+  it('keeps the full scroll height with spacer rows', () => {
+    render(<FindingsTable findings={syntheticFindings} />)
+
+    const spacer = document.querySelector('tr[aria-hidden="true"]') as HTMLElement
+    expect(parseInt(spacer.style.height)).toBeGreaterThan((FINDING_COUNT - 50) * 50)
+  })
+
+  it('renders the rows scrolled into view', () => {
+    render(<FindingsTable findings={syntheticFindings} />)
+    const scroller = screen.getByTestId('findings-scroll')
+
+    act(() => {
+      scroller.scrollTop = 57 * 30_000
+      fireEvent.scroll(scroller)
+    })
+
+    expect(screen.getByText('Synthetic finding 30000')).toBeInTheDocument()
+    expect(screen.queryByText('Synthetic finding 0')).not.toBeInTheDocument()
+    expect(renderedRows().length).toBeLessThan(50)
+  })
+
+  it(`re-filters within ${RENDER_BUDGET_MS}ms`, () => {
+    render(<FindingsTable findings={syntheticFindings} />)
+
+    const start = performance.now()
+    fireEvent.click(screen.getByRole('button', { name: /CRITICAL/ }))
+    const elapsed = performance.now() - start
+
+    expect(elapsed).toBeLessThan(RENDER_BUDGET_MS)
+    expect(screen.queryByText('Synthetic finding 0')).not.toBeInTheDocument()
+    expect(screen.getByText('Synthetic finding 1')).toBeInTheDocument()
+  })
+})
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { render, screen, waitFor } from '../utils'
+import { render, screen, waitFor, within } from '../utils'
 import { userEvent } from '@testing-library/user-event'
 import { FindingsTable } from '../../components/FindingsTable'
 import { mockFinding } from '../utils'
+import { resolveSeverityConfig } from '../../lib/utils'
 import type { Finding } from '../../types/ash'
 
 // Mock Radix UI Dialog components
@@ -17,14 +18,22 @@ vi.mock('@radix-ui/react-dialog', () => ({
 
 // Mock Radix UI Tabs components
 vi.mock('@radix-ui/react-tabs', () => ({
+  // Selects the value of the clicked trigger
   Root: ({ children, value, onValueChange }: any) => (
-    <div data-testid="tabs-root" data-value={value} onClick={() => onValueChange?.('test')}>
+    <div
+      data-testid="tabs-root"
+      data-value={value}
+      onClick={(event: MouseEvent) => {
+        const trigger = (event.target as Element).closest('[data-tab-value]')
+        if (trigger) onValueChange?.(trigger.getAttribute('data-tab-value'))
+      }}
+    >
       {children}
     </div>
   ),
   List: ({ children, ...props }: any) => <div data-testid="tabs-list" {...props}>{children}</div>,
   Trigger: ({ children, value, ...props }: any) => (
-    <button data-testid={`tab-${value}`} data-value={value} {...props}>
+    <button data-testid={`tab-${value}`} data-value={value} data-tab-value={value} {...props}>
       {children}
     </button>
   )
@@ -323,6 +332,114 @@ describe('FindingsTable', () => {
     })
   })
 
+  describe('Severity Configuration', () => {
+    it('only shows chips for informational and unknown levels that are present', () => {
+      render(<FindingsTable findings={[...mockFindings, mockFinding({ severity: 'INFO', message: 'Informational note' })]} />)
+
+      expect(screen.getByRole('button', { name: /🔵 INFORMATIONAL/ })).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: /UNKNOWN/ })).not.toBeInTheDocument()
+      expect(screen.getByText('Informational note')).toBeInTheDocument()
+    })
+
+    it('uses labels, icons and ordering from the severity config', () => {
+      const severities = resolveSeverityConfig({
+        LOW: { label: 'Minor', icon: '🟦', priority: 10, color: '#2563eb' },
+      })
+      render(<FindingsTable findings={mockFindings} severities={severities} />)
+
+      const chips = screen.getAllByRole('button').filter(button => !button.textContent?.includes('View Details'))
+      expect(chips[0]).toHaveTextContent('🟦 Minor')
+      expect(screen.getAllByText('🟦 Minor')[1]).toHaveStyle({ color: '#2563eb' })
+    })
+  })
+
+  describe('Search', () => {
+    const rowTexts = () =>
+      screen.queryAllByText('View Details').map(button => button.closest('tr')!.textContent)
+
+    it('filters findings by free text in the message, description and location', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={mockFindings} />)
+
+      await user.type(screen.getByRole('searchbox', { name: 'Search findings' }), 'detailed')
+      expect(rowTexts()).toHaveLength(1)
+      expect(rowTexts()[0]).toContain('Critical vulnerability in package')
+
+      await user.clear(screen.getByRole('searchbox', { name: 'Search findings' }))
+      await user.type(screen.getByRole('searchbox', { name: 'Search findings' }), 'app.js')
+      expect(rowTexts()).toHaveLength(1)
+      expect(rowTexts()[0]).toContain('High severity issue')
+    })
+
+    it('combines qualifiers and negation', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={mockFindings} />)
+
+      await user.type(screen.getByRole('searchbox', { name: 'Search findings' }), 'tool:grype -cve:CVE-2023-*')
+
+      expect(rowTexts()).toHaveLength(1)
+      expect(rowTexts()[0]).toContain('Medium severity finding')
+    })
+
+    it('compares severities by priority', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={mockFindings} />)
+
+      await user.type(screen.getByRole('searchbox', { name: 'Search findings' }), 'severity>=HIGH')
+
+      expect(screen.getByText('Critical vulnerability in package')).toBeInTheDocument()
+      expect(screen.getByText('High severity issue')).toBeInTheDocument()
+      expect(screen.queryByText('Medium severity finding')).not.toBeInTheDocument()
+      expect(screen.queryByText('Low severity warning')).not.toBeInTheDocument()
+    })
+
+    it('highlights free-text matches in the rows', async () => {
+      const user = userEvent.setup()
+      const { container } = render(<FindingsTable findings={mockFindings} />)
+
+      await user.type(screen.getByRole('searchbox', { name: 'Search findings' }), 'SEVERITY')
+
+      const marks = Array.from(container.querySelectorAll('tbody mark')).map(mark => mark.textContent)
+      expect(marks).toEqual(['severity', 'severity', 'severity'])
+    })
+
+    it('shows syntax errors inline and ignores the broken terms', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={mockFindings} />)
+
+      const search = screen.getByRole('searchbox', { name: 'Search findings' })
+      await user.type(search, 'severity:urgent tool:ESLint')
+
+      const alert = screen.getByRole('alert')
+      expect(alert).toHaveTextContent('severity:urgent Unknown severity "urgent"')
+      expect(search).toHaveAttribute('aria-invalid', 'true')
+      expect(search).toHaveAttribute('aria-describedby', alert.id)
+      expect(rowTexts()).toHaveLength(1)
+      expect(rowTexts()[0]).toContain('High severity issue')
+    })
+
+    it('shows invalid path globs as errors instead of failing to render', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={mockFindings} />)
+
+      // "{{" types a literal "{"
+      await user.type(screen.getByRole('searchbox', { name: 'Search findings' }), 'path:src/{{*.js')
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Glob "src/{*.js" has an unclosed "{"')
+      expect(rowTexts()).toHaveLength(mockFindings.length)
+    })
+
+    it('shows the empty state when nothing matches', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={mockFindings} />)
+
+      await user.type(screen.getByRole('searchbox', { name: 'Search findings' }), 'score>7')
+
+      expect(screen.getByText('No findings match the current filters.')).toBeInTheDocument()
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+    })
+  })
+
   describe('Combined Filtering', () => {
     it('applies both severity and tool filters', async () => {
       const user = userEvent.setup()
@@ -341,4 +458,164 @@ describe('FindingsTable', () => {
       expect(screen.getByText('Medium severity finding')).toBeInTheDocument()
     })
   })
-}) 
\ No newline at end of file
+
+  describe('Fingerprints', () => {
+    it('shows the fingerprint in the details dialog', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={[mockFinding({ fingerprint: '1a2b3c4d5e6f70' })]} />)
+
+      await user.click(screen.getByText('View Details'))
+
+      expect(screen.getByTestId('dialog-content')).toHaveTextContent('Fingerprint1a2b3c4d5e6f70')
+    })
+  })
+
+  describe('Project Filtering', () => {
+    const projectFindings: Finding[] = [
+      mockFinding({ project: 'api', message: 'API finding' }),
+      mockFinding({ project: 'web', message: 'Web finding' }),
+    ]
+
+    it('does not render project tabs or column for a single scan', () => {
+      render(<FindingsTable findings={mockFindings} />)
+
+      expect(screen.queryByText('All Projects')).not.toBeInTheDocument()
+      expect(screen.queryByText('Project')).not.toBeInTheDocument()
+    })
+
+    it('renders a tab and column for each project', () => {
+      render(<FindingsTable findings={projectFindings} />)
+
+      expect(screen.getByText('All Projects')).toBeInTheDocument()
+      expect(screen.getByTestId('tab-api')).toBeInTheDocument()
+      expect(screen.getByTestId('tab-web')).toBeInTheDocument()
+      expect(screen.getByText('Project')).toBeInTheDocument()
+    })
+
+    it('filters findings by the selected project', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={[...projectFindings, mockFinding({ project: 'test', message: 'Test finding' })]} />)
+
+      await user.click(screen.getByTestId('tab-test'))
+
+      expect(screen.getByText('Test finding')).toBeInTheDocument()
+      expect(screen.queryByText('API finding')).not.toBeInTheDocument()
+      expect(screen.queryByText('Web finding')).not.toBeInTheDocument()
+
+      await user.click(screen.getByText('All Projects'))
+
+      expect(screen.getByText('API finding')).toBeInTheDocument()
+      expect(screen.getByText('Web finding')).toBeInTheDocument()
+    })
+
+    it('shows the project in the details dialog', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={projectFindings} />)
+
+      await user.click(screen.getAllByText('View Details')[1])
+
+      expect(screen.getByTestId('dialog-content')).toHaveTextContent('Projectweb')
+    })
+  })
+
+  describe('Baseline Status', () => {
+    const current: Finding[] = [
+      mockFinding({ message: 'Introduced finding', status: 'new' }),
+      mockFinding({ message: 'Old finding', status: 'existing' }),
+    ]
+    const fixed: Finding[] = [mockFinding({ message: 'Resolved finding', status: 'fixed' })]
+
+    it('has no status filter or column without a baseline', () => {
+      render(<FindingsTable findings={mockFindings} />)
+
+      expect(screen.queryByText('Status')).not.toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: '🆕 New' })).not.toBeInTheDocument()
+    })
+
+    it('lists current and fixed findings with their status', () => {
+      render(<FindingsTable findings={current} fixed={fixed} />)
+
+      expect(screen.getByText('Status')).toBeInTheDocument()
+      expect(screen.getByText('Resolved finding')).toBeInTheDocument()
+      const row = screen.getByText('Resolved finding').closest('tr')
+      expect(row).toHaveTextContent('✅ Fixed')
+    })
+
+    it('filters findings by status', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={current} fixed={fixed} />)
+
+      await user.click(screen.getByRole('button', { name: '📌 Existing' }))
+      await user.click(screen.getByRole('button', { name: '✅ Fixed' }))
+
+      expect(screen.getByText('Introduced finding')).toBeInTheDocument()
+      expect(screen.queryByText('Old finding')).not.toBeInTheDocument()
+      expect(screen.queryByText('Resolved finding')).not.toBeInTheDocument()
+    })
+
+    it('shows the status in the details dialog', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={current} />)
+
+      await user.click(screen.getAllByText('View Details')[0])
+
+      expect(screen.getByTestId('dialog-content')).toHaveTextContent('Status🆕 New')
+    })
+  })
+  describe('Expired Suppressions', () => {
+    const resurfaced = mockFinding({
+      message: 'Overdue finding',
+      suppression: { rule: 'CVE-1', justification: 'Fix scheduled', owner: 'alice', expires: '2025-01-01' },
+    })
+
+    it('flags findings whose suppression expired', () => {
+      render(<FindingsTable findings={[resurfaced, mockFinding({ message: 'Open finding' })]} />)
+
+      expect(screen.getByText('Overdue finding').closest('tr')).toHaveTextContent('Suppression expired')
+      expect(screen.getByText('Open finding').closest('tr')).not.toHaveTextContent('Suppression expired')
+    })
+
+    it('explains the expired suppression in the details dialog', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={[resurfaced]} />)
+
+      await user.click(screen.getByText('View Details'))
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Suppression expired on 2025-01-01')
+      expect(screen.getByRole('alert')).toHaveTextContent('Fix scheduled (alice)')
+    })
+  })
+  describe('Redacted Secrets', () => {
+    it('flags masked fields in the details dialog', async () => {
+      const user = userEvent.setup()
+      render(
+        <FindingsTable
+          findings={[mockFinding({
+            tool: 'git-secrets',
+            message: 'AWS key AKIA****MPLE committed',
+            pattern: 'AKIA****MPLE',
+            redacted: ['message', 'pattern'],
+          })]}
+        />,
+      )
+
+      await user.click(screen.getByText('View Details'))
+
+      const dialog = within(screen.getByTestId('dialog-content'))
+      expect(dialog.getByRole('note')).toHaveTextContent('Secrets in this finding were masked')
+      expect(dialog.getByText('Message').closest('label')).toHaveTextContent('Messageredacted')
+      expect(dialog.getByText('Pattern').closest('label')).toHaveTextContent('Patternredacted')
+      expect(dialog.getByText('Description').closest('label')).not.toHaveTextContent('redacted')
+    })
+
+    it('has no redaction note for unmasked findings', async () => {
+      const user = userEvent.setup()
+      render(<FindingsTable findings={[mockFinding()]} />)
+
+      await user.click(screen.getByText('View Details'))
+
+      expect(screen.queryByRole('note')).not.toBeInTheDocument()
+      expect(screen.queryByText('redacted')).not.toBeInTheDocument()
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '../utils'
+import { GateBanner } from '../../components/GateBanner'
+
+describe('GateBanner', () => {
+  it('renders nothing without a gate result', () => {
+    const { container } = render(<GateBanner />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('shows a passing gate', () => {
+    render(<GateBanner gate={{ passed: true, thresholds: [{ label: 'HIGH or above', count: 0, limit: 0 }] }} />)
+
+    expect(screen.getByRole('status')).toHaveClass('bg-green-50')
+    expect(screen.getByText('Quality gate: PASS')).toBeInTheDocument()
+    expect(screen.getByText('1 threshold met')).toBeInTheDocument()
+  })
+
+  it('lists the violated thresholds of a failing gate', () => {
+    render(
+      <GateBanner
+        gate={{
+          passed: false,
+          thresholds: [
+            { label: 'HIGH or above', count: 3, limit: 0 },
+            { label: 'Grype', count: 2, limit: 5 },
+            { label: 'MEDIUM', count: 1, limit: 0 },
+          ],
+        }}
+      />,
+    )
+
+    expect(screen.getByRole('status')).toHaveClass('bg-red-50')
+    expect(screen.getByText('Quality gate: FAIL')).toBeInTheDocument()
+    expect(screen.getByText('HIGH or above: 3 findings (max 0)')).toBeInTheDocument()
+    expect(screen.getByText('MEDIUM: 1 finding (max 0)')).toBeInTheDocument()
+    expect(screen.queryByText(/Grype/)).not.toBeInTheDocument()
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen } from '../utils'
 import { Header } from '../../components/Header'
 
@@ -9,6 +9,10 @@ vi.mock('preact-iso', () => ({
 }))
 
 describe('Header', () => {
+  beforeEach(() => {
+    mockLocation.url = '/'
+  })
+
   describe('Basic Rendering', () => {
     it('renders navigation header', () => {
       render(<Header />)
@@ -17,55 +21,74 @@ describe('Header', () => {
       expect(screen.getByRole('navigation')).toBeInTheDocument()
     })
 
-    it('renders Home link', () => {
+    it('renders Overview, Tools and Files links', () => {
       render(<Header />)
       
-      const homeLink = screen.getByRole('link', { name: 'Home' })
-      expect(homeLink).toBeInTheDocument()
-      expect(homeLink).toHaveAttribute('href', '/')
+      expect(screen.getByRole('link', { name: 'Overview' })).toHaveAttribute('href', '/')
+      expect(screen.getByRole('link', { name: 'Tools' })).toHaveAttribute('href', '/tools/')
+      expect(screen.getByRole('link', { name: 'Files' })).toHaveAttribute('href', '/files/')
     })
 
-    it('renders 404 link', () => {
-      render(<Header />)
+    it('prefixes links with the base path', () => {
+      mockLocation.url = '/reports/'
+      render(<Header base="/reports/" />)
       
-      const notFoundLink = screen.getByRole('link', { name: '404' })
-      expect(notFoundLink).toBeInTheDocument()
-      expect(notFoundLink).toHaveAttribute('href', '/404')
+      expect(screen.getByRole('link', { name: 'Overview' })).toHaveAttribute('href', '/reports/')
+      expect(screen.getByRole('link', { name: 'Tools' })).toHaveAttribute('href', '/reports/tools/')
+      expect(screen.getByRole('link', { name: 'Overview' })).toHaveClass('active')
     })
   })
 
   describe('Active Link Highlighting', () => {
-    it('applies active class to Home link when on home page', () => {
-      mockLocation.url = '/'
+    it('marks the Overview link active on the overview', () => {
       render(<Header />)
       
-      const homeLink = screen.getByRole('link', { name: 'Home' })
-      expect(homeLink).toHaveClass('active')
-      
-      const notFoundLink = screen.getByRole('link', { name: '404' })
-      expect(notFoundLink).not.toHaveClass('active')
+      const overview = screen.getByRole('link', { name: 'Overview' })
+      expect(overview).toHaveClass('active')
+      expect(overview).toHaveAttribute('aria-current', 'page')
+      expect(screen.getByRole('link', { name: 'Tools' })).not.toHaveClass('active')
     })
 
-    it('applies active class to 404 link when on 404 page', () => {
-      mockLocation.url = '/404'
+    it('marks the Tools link active on a tool page', () => {
+      mockLocation.url = '/tools/grype/'
       render(<Header />)
       
-      const homeLink = screen.getByRole('link', { name: 'Home' })
-      expect(homeLink).not.toHaveClass('active')
+      expect(screen.getByRole('link', { name: 'Tools' })).toHaveClass('active')
+      expect(screen.getByRole('link', { name: 'Overview' })).not.toHaveClass('active')
+    })
+
+    it('marks the Files link active without a trailing slash', () => {
+      mockLocation.url = '/files'
+      render(<Header />)
       
-      const notFoundLink = screen.getByRole('link', { name: '404' })
-      expect(notFoundLink).toHaveClass('active')
+      expect(screen.getByRole('link', { name: 'Files' })).toHaveClass('active')
     })
 
     it('does not apply active class when on different page', () => {
-      mockLocation.url = '/some-other-page'
+      mockLocation.url = '/findings/abc/'
       render(<Header />)
       
-      const homeLink = screen.getByRole('link', { name: 'Home' })
-      expect(homeLink).not.toHaveClass('active')
+      for (const link of screen.getAllByRole('link')) {
+        expect(link).not.toHaveClass('active')
+        expect(link).not.toHaveAttribute('aria-current')
+      }
+    })
+  })
+
+  describe('Branding', () => {
+    it('shows the company name and logo', () => {
+      const { container } = render(
+        <Header branding={{ companyName: 'Acme', logo: 'data:image/png;base64,AAAA' }} />
+      )
+      
+      expect(screen.getByText('Acme')).toBeInTheDocument()
+      expect(container.querySelector('img')).toHaveAttribute('src', 'data:image/png;base64,AAAA')
+    })
+
+    it('gives a lone logo an accessible name', () => {
+      render(<Header branding={{ logo: 'data:image/png;base64,AAAA' }} />)
       
-      const notFoundLink = screen.getByRole('link', { name: '404' })
-      expect(notFoundLink).not.toHaveClass('active')
+      expect(screen.getByRole('img', { name: 'Logo' })).toBeInTheDocument()
     })
   })
 
@@ -77,15 +100,14 @@ describe('Header', () => {
       const nav = screen.getByRole('navigation')
       
       expect(header).toContainElement(nav)
-      expect(nav).toContainElement(screen.getByRole('link', { name: 'Home' }))
-      expect(nav).toContainElement(screen.getByRole('link', { name: '404' }))
+      expect(nav).toContainElement(screen.getByRole('link', { name: 'Overview' }))
     })
 
-    it('renders exactly two navigation links', () => {
+    it('renders exactly three navigation links', () => {
       render(<Header />)
       
       const links = screen.getAllByRole('link')
-      expect(links).toHaveLength(2)
+      expect(links).toHaveLength(3)
     })
   })
-}) 
\ No newline at end of file
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { render } from '../utils'
+import { Highlight } from '../../components/Highlight'
+
+const marks = (container: Element) =>
+  Array.from(container.querySelectorAll('mark')).map(mark => mark.textContent)
+
+describe('Highlight', () => {
+  it('renders plain text without terms', () => {
+    const { container } = render(<Highlight text="SQL injection" terms={[]} />)
+
+    expect(container).toHaveTextContent('SQL injection')
+    expect(marks(container)).toEqual([])
+  })
+
+  it('marks every match ignoring case and keeps the original text', () => {
+    const { container } = render(<Highlight text="SQL query built from sql input" terms={['Sql']} />)
+
+    expect(container).toHaveTextContent('SQL query built from sql input')
+    expect(marks(container)).toEqual(['SQL', 'sql'])
+  })
+
+  it('prefers the longest of overlapping terms', () => {
+    const { container } = render(<Highlight text="src/app.js" terms={['app', 'app.js']} />)
+
+    expect(marks(container)).toEqual(['app.js'])
+  })
+
+  it('ignores empty terms', () => {
+    const { container } = render(<Highlight text="hardcoded secret" terms={['']} />)
+
+    expect(marks(container)).toEqual([])
+  })
+})
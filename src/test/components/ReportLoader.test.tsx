@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor, userEvent, mockASHReport } from '../utils'
+import { ReportLoader } from '../../components/ReportLoader'
+
+describe('ReportLoader', () => {
+  const reportFile = (name = 'scan.json') => new File([JSON.stringify(mockASHReport())], name)
+
+  it('renders the drop zone and file picker', () => {
+    render(<ReportLoader onLoad={vi.fn()} />)
+
+    expect(screen.getByText('Drag and drop report files here, or')).toBeInTheDocument()
+    const input = screen.getByLabelText('choose files')
+    expect(input).toHaveAttribute('type', 'file')
+    expect(input).toHaveAttribute('multiple')
+  })
+
+  it('loads files chosen with the picker', async () => {
+    const user = userEvent.setup()
+    const onLoad = vi.fn()
+    render(<ReportLoader onLoad={onLoad} />)
+
+    await user.upload(screen.getByLabelText('choose files'), [reportFile('a.json'), reportFile('b.json')])
+
+    await waitFor(() => expect(onLoad).toHaveBeenCalled())
+    expect(onLoad.mock.calls[0][0].report.findings).toHaveLength(8)
+  })
+
+  it('loads dropped files', async () => {
+    const onLoad = vi.fn()
+    render(<ReportLoader onLoad={onLoad} />)
+
+    fireEvent.drop(screen.getByTestId('drop-zone'), { dataTransfer: { files: [reportFile()] } })
+
+    await waitFor(() => expect(onLoad).toHaveBeenCalled())
+    expect(onLoad.mock.calls[0][0].report.findings).toHaveLength(4)
+  })
+
+  it('reports files that cannot be read', async () => {
+    const onLoad = vi.fn()
+    const unreadable = reportFile('locked.json')
+    unreadable.text = () => Promise.reject(new Error('Permission denied'))
+    render(<ReportLoader onLoad={onLoad} />)
+
+    fireEvent.drop(screen.getByTestId('drop-zone'), { dataTransfer: { files: [unreadable] } })
+
+    await waitFor(() => expect(onLoad).toHaveBeenCalled())
+    expect(onLoad.mock.calls[0][0]).toEqual({
+      report: null,
+      issues: [{ level: 'error', path: '', message: 'Permission denied' }],
+    })
+    expect(screen.getByText('Drag and drop report files here, or')).toBeInTheDocument()
+  })
+
+  it('highlights the drop zone while dragging', () => {
+    render(<ReportLoader onLoad={vi.fn()} />)
+    const dropZone = screen.getByTestId('drop-zone')
+
+    fireEvent.dragOver(dropZone)
+    expect(dropZone).toHaveClass('border-blue-500')
+
+    fireEvent.dragLeave(dropZone)
+    expect(dropZone).not.toHaveClass('border-blue-500')
+  })
+
+  it('shows issues from a previous attempt', () => {
+    render(<ReportLoader onLoad={vi.fn()} issues={[{ level: 'error', file: 'x.json', path: '', message: 'Unrecognized report format' }]} />)
+
+    expect(screen.getByText('Unrecognized report format')).toBeInTheDocument()
+  })
+})
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest'
 import { render, screen } from '../utils'
 import { SummaryCards } from '../../components/SummaryCards'
 import { mockFindings, mockFinding } from '../utils'
+import { resolveSeverityConfig } from '../../lib/utils'
 
 describe('SummaryCards Component', () => {
   it('renders all severity level cards', () => {
@@ -150,4 +151,47 @@ describe('SummaryCards Component', () => {
     const criticalCard = screen.getByText('🔴 CRITICAL').closest('div')?.parentElement
     expect(criticalCard).toHaveTextContent('1')
   })
-}) 
\ No newline at end of file
+
+  it('shows informational and unknown cards only when they have findings', () => {
+    const { rerender } = render(<SummaryCards findings={mockFindings(2)} />)
+    expect(screen.queryByText('🔵 INFORMATIONAL')).not.toBeInTheDocument()
+
+    rerender(<SummaryCards findings={[mockFinding({ severity: 'INFO' })]} />)
+    expect(screen.getByText('🔵 INFORMATIONAL')).toBeInTheDocument()
+    expect(screen.queryByText('⚪ UNKNOWN')).not.toBeInTheDocument()
+  })
+
+  it('renders cards from a custom severity config', () => {
+    const severities = resolveSeverityConfig({
+      CRITICAL: { label: 'Blocker', icon: '⛔' },
+      UNKNOWN: { label: 'Untriaged', hideWhenEmpty: false, priority: 5 },
+    })
+    const { container } = render(<SummaryCards findings={[]} severities={severities} />)
+
+    expect(screen.getByText('⛔ Blocker')).toBeInTheDocument()
+    expect(container.firstChild?.firstChild).toHaveTextContent('⚪ Untriaged')
+  })
+
+  it('shows counts per status when compared with a baseline', () => {
+    const findings = [
+      mockFinding({ status: 'new' }),
+      mockFinding({ status: 'new' }),
+      mockFinding({ status: 'existing' }),
+    ]
+    const { rerender } = render(<SummaryCards findings={findings} />)
+    expect(screen.queryByRole('region', { name: 'Changes' })).not.toBeInTheDocument()
+
+    rerender(
+      <SummaryCards
+        findings={findings}
+        baseline={{ scanDate: '2025-01-01T00:00:00Z', fixed: [mockFinding({ status: 'fixed' })] }}
+      />,
+    )
+
+    const changes = screen.getByRole('region', { name: 'Changes' })
+    expect(changes).toHaveTextContent('Compared with the baseline scan of')
+    expect(screen.getByText('🆕 New').closest('div')?.parentElement).toHaveTextContent('2')
+    expect(screen.getByText('📌 Existing').closest('div')?.parentElement).toHaveTextContent('1')
+    expect(screen.getByText('✅ Fixed').closest('div')?.parentElement).toHaveTextContent('1')
+  })
+})
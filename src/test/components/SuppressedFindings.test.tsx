@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen, within, mockFinding } from '../utils'
+import { SuppressedFindings } from '../../components/SuppressedFindings'
+import type { Suppression } from '../../types/ash'
+
+const suppression: Suppression = {
+  rule: 'CVE-2024-1234',
+  justification: 'Only used in tests',
+  owner: 'alice',
+  expires: '2099-01-01',
+}
+
+describe('SuppressedFindings', () => {
+  it('lists suppressed findings with their justification, owner and expiry', () => {
+    render(
+      <SuppressedFindings
+        suppressions={{
+          suppressed: [mockFinding({ message: 'Vulnerable lodash', suppression })],
+          expired: [],
+          unused: [],
+        }}
+      />,
+    )
+
+    const row = screen.getByText('Vulnerable lodash').closest('tr')!
+    expect(within(row).getByText('Only used in tests')).toBeInTheDocument()
+    expect(within(row).getByText('alice')).toBeInTheDocument()
+    expect(within(row).getByText('2099-01-01')).toBeInTheDocument()
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+  })
+
+  it('keeps each row with its finding when the list changes', () => {
+    const findings = ['Vulnerable lodash', 'Vulnerable axios'].map((message) => mockFinding({ message, suppression }))
+    const { rerender } = render(
+      <SuppressedFindings suppressions={{ suppressed: findings, expired: [], unused: [] }} />,
+    )
+    const row = screen.getByText('Vulnerable axios').closest('tr')
+
+    rerender(<SuppressedFindings suppressions={{ suppressed: [findings[1]], expired: [], unused: [] }} />)
+
+    expect(screen.getByText('Vulnerable axios').closest('tr')).toBe(row)
+  })
+
+  it('warns about expired suppressions and lists unused ones', () => {
+    render(
+      <SuppressedFindings
+        suppressions={{
+          suppressed: [],
+          expired: [{ ...suppression, expires: '2025-01-01' }],
+          unused: [{ ...suppression, tool: 'Checkov', rule: undefined }],
+        }}
+      />,
+    )
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      '1 suppression has expired; the findings they matched are reported again',
+    )
+    expect(screen.getByText('rule CVE-2024-1234')).toBeInTheDocument()
+    expect(screen.getByText('1 suppression matched no findings')).toBeInTheDocument()
+    expect(screen.getByText('tool Checkov')).toBeInTheDocument()
+    expect(screen.getByText('No findings are suppressed.')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen, within } from '../utils'
+import { TrendPanel } from '../../components/TrendPanel'
+import { resolveSeverityConfig } from '../../lib/utils'
+import type { Trend, TrendScan } from '../../types/ash'
+
+const counts = (critical: number, high: number, low: number) => ({
+  CRITICAL: critical,
+  HIGH: high,
+  MEDIUM: 0,
+  LOW: low,
+  INFO: 0,
+  UNKNOWN: 0,
+})
+
+const scans: TrendScan[] = [
+  { scanDate: '2025-01-01T12:00:00Z', total: 5, bySeverity: counts(2, 2, 1), byTool: { Grype: 2, Semgrep: 3 } },
+  { scanDate: '2025-01-03T12:00:00Z', total: 4, bySeverity: counts(1, 2, 1), byTool: { Grype: 1, Semgrep: 3 } },
+  { scanDate: '2025-01-08T12:00:00Z', total: 6, bySeverity: counts(0, 3, 3), byTool: { Semgrep: 4, Bandit: 2 } },
+]
+
+const trend: Trend = {
+  scans,
+  remediation: {
+    count: 3,
+    meanDays: 4.5,
+    bySeverity: { CRITICAL: { count: 2, meanDays: 4.5 }, HIGH: { count: 1, meanDays: 7 } },
+  },
+}
+
+const table = (name: string) => screen.getByRole('table', { name })
+
+// Horizontal positions of the first line's points
+const pointXs = (container: Element) =>
+  Array.from(container.querySelector('polyline')!.parentElement!.querySelectorAll('circle')).map((point) =>
+    Number(point.getAttribute('cx'))
+  )
+
+describe('TrendPanel', () => {
+  it('summarizes the latest scan and remediation', () => {
+    render(<TrendPanel trend={trend} />)
+
+    expect(screen.getByText('Trends')).toBeInTheDocument()
+    expect(screen.getByText(/^3 scans from/)).toBeInTheDocument()
+    expect(screen.getByText('+2 since the previous scan')).toBeInTheDocument()
+    expect(screen.getByText('Mean time to remediate').nextElementSibling).toHaveTextContent('4.5 days')
+    expect(screen.getByText('Remediated').nextElementSibling).toHaveTextContent('3')
+  })
+
+  it('charts the findings by severity', () => {
+    render(<TrendPanel trend={trend} />)
+
+    const rows = within(table('Findings by severity')).getAllByRole('row')
+    expect(rows[0]).toHaveTextContent('ScanCRITICALHIGHMEDIUMLOW')
+    expect(within(rows[1]).getAllByRole('cell').map((cell) => cell.textContent)).toEqual(['2', '2', '0', '1'])
+    expect(within(rows[3]).getAllByRole('cell').map((cell) => cell.textContent)).toEqual(['0', '3', '0', '3'])
+  })
+
+  it('charts the findings by tool, busiest first', () => {
+    render(<TrendPanel trend={trend} />)
+
+    const rows = within(table('Findings by tool')).getAllByRole('row')
+    expect(within(rows[0]).getAllByRole('columnheader').map((cell) => cell.textContent)).toEqual([
+      'Scan',
+      'Semgrep',
+      'Grype',
+      'Bandit',
+    ])
+    // Tools missing from a scan count as zero
+    expect(within(rows[1]).getAllByRole('cell').map((cell) => cell.textContent)).toEqual(['3', '2', '0'])
+  })
+
+  it('draws a line per series with a point per scan', () => {
+    const { container } = render(<TrendPanel trend={trend} />)
+
+    const lines = container.querySelectorAll('polyline')
+    expect(lines).toHaveLength(7)
+    expect(lines[0].getAttribute('points')!.split(' ')).toHaveLength(3)
+    expect(lines[0].parentElement).toHaveClass('stroke-red-600')
+  })
+
+  it('spaces the points by scan date', () => {
+    const { container } = render(<TrendPanel trend={trend} />)
+
+    const xs = pointXs(container)
+    // Two days, then five days later
+    expect((xs[1] - xs[0]) * 5).toBeCloseTo((xs[2] - xs[1]) * 2)
+  })
+
+  it('centers scans taken at the same time', () => {
+    const { container } = render(
+      <TrendPanel trend={{ scans: [scans[0], { ...scans[1], scanDate: scans[0].scanDate }], remediation: { count: 0, bySeverity: {} } }} />
+    )
+
+    const xs = pointXs(container)
+    expect(xs[0]).toBe(xs[1])
+  })
+
+  it('lists the mean time to remediate by severity', () => {
+    render(<TrendPanel trend={trend} />)
+
+    expect(screen.getByText('7 days (1 fixed)')).toBeInTheDocument()
+    expect(screen.getByText('4.5 days (2 fixed)')).toBeInTheDocument()
+  })
+
+  it('colors lines with configured severity colors', () => {
+    const severities = resolveSeverityConfig({ CRITICAL: { color: '#7c3aed' } })
+    const { container } = render(<TrendPanel trend={trend} severities={severities} />)
+
+    expect(container.querySelector('polyline')!.parentElement).toHaveStyle({ stroke: '#7c3aed' })
+  })
+
+  it('handles a single scan without remediation', () => {
+    render(
+      <TrendPanel trend={{ scans: [scans[0]], remediation: { count: 0, bySeverity: {} } }} />
+    )
+
+    expect(screen.getByText(/^1 scan from/)).toBeInTheDocument()
+    expect(screen.queryByText(/since the previous scan/)).not.toBeInTheDocument()
+    expect(screen.getByText('Mean time to remediate').nextElementSibling).toHaveTextContent('–')
+    expect(screen.queryByText('Mean time to remediate by severity')).not.toBeInTheDocument()
+  })
+})
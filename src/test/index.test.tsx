@@ -14,6 +14,11 @@ vi.mock('../App', () => ({
   default: () => <div data-testid="app">Mocked App</div>
 }))
 
+// Mock Site component
+vi.mock('../Site', () => ({
+  Site: () => <div data-testid="site">Mocked Site</div>
+}))
+
 // Mock CSS import
 vi.mock('../style.css', () => ({}))
 
@@ -88,6 +93,50 @@ describe('index.tsx', () => {
     })
   })
 
+  describe('Static Site Hydration', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    const siteRoot = () => {
+      const root = document.createElement('div')
+      root.id = 'app'
+      root.setAttribute('data-site', '/reports/')
+      const mockDocument = { getElementById: vi.fn().mockReturnValue(root) }
+      global.window = { document: mockDocument } as any
+      global.document = mockDocument as any
+      return root
+    }
+
+    it('fetches the report below the base and hydrates the site', async () => {
+      const root = siteRoot()
+      const report = { findings: [] }
+      const fetchMock = vi.fn().mockResolvedValue({ json: () => Promise.resolve(report) })
+      vi.stubGlobal('fetch', fetchMock)
+      
+      await import('../index')
+      
+      expect(fetchMock).toHaveBeenCalledWith('/reports/report.json')
+      await vi.waitFor(() => expect(mockHydrate).toHaveBeenCalledTimes(1))
+      const [vnode, target] = mockHydrate.mock.calls[0]
+      expect(vnode.props).toEqual({ report, base: '/reports/' })
+      expect(target).toBe(root)
+    })
+
+    it('logs an error when the report cannot be loaded', async () => {
+      siteRoot()
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')))
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      
+      await import('../index')
+      
+      await vi.waitFor(() => expect(consoleError).toHaveBeenCalled())
+      expect(consoleError.mock.calls[0][1]).toEqual(new Error('offline'))
+      expect(mockHydrate).not.toHaveBeenCalled()
+      consoleError.mockRestore()
+    })
+  })
+
   describe('Server-side Rendering (prerender)', () => {
     it('exports prerender function', async () => {
       const indexModule = await import('../index')
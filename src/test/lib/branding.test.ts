@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { brandingStyle, documentTitle, isCssColor, isImageDataUri, reportTitle } from '../../lib/branding'
+
+describe('titles', () => {
+  it('falls back to the default title', () => {
+    expect(reportTitle({})).toBe('ASH Security Report')
+    expect(reportTitle({ title: 'Payments' })).toBe('Payments')
+  })
+
+  it('prefixes the company name to the document title', () => {
+    expect(documentTitle({ title: 'Payments' })).toBe('Payments')
+    expect(documentTitle({ branding: { companyName: 'Acme Corp' } })).toBe('Acme Corp – ASH Security Report')
+  })
+})
+
+describe('isCssColor', () => {
+  it('accepts hex, named and functional colors', () => {
+    for (const color of ['#1d4ed8', '#fff', '#11223344', 'rebeccapurple', 'rgb(29 78 216 / 50%)', 'hsl(220deg, 80%, 48%)', 'oklch(0.5 0.2 260)']) {
+      expect(isCssColor(color)).toBe(true)
+    }
+  })
+
+  it('refuses values that are not plain colors', () => {
+    for (const color of ['#12345', 'url(https://example.com/x.png)', 'red; background: blue', 'rgb(var(--x))', '']) {
+      expect(isCssColor(color)).toBe(false)
+    }
+  })
+})
+
+describe('isImageDataUri', () => {
+  it('only accepts base64 image data URIs', () => {
+    expect(isImageDataUri('data:image/png;base64,iVBORw0KGgo=')).toBe(true)
+    expect(isImageDataUri('data:image/svg+xml;base64,PHN2Zz4=')).toBe(true)
+    expect(isImageDataUri('https://example.com/logo.png')).toBe(false)
+    expect(isImageDataUri('data:text/html;base64,PGgxPg==')).toBe(false)
+    expect(isImageDataUri('data:image/svg+xml,<svg onload="alert(1)">')).toBe(false)
+  })
+})
+
+describe('brandingStyle', () => {
+  it('sets the theme variables for the configured colors', () => {
+    expect(brandingStyle(undefined)).toBeUndefined()
+    expect(brandingStyle({ companyName: 'Acme Corp' })).toBeUndefined()
+    expect(brandingStyle({ accentColor: '#7c3aed', bannerColor: 'navy' })).toEqual({
+      '--color-accent': '#7c3aed',
+      '--color-accent-dark': 'color-mix(in srgb, #7c3aed 75%, black)',
+      '--color-banner': 'navy',
+    })
+  })
+})
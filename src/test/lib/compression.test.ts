@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest'
+import { gzipSync } from 'zlib'
+import { GZIP_BASE64, decodePayload } from '../../lib/compression'
+import { mockASHReport } from '../utils'
+
+const compress = (text: string) => gzipSync(text).toString('base64')
+
+describe('decodePayload', () => {
+  it('inflates gzip + base64 payloads', async () => {
+    const json = JSON.stringify(mockASHReport())
+    await expect(decodePayload(compress(json), GZIP_BASE64)).resolves.toBe(json)
+  })
+
+  it('ignores whitespace in the payload', async () => {
+    const payload = compress('{"findings":[]}').replace(/(.{8})/g, '$1\n  ')
+    await expect(decodePayload(payload, GZIP_BASE64)).resolves.toBe('{"findings":[]}')
+  })
+
+  it('reports progress through the compressed input', async () => {
+    // Random text barely compresses, so the payload spans several chunks
+    const text = Array.from({ length: 200_000 }, () => Math.random().toString(36)[2]).join('')
+    const onProgress = vi.fn()
+
+    await expect(decodePayload(compress(text), GZIP_BASE64, onProgress)).resolves.toBe(text)
+
+    const fractions = onProgress.mock.calls.map(([fraction]) => fraction)
+    expect(fractions.length).toBeGreaterThan(1)
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b))
+    expect(fractions[fractions.length - 1]).toBe(1)
+  })
+
+  it('rejects unknown encodings', async () => {
+    await expect(decodePayload('abc', 'brotli')).rejects.toThrow('Unsupported report encoding "brotli"')
+  })
+
+  it('rejects corrupt payloads', async () => {
+    await expect(decodePayload(btoa('not gzip'), GZIP_BASE64)).rejects.toThrow()
+  })
+
+  it('explains when the browser cannot decompress', async () => {
+    vi.stubGlobal('DecompressionStream', undefined)
+    await expect(decodePayload(compress('{}'), GZIP_BASE64)).rejects.toThrow('DecompressionStream is not supported')
+    vi.unstubAllGlobals()
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { compareToBaseline, diffReports, statusCounts } from '../../lib/diff'
+import { mockASHReport, mockFinding } from '../utils'
+
+describe('diffReports', () => {
+  const kept = mockFinding({ message: 'Kept', location: 'a.js', lineNumber: 3 })
+  const fixed = mockFinding({ message: 'Fixed' })
+  const added = mockFinding({ message: 'Added' })
+
+  it('splits findings into added, fixed and unchanged', () => {
+    const diff = diffReports(
+      mockASHReport({ findings: [kept, fixed] }),
+      mockASHReport({ findings: [{ ...kept, lineNumber: 30 }, added] }),
+    )
+
+    expect(diff.added.map(f => f.message)).toEqual(['Added'])
+    expect(diff.fixed.map(f => f.message)).toEqual(['Fixed'])
+    expect(diff.unchanged).toEqual([expect.objectContaining({ message: 'Kept', lineNumber: 30 })])
+  })
+
+  it('treats repeated findings as separate occurrences', () => {
+    const diff = diffReports(
+      mockASHReport({ findings: [kept] }),
+      mockASHReport({ findings: [kept, { ...kept, lineNumber: 9 }] }),
+    )
+
+    expect(diff.added).toEqual([expect.objectContaining({ lineNumber: 9 })])
+    expect(diff.unchanged).toHaveLength(1)
+  })
+
+  it('keeps existing occurrences when a new one is added above them', () => {
+    const diff = diffReports(
+      mockASHReport({ findings: [{ ...kept, lineNumber: 10 }, { ...kept, lineNumber: 20 }] }),
+      mockASHReport({ findings: [{ ...kept, lineNumber: 2 }, { ...kept, lineNumber: 11 }, { ...kept, lineNumber: 21 }] }),
+    )
+
+    expect(diff.added).toEqual([expect.objectContaining({ lineNumber: 2 })])
+    expect(diff.fixed).toEqual([])
+  })
+
+  it('matches a merged multi-project scan against a single-project baseline', () => {
+    const diff = diffReports(
+      mockASHReport({ findings: [kept, fixed] }),
+      mockASHReport({ findings: [{ ...kept, project: 'api' }] }),
+    )
+
+    expect(diff.added).toEqual([])
+    expect(diff.fixed.map(f => f.message)).toEqual(['Fixed'])
+  })
+})
+
+describe('compareToBaseline', () => {
+  const kept = mockFinding({ message: 'Kept' })
+  const fixed = mockFinding({ message: 'Fixed' })
+  const added = mockFinding({ message: 'Added' })
+  const baseline = mockASHReport({
+    findings: [kept, fixed],
+    metadata: { scanDate: '2025-01-01T00:00:00Z', totalFindings: 2, tools: ['Grype'] },
+  })
+
+  it('marks findings as new or existing and embeds the fixed ones', () => {
+    const report = compareToBaseline(mockASHReport({ findings: [added, kept] }), baseline)
+
+    expect(report.findings.map(f => [f.message, f.status])).toEqual([['Added', 'new'], ['Kept', 'existing']])
+    expect(report.findings.every(f => f.fingerprint)).toBe(true)
+    expect(report.baseline).toEqual({
+      scanDate: '2025-01-01T00:00:00Z',
+      fixed: [expect.objectContaining({ message: 'Fixed', status: 'fixed' })],
+    })
+    expect(statusCounts(report)).toEqual({ new: 1, existing: 1, fixed: 1 })
+  })
+
+  it('counts nothing for reports without a baseline', () => {
+    expect(statusCounts({ findings: [] })).toEqual({ new: 0, existing: 0, fixed: 0 })
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { exporters, isExportFormat } from '../../lib/export'
+import { mockASHReport } from '../utils'
+
+describe('exporters', () => {
+  it('exports pretty-printed JSON', () => {
+    const report = mockASHReport()
+    const json = exporters.json(report)
+
+    expect(JSON.parse(json)).toEqual(report)
+    expect(json).toMatch(/^{\n  "findings"/)
+  })
+
+  it('exports a Markdown summary', () => {
+    expect(exporters.markdown(mockASHReport())).toMatch(/^## ASH Security Report\n/)
+  })
+
+  it('passes the threshold on to JUnit', () => {
+    expect(exporters.junit(mockASHReport(), { threshold: 'CRITICAL' })).toContain('failures="1"')
+  })
+
+  it('recognizes export formats', () => {
+    expect(isExportFormat('json')).toBe(true)
+    expect(isExportFormat('markdown')).toBe(true)
+    expect(isExportFormat('junit')).toBe(true)
+    expect(isExportFormat('csv')).toBe(true)
+    expect(isExportFormat('sarif')).toBe(true)
+    expect(isExportFormat('yaml')).toBe(false)
+    expect(isExportFormat('toString')).toBe(false)
+  })
+})
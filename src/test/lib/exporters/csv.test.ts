@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { toCsv } from '../../../lib/exporters/csv'
+import { mockASHReport, mockFinding } from '../../utils'
+
+describe('toCsv', () => {
+  it('writes a header with every finding field and CRLF line endings', () => {
+    const csv = toCsv(mockASHReport({ findings: [mockFinding({ lineNumber: 7, score: 9.8 })] }))
+
+    expect(csv).toBe(
+      'tool,severity,ruleId,message,location,lineNumber,description,recommendation,pattern,cve,score,project,fingerprint,status,suppression,redacted\r\n' +
+      'Grype,HIGH,,Test vulnerability,package.json,7,Test description,Test recommendation,,,9.8,,,,,\r\n',
+    )
+  })
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const csv = toCsv(mockASHReport({
+      findings: [mockFinding({ message: 'Use "safe" APIs, please', description: 'line one\nline two' })],
+    }))
+
+    expect(csv).toContain(',"Use ""safe"" APIs, please",')
+    expect(csv).toContain(',"line one\nline two",')
+  })
+
+  it('keeps spreadsheets from evaluating text as formulas', () => {
+    const csv = toCsv(mockASHReport({ findings: [mockFinding({ message: '=HYPERLINK("http://x")' })] }))
+
+    expect(csv).toContain(',"\'=HYPERLINK(""http://x"")",')
+  })
+
+  it('describes the expired suppression of a resurfaced finding', () => {
+    const csv = toCsv(mockASHReport({
+      findings: [mockFinding({ suppression: { rule: 'CVE-1', justification: 'Not reachable', owner: 'alice', expires: '2025-01-01' } })],
+    }))
+
+    expect(csv).toContain(',"Not reachable (alice, expires 2025-01-01)",\r\n')
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { toJUnit } from '../../../lib/exporters/junit'
+import { mockASHReport, mockFinding } from '../../utils'
+
+const parse = (xml: string) => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml')
+  expect(document.querySelector('parsererror')).toBeNull()
+  return document
+}
+
+describe('toJUnit', () => {
+  it('has a test suite per tool and a test case per finding', () => {
+    const document = parse(toJUnit(mockASHReport()))
+
+    const root = document.documentElement
+    expect(root.tagName).toBe('testsuites')
+    expect(root.getAttribute('tests')).toBe('4')
+    expect(root.getAttribute('failures')).toBe('4')
+
+    const suites = [...document.querySelectorAll('testsuite')]
+    expect(suites.map(suite => [suite.getAttribute('name'), suite.getAttribute('tests')])).toEqual([
+      ['Grype', '2'],
+      ['git-secrets', '1'],
+      ['Semgrep', '1'],
+      ['CDK-nag', '0'],
+    ])
+    expect(suites[0].getAttribute('timestamp')).toBe('2025-01-15T10:30:00Z')
+  })
+
+  it('names the run after the branded title', () => {
+    const document = parse(toJUnit(mockASHReport({ title: 'Payments', branding: { companyName: 'Acme Corp' } })))
+    expect(document.documentElement.getAttribute('name')).toBe('Acme Corp – Payments')
+  })
+
+  it('fails findings at or above the threshold and skips the rest', () => {
+    const document = parse(toJUnit(mockASHReport(), { threshold: 'HIGH' }))
+
+    expect(document.documentElement.getAttribute('failures')).toBe('2')
+    expect(document.documentElement.getAttribute('skipped')).toBe('2')
+    const failure = document.querySelector('failure')!
+    expect(failure.getAttribute('type')).toBe('CRITICAL')
+    expect(failure.closest('testcase')?.getAttribute('classname')).toBe('package.json')
+    expect(failure.textContent).toContain('Severity: CRITICAL')
+    expect(failure.textContent).toContain('CVE: CVE-2024-1234')
+    expect(document.querySelector('skipped')?.getAttribute('message')).toBe('Below the HIGH threshold')
+  })
+
+  it('escapes markup and drops characters XML cannot hold', () => {
+    const xml = toJUnit(mockASHReport({
+      findings: [mockFinding({ ruleId: 'R1', message: '<script>"x" & \'y\'\u0007</script>' })],
+    }))
+    const testcase = parse(xml).querySelector('testcase')!
+
+    expect(testcase.getAttribute('name')).toBe('R1: <script>"x" & \'y\'</script>')
+    expect(xml).not.toContain('<script>')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { toMarkdown } from '../../../lib/exporters/markdown'
+import { mockASHReport, mockFinding } from '../../utils'
+
+describe('toMarkdown', () => {
+  it('summarizes counts, top findings and a section per tool', () => {
+    const markdown = toMarkdown(mockASHReport({ title: 'Payments API' }))
+
+    expect(markdown).toContain('## Payments API')
+    expect(markdown).toContain('**4 findings** from Grype, git-secrets, Semgrep, CDK-nag, scanned 2025-01-15T10:30:00Z')
+    expect(markdown).toContain('| 🔴 CRITICAL | 1 |')
+    expect(markdown).not.toContain('INFORMATIONAL')
+    expect(markdown).toContain('### Top findings')
+    expect(markdown).toContain('| 🔴 CRITICAL | Grype | package.json | Critical vulnerability CVE-2024-1234 |')
+    expect(markdown).toContain('<details><summary>Grype (2)</summary>')
+    expect(markdown).toContain('| 🟠 HIGH | package.json:42 | AWS secret detected |')
+    expect(markdown).not.toContain('more findings')
+  })
+
+  it('lists top findings most severe first, up to the limit', () => {
+    const markdown = toMarkdown(
+      mockASHReport({
+        findings: [
+          mockFinding({ severity: 'LOW', message: 'Low one' }),
+          mockFinding({ severity: 'CRITICAL', message: 'Critical one' }),
+          mockFinding({ severity: 'MEDIUM', message: 'Medium one' }),
+        ],
+      }),
+      { top: 2 },
+    )
+    const top = markdown.slice(markdown.indexOf('### Top findings'), markdown.indexOf('<details>'))
+
+    expect(top.indexOf('Critical one')).toBeLessThan(top.indexOf('Medium one'))
+    expect(top).not.toContain('Low one')
+  })
+
+  it('escapes scanner text so it cannot break the table or inject HTML', () => {
+    const markdown = toMarkdown(mockASHReport({
+      findings: [mockFinding({ message: 'a | b\n<img src=x onerror=alert(1)> `code`', location: 'src/my_file.py' })],
+    }))
+
+    expect(markdown).toContain('| src/my\\_file.py | a \\| b &lt;img src=x onerror=alert(1)&gt; \\`code\\` |')
+  })
+
+  it('escapes tool names as HTML in the section summaries', () => {
+    const markdown = toMarkdown(mockASHReport({ findings: [mockFinding({ tool: 'cdk_nag <v2> & co' })] }))
+
+    expect(markdown).toContain('<details><summary>cdk_nag &lt;v2&gt; &amp; co (1)</summary>')
+  })
+
+  it('includes the gate result and new findings from a baseline', () => {
+    const markdown = toMarkdown(mockASHReport({
+      findings: [
+        mockFinding({ severity: 'CRITICAL', message: 'Old critical', status: 'existing' }),
+        mockFinding({ message: 'Introduced', status: 'new' }),
+      ],
+      gate: { passed: false, thresholds: [{ label: 'HIGH or above', count: 2, limit: 0 }, { label: 'Grype', count: 2, limit: 5 }] },
+      baseline: { scanDate: '2025-01-01T00:00:00Z', fixed: [mockFinding({ status: 'fixed' })] },
+    }))
+    const top = markdown.slice(markdown.indexOf('### Top new findings'), markdown.indexOf('<details>'))
+
+    expect(markdown).toContain('**Quality gate: ❌ FAIL** (HIGH or above: 2 (max 0))')
+    expect(markdown).toContain('**Changes:** 🆕 1 new · 📌 1 existing · ✅ 1 fixed')
+    expect(top).toContain('Introduced')
+    expect(top).not.toContain('Old critical')
+  })
+
+  it('counts suppressed findings and expired suppressions', () => {
+    const suppression = { rule: 'CVE-1', justification: 'Not reachable', owner: 'alice', expires: '2025-01-01' }
+    const markdown = toMarkdown(mockASHReport({
+      suppressions: { suppressed: [mockFinding(), mockFinding()], expired: [suppression], unused: [] },
+    }))
+
+    expect(markdown).toContain('**Suppressed:** 2 findings (⚠️ 1 expired suppression)')
+  })
+
+  it('leaves out per-tool rows to stay under the length limit', () => {
+    const findings = Array.from({ length: 500 }, (_, i) => mockFinding({ message: `Finding number ${i}`, location: `src/file${i}.js` }))
+    const markdown = toMarkdown(mockASHReport({ findings }), { maxLength: 5000 })
+
+    expect(markdown.length).toBeLessThanOrEqual(5000)
+    expect(markdown).toMatch(/_\d+ more findings are in the full report\._\n$/)
+    expect(markdown).toContain('</details>')
+  })
+  it('brands the heading and repeats the classification at the end', () => {
+    const findings = Array.from({ length: 500 }, (_, i) => mockFinding({ message: `Finding number ${i}` }))
+    const markdown = toMarkdown(mockASHReport({
+      findings,
+      branding: { companyName: 'Acme Corp', classification: 'CONFIDENTIAL', footer: 'Internal use only' },
+    }), { maxLength: 5000 })
+
+    expect(markdown).toMatch(/^\*\*CONFIDENTIAL\*\*\n\n## Acme Corp – ASH Security Report\n/)
+    expect(markdown).toMatch(/full report\._\n\n_Internal use only_\n\n\*\*CONFIDENTIAL\*\*\n$/)
+    expect(markdown.length).toBeLessThanOrEqual(5000)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { createRequire } from 'module'
+import Ajv from 'ajv'
+import { toSarif } from '../../../lib/exporters/sarif'
+import { importSarifLog } from '../../../lib/importers/sarif'
+import { fingerprintFindings } from '../../../lib/fingerprint'
+import { loadFixture, mockASHReport, mockFinding } from '../../utils'
+
+// The OASIS SARIF 2.1.0 schema is written against JSON Schema draft-04
+const ajv = new Ajv({ schemaId: 'id', meta: false, allErrors: true })
+ajv.addMetaSchema(createRequire(import.meta.url)('ajv/lib/refs/json-schema-draft-04.json'))
+const validateSarif = ajv.compile(loadFixture('sarif/sarif-schema-2.1.0.json'))
+
+const expectValidSarif = (log: unknown) => {
+  validateSarif(log)
+  expect(validateSarif.errors ?? []).toEqual([])
+}
+
+describe('toSarif', () => {
+  const report = mockASHReport({
+    findings: [
+      mockFinding({ tool: 'Grype', severity: 'CRITICAL', ruleId: 'CVE-2024-1234', cve: 'CVE-2024-1234', message: 'lodash is vulnerable', location: 'package-lock.json' }),
+      mockFinding({ tool: 'Grype', severity: 'MEDIUM', ruleId: 'CVE-2024-1234', message: 'lodash copy is vulnerable', location: 'vendor/package lock.json', score: 6.1 }),
+      mockFinding({ tool: 'Bandit', severity: 'LOW', ruleId: 'B101', message: 'assert used', location: 'app/main.py', lineNumber: 12, status: 'new' }),
+      mockFinding({ tool: 'Bandit', severity: 'INFO', message: 'No rule', location: 'app/util.py', status: 'existing' }),
+    ],
+    metadata: { scanDate: '2025-01-15T10:30:00Z', totalFindings: 4, tools: ['Grype', 'Bandit', 'Checkov'] },
+  })
+
+  it('writes a log that is valid against the SARIF 2.1.0 schema', () => {
+    const log = JSON.parse(toSarif(report))
+
+    expect(log.version).toBe('2.1.0')
+    expectValidSarif(log)
+    expect(validateSarif({ ...log, runs: [{ results: [] }] })).toBe(false)
+  })
+
+  it('records the report classification on the log', () => {
+    const log = JSON.parse(toSarif({ ...report, branding: { classification: 'CONFIDENTIAL' } }))
+
+    expectValidSarif(log)
+    expect(log.properties).toEqual({ classification: 'CONFIDENTIAL' })
+    expect(JSON.parse(toSarif(report))).not.toHaveProperty('properties')
+  })
+
+  it('has a run per tool with each rule listed once', () => {
+    const { runs } = JSON.parse(toSarif(report))
+
+    expect(runs.map((run: any) => run.tool.driver.name)).toEqual(['Grype', 'Bandit', 'Checkov'])
+    const [grype, bandit, checkov] = runs
+    expect(grype.tool.driver.rules.map((rule: any) => rule.id)).toEqual(['CVE-2024-1234'])
+    expect(grype.results.map((result: any) => result.ruleIndex)).toEqual([0, 0])
+    expect(bandit.tool.driver.rules.map((rule: any) => rule.id)).toEqual(['B101', 'finding'])
+    expect(checkov.results).toEqual([])
+    expect(grype.invocations).toEqual([{ executionSuccessful: true, startTimeUtc: '2025-01-15T10:30:00Z' }])
+  })
+
+  it('maps severities to levels and security-severity scores', () => {
+    const [grype, bandit] = JSON.parse(toSarif(report)).runs
+
+    expect([...grype.results, ...bandit.results].map((result: any) => result.level)).toEqual(['error', 'warning', 'note', 'note'])
+    // The highest score of a rule's findings, defaulting by severity
+    expect(grype.tool.driver.rules[0].properties['security-severity']).toBe('9.5')
+    expect(grype.results[1].properties['security-severity']).toBe('6.1')
+    expect(bandit.tool.driver.rules[0].properties['security-severity']).toBe('2.0')
+    expect(bandit.tool.driver.rules[1].properties['security-severity']).toBeUndefined()
+  })
+
+  it('writes locations, fingerprints and baseline states', () => {
+    const [grype, bandit] = JSON.parse(toSarif(report)).runs
+    const [fingerprinted] = fingerprintFindings(report.findings)
+
+    expect(grype.results[0].partialFingerprints).toEqual({ 'ashFingerprint/v1': fingerprinted.fingerprint })
+    expect(grype.results[1].locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'vendor/package%20lock.json' } })
+    expect(bandit.results[0].locations[0].physicalLocation.region).toEqual({ startLine: 12 })
+    expect(bandit.results.map((result: any) => result.baselineState)).toEqual(['new', 'unchanged'])
+    expect(grype.results[0].baselineState).toBeUndefined()
+  })
+
+  it('reads back with the same findings and fingerprints', () => {
+    const reimported = importSarifLog(JSON.parse(toSarif(report)))
+
+    expect(reimported.findings.map(f => [f.tool, f.severity, f.location, f.lineNumber, f.message, f.fingerprint])).toEqual(
+      fingerprintFindings(report.findings).map(f => [f.tool, f.severity, f.location, f.lineNumber, f.message, f.fingerprint]),
+    )
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { fingerprintFinding, fingerprintFindings, matchFindings } from '../../lib/fingerprint'
+import { mockFinding } from '../utils'
+
+describe('fingerprints', () => {
+  const finding = mockFinding({
+    tool: 'Semgrep',
+    ruleId: 'python.lang.security.audit.eval',
+    message: 'Detected eval() on line 42',
+    location: 'src/app.py',
+    lineNumber: 42,
+  })
+
+  describe('fingerprintFinding', () => {
+    it('is deterministic', () => {
+      expect(fingerprintFinding(finding)).toBe(fingerprintFinding({ ...finding }))
+      expect(fingerprintFinding(finding)).toMatch(/^[0-9a-f]{14}$/)
+    })
+
+    it('survives the finding moving to another line', () => {
+      const moved = { ...finding, lineNumber: 57, message: 'Detected eval() on line 57' }
+      expect(fingerprintFinding(moved)).toBe(fingerprintFinding(finding))
+    })
+
+    it('ignores path spelling and line suffixes in the location', () => {
+      expect(fingerprintFinding({ ...finding, location: './src\\app.py:42' })).toBe(fingerprintFinding(finding))
+    })
+
+    it('changes with the tool, rule, file or message', () => {
+      const original = fingerprintFinding(finding)
+
+      expect(fingerprintFinding({ ...finding, tool: 'Bandit' })).not.toBe(original)
+      expect(fingerprintFinding({ ...finding, ruleId: 'other' })).not.toBe(original)
+      expect(fingerprintFinding({ ...finding, location: 'src/other.py' })).not.toBe(original)
+      expect(fingerprintFinding({ ...finding, message: 'Detected exec()' })).not.toBe(original)
+    })
+
+    it('leaves out the project so merged scans match single ones', () => {
+      expect(fingerprintFinding({ ...finding, project: 'api' })).toBe(fingerprintFinding(finding))
+    })
+
+    it('falls back to the CVE or pattern when there is no rule', () => {
+      const { ruleId: _, ...withoutRule } = finding
+      const base = fingerprintFinding(withoutRule)
+
+      expect(fingerprintFinding({ ...withoutRule, cve: 'CVE-2024-1234' })).not.toBe(base)
+      expect(fingerprintFinding({ ...withoutRule, pattern: 'AWS Access Key' })).not.toBe(base)
+    })
+  })
+
+  describe('fingerprintFindings', () => {
+    it('gives repeated findings the same fingerprint', () => {
+      const findings = fingerprintFindings([
+        { ...finding, lineNumber: 90 },
+        { ...finding, lineNumber: 10 },
+        mockFinding({ message: 'Something else' }),
+      ])
+      const base = fingerprintFinding(finding)
+
+      expect(findings.map(f => f.fingerprint)).toEqual([
+        base,
+        base,
+        fingerprintFinding(mockFinding({ message: 'Something else' })),
+      ])
+    })
+
+    it('leaves existing fingerprints alone', () => {
+      const findings = fingerprintFindings([{ ...finding, fingerprint: 'kept' }, finding])
+      expect(findings.map(f => f.fingerprint)).toEqual(['kept', fingerprintFinding(finding)])
+    })
+  })
+  describe('matchFindings', () => {
+    const at = (lineNumber: number, extra = {}) =>
+      fingerprintFindings([{ ...finding, lineNumber, ...extra }])[0]
+
+    it('pairs findings with the same fingerprint', () => {
+      const other = fingerprintFindings([mockFinding({ message: 'Other' })])[0]
+      const before = [at(42), other]
+      const after = [at(57)]
+
+      const match = matchFindings(before, after)
+
+      expect(match.matched).toEqual([[before[0], after[0]]])
+      expect(match.added).toEqual([])
+      expect(match.removed).toEqual([other])
+    })
+
+    it('reports a new occurrence above existing ones as the added one', () => {
+      const before = [at(10), at(20)]
+      const after = [at(3), at(11), at(21)]
+
+      const match = matchFindings(before, after)
+
+      expect(match.added).toEqual([after[0]])
+      expect(match.matched).toEqual([[before[0], after[1]], [before[1], after[2]]])
+    })
+
+    it('only pairs findings of different projects when one has none', () => {
+      const match = matchFindings([at(42, { project: 'api' }), at(42)], [at(42, { project: 'web' }), at(42, { project: 'api' })])
+
+      expect(match.matched.map(([before, after]) => [before.project, after.project])).toEqual([
+        [undefined, 'web'],
+        ['api', 'api'],
+      ])
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateGate, gateViolations, hasGate } from '../../lib/gate'
+import { mockASHReport, mockFinding } from '../utils'
+
+describe('evaluateGate', () => {
+  // CRITICAL and LOW from Grype, HIGH from git-secrets, MEDIUM from Semgrep
+  const report = mockASHReport()
+
+  it('fails on findings at or above the --fail-on severity', () => {
+    expect(evaluateGate(report, { failOn: 'HIGH' })).toEqual({
+      passed: false,
+      thresholds: [{ label: 'HIGH or above', count: 2, limit: 0 }],
+    })
+    expect(evaluateGate(mockASHReport({ findings: [mockFinding({ severity: 'LOW' })] }), { failOn: 'HIGH' }).passed).toBe(true)
+  })
+
+  it('checks maximum counts per severity and tool', () => {
+    const gate = evaluateGate(report, { max: { medium: 1, grype: 1, Semgrep: 5 } })
+
+    expect(gate.thresholds).toEqual([
+      { label: 'MEDIUM', count: 1, limit: 1 },
+      { label: 'grype', count: 2, limit: 1 },
+      { label: 'Semgrep', count: 1, limit: 5 },
+    ])
+    expect(gate.passed).toBe(false)
+    expect(gateViolations(gate)).toEqual([{ label: 'grype', count: 2, limit: 1 }])
+  })
+
+  it('orders and labels severities with the report configuration', () => {
+    const gate = evaluateGate(
+      mockASHReport({ severityConfig: { LOW: { label: 'Minor', priority: 5 } } }),
+      { failOn: 'CRITICAL', max: { LOW: 0 } },
+    )
+
+    expect(gate.thresholds).toEqual([
+      { label: 'CRITICAL or above', count: 2, limit: 0 },
+      { label: 'Minor', count: 1, limit: 0 },
+    ])
+  })
+
+  it('knows when no thresholds are set', () => {
+    expect(hasGate({})).toBe(false)
+    expect(hasGate({ max: {} })).toBe(false)
+    expect(hasGate({ max: { HIGH: 0 } })).toBe(true)
+    expect(evaluateGate(report, {})).toEqual({ passed: true, thresholds: [] })
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { globError, globToRegExp, isGlob, matchesGlob } from '../../lib/glob'
+
+describe('glob', () => {
+  it('matches * within a single segment', () => {
+    expect(matchesGlob('src/app.js', 'src/*.js')).toBe(true)
+    expect(matchesGlob('src/lib/app.js', 'src/*.js')).toBe(false)
+  })
+
+  it('matches ** across directories', () => {
+    expect(matchesGlob('src/app.js', 'src/**/*.js')).toBe(true)
+    expect(matchesGlob('src/lib/deep/app.js', 'src/**/*.js')).toBe(true)
+    expect(matchesGlob('test/app.js', 'src/**')).toBe(false)
+    expect(matchesGlob('scans/api/aggregated_results.json', '**/aggregated_results.json')).toBe(true)
+  })
+
+  it('matches ? and alternatives', () => {
+    expect(matchesGlob('a1.json', 'a?.json')).toBe(true)
+    expect(matchesGlob('scan.sarif', '*.{json,sarif}')).toBe(true)
+    expect(matchesGlob('scan.txt', '*.{json,sarif}')).toBe(false)
+  })
+
+  it('expands wildcards inside alternatives', () => {
+    expect(matchesGlob('src/lib/app.ts', 'src/**/{*.js,*.ts}')).toBe(true)
+    expect(matchesGlob('src/app.css', 'src/**/{*.js,*.ts}')).toBe(false)
+    expect(matchesGlob('b1', '{a?,b?}')).toBe(true)
+    expect(matchesGlob('aa?', '{a?,b}')).toBe(false)
+    expect(matchesGlob('src/x.tsx', 'src/*.{js,ts{,x}}')).toBe(true)
+  })
+
+  it('rejects unclosed alternatives', () => {
+    expect(() => globToRegExp('src/{a,b')).toThrow('Glob "src/{a,b" has an unclosed "{"')
+    expect(globError('src/{a,b')).toBe('has an unclosed "{"')
+    expect(globError('src/{a,b}')).toBeNull()
+  })
+
+  it('treats regex characters literally', () => {
+    expect(globToRegExp('a+b(1).js').test('a+b(1).js')).toBe(true)
+    expect(matchesGlob('axjs', 'a.js')).toBe(false)
+  })
+
+  it('normalizes the matched path', () => {
+    expect(matchesGlob('./src\\app.js', 'src/*.js')).toBe(true)
+  })
+
+  it('detects glob patterns', () => {
+    expect(isGlob('scans/**/*.json')).toBe(true)
+    expect(isGlob('scans/api.json')).toBe(false)
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { importAshAggregatedResults, isAshAggregatedResults } from '../../../lib/importers/ash'
+import { loadFixture } from '../../utils'
+
+describe('ASH aggregated results', () => {
+  const results = loadFixture('ash/aggregated_results.json')
+
+  it('recognizes aggregated results', () => {
+    expect(isAshAggregatedResults(results)).toBe(true)
+    expect(isAshAggregatedResults({ findings: [] })).toBe(false)
+    expect(isAshAggregatedResults(null)).toBe(false)
+  })
+
+  it('imports findings from every wrapped scanner', () => {
+    const report = importAshAggregatedResults(results)
+    const tools = new Set(report.findings.map(f => f.tool))
+
+    expect(report.findings).toHaveLength(15)
+    expect([...tools]).toEqual(['Bandit', 'Semgrep', 'Grype', 'Checkov', 'cfn-nag', 'CDK-nag', 'detect-secrets'])
+  })
+
+  it('builds metadata from the ASH run', () => {
+    expect(importAshAggregatedResults(results).metadata).toEqual({
+      scanDate: '2025-01-15T10:30:00+00:00',
+      totalFindings: 15,
+      tools: ['Bandit', 'Semgrep', 'Grype', 'Checkov', 'cfn-nag', 'CDK-nag', 'detect-secrets', 'syft'],
+      duration: 127.4,
+      version: '3.0.0',
+      project: 'sample-service',
+    })
+  })
+
+  it('reports scanner reports it cannot read instead of dropping their findings', () => {
+    const warnings: string[] = []
+    const { bandit } = results.additional_reports
+    const grype = structuredClone(results.additional_reports.grype)
+    delete grype.descriptor
+    grype.matches[0] = null
+    const report = importAshAggregatedResults(
+      { ...results, additional_reports: { ...results.additional_reports, bandit: { report: bandit }, grype } },
+      (path, message) => warnings.push(`${path}: ${message}`)
+    )
+
+    expect(report.findings).toHaveLength(10)
+    expect(warnings).toEqual([
+      'additional_reports.bandit: Not a Bandit report; its findings were not imported',
+      'scanner_results.bandit.finding_count: ASH counted 2 findings from bandit but 0 were imported',
+      'additional_reports.grype: Not a Grype report; its findings were not imported',
+      'scanner_results.grype.finding_count: ASH counted 3 findings from grype but 0 were imported',
+    ])
+  })
+
+  it('reports scanners ASH found findings in that cannot be imported', () => {
+    const warnings: string[] = []
+    importAshAggregatedResults(
+      { scanner_results: { trivy: { status: 'FAILED', finding_count: 4 } } },
+      (path, message) => warnings.push(`${path}: ${message}`)
+    )
+
+    expect(warnings).toEqual([
+      'scanner_results.trivy.finding_count: ASH counted 4 findings from trivy but 0 were imported',
+    ])
+  })
+
+  it('lists scanners that produced no report', () => {
+    const report = importAshAggregatedResults({ scanner_results: { bandit: { status: 'PASSED' } } })
+
+    expect(report.findings).toEqual([])
+    expect(report.metadata.tools).toEqual(['Bandit'])
+  })
+})
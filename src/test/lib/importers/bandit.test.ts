@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { parseBandit } from '../../../lib/importers/bandit'
+import { loadFixture } from '../../utils'
+
+describe('parseBandit', () => {
+  const findings = parseBandit(loadFixture('scanners/bandit.json'))
+
+  it('creates one finding per result', () => {
+    expect(findings).toHaveLength(2)
+  })
+
+  it('maps result fields onto the finding', () => {
+    expect(findings[0]).toEqual({
+      tool: 'Bandit',
+      severity: 'HIGH',
+      ruleId: 'B602',
+      message: 'subprocess call with shell=True identified, security issue.',
+      location: 'app/tasks.py',
+      lineNumber: 12,
+      description: 'subprocess_popen_with_shell_equals_true (CWE-78)',
+      recommendation: expect.stringContaining('b602_subprocess_popen_with_shell_equals_true.html'),
+    })
+  })
+
+  it('keeps the issue severity', () => {
+    expect(findings[1].severity).toBe('LOW')
+  })
+
+  it('handles reports without results', () => {
+    expect(parseBandit({})).toEqual([])
+  })
+})
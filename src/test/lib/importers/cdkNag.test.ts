@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { parseCdkNag } from '../../../lib/importers/cdkNag'
+import { loadFixture } from '../../utils'
+
+describe('parseCdkNag', () => {
+  const findings = parseCdkNag(loadFixture('scanners/cdk-nag.json'))
+
+  it('skips compliant resources', () => {
+    expect(findings.map(f => f.ruleId)).toEqual(['AwsSolutions-S1', 'AwsSolutions-IAM5'])
+  })
+
+  it('maps rule levels to severities', () => {
+    expect(findings[0]).toMatchObject({
+      tool: 'CDK-nag',
+      severity: 'HIGH',
+      location: 'StorageStack/ReportsBucket/Resource',
+      message: 'The S3 Bucket has server access logs disabled.',
+    })
+    expect(findings[1].severity).toBe('MEDIUM')
+  })
+})
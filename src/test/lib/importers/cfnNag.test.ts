@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { parseCfnNag } from '../../../lib/importers/cfnNag'
+import { loadFixture } from '../../utils'
+
+describe('parseCfnNag', () => {
+  const findings = parseCfnNag(loadFixture('scanners/cfn-nag.json'))
+
+  it('creates one finding per violation', () => {
+    expect(findings).toHaveLength(2)
+  })
+
+  it('maps violation types to severities', () => {
+    expect(findings.map(f => f.severity)).toEqual(['HIGH', 'MEDIUM'])
+  })
+
+  it('lists the affected resources', () => {
+    expect(findings[1]).toMatchObject({
+      tool: 'cfn-nag',
+      ruleId: 'W35',
+      location: 'templates/storage.yaml',
+      lineNumber: 7,
+      description: 'Affected resources: PublicBucket, ArchiveBucket',
+    })
+  })
+})
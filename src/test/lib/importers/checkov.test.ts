@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { parseCheckov } from '../../../lib/importers/checkov'
+import { loadFixture } from '../../utils'
+
+describe('parseCheckov', () => {
+  const report = loadFixture('scanners/checkov.json')
+
+  it('collects failed checks from every framework', () => {
+    const findings = parseCheckov(report)
+
+    expect(findings).toHaveLength(2)
+    expect(findings[0]).toMatchObject({
+      tool: 'Checkov',
+      severity: 'UNKNOWN',
+      ruleId: 'CKV_AWS_18',
+      message: 'Ensure the S3 bucket has access logging enabled',
+      location: 'infrastructure/main.tf',
+      lineNumber: 12,
+    })
+    expect(findings[1]).toMatchObject({ severity: 'LOW', location: 'Dockerfile', recommendation: undefined })
+  })
+
+  it('accepts a single framework report', () => {
+    expect(parseCheckov(report[1])).toHaveLength(1)
+  })
+})
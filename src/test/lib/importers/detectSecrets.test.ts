@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { parseDetectSecrets } from '../../../lib/importers/detectSecrets'
+import { loadFixture } from '../../utils'
+
+describe('parseDetectSecrets', () => {
+  const findings = parseDetectSecrets(loadFixture('scanners/detect-secrets.json'))
+
+  it('creates one finding per secret', () => {
+    expect(findings).toHaveLength(2)
+  })
+
+  it('uses the secret type as the pattern', () => {
+    expect(findings[0]).toMatchObject({
+      tool: 'detect-secrets',
+      message: 'AWS Access Key detected',
+      location: 'src/config/aws.js',
+      lineNumber: 15,
+      pattern: 'AWS Access Key',
+    })
+  })
+
+  it('raises verified secrets to CRITICAL', () => {
+    expect(findings.map(f => f.severity)).toEqual(['CRITICAL', 'HIGH'])
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { parseGrype } from '../../../lib/importers/grype'
+import { loadFixture } from '../../utils'
+
+describe('parseGrype', () => {
+  const findings = parseGrype(loadFixture('scanners/grype.json'))
+
+  it('maps a matched vulnerability onto the finding', () => {
+    expect(findings[0]).toEqual({
+      tool: 'Grype',
+      severity: 'CRITICAL',
+      ruleId: 'CVE-2024-3094',
+      message: 'Vulnerability CVE-2024-3094 in xz-utils',
+      location: '/var/lib/dpkg/status',
+      description: expect.stringContaining('Malicious code'),
+      recommendation: 'Upgrade xz-utils to version 5.6.2 or later',
+      cve: 'CVE-2024-3094',
+      score: 10,
+    })
+  })
+
+  it('takes the CVE and score from related vulnerabilities', () => {
+    expect(findings[1]).toMatchObject({
+      ruleId: 'GHSA-qwph-4952-7xr6',
+      cve: 'CVE-2023-45857',
+      score: 6.5,
+      severity: 'MEDIUM',
+      recommendation: undefined,
+    })
+    expect(findings[1].description).toContain('XSRF-TOKEN')
+  })
+
+  it('maps negligible vulnerabilities to LOW', () => {
+    expect(findings[2].severity).toBe('LOW')
+    expect(findings[2].score).toBeUndefined()
+  })
+})
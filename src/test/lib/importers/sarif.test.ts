@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { importSarifLog, isSarifLog } from '../../../lib/importers/sarif'
+import { loadFixture } from '../../utils'
+
+describe('SARIF import', () => {
+  const log = loadFixture('sarif/multi-tool.sarif')
+  const report = importSarifLog(log)
+  const [sqli, csrf, xz, unused] = report.findings
+
+  it('recognizes SARIF 2.1.0 logs', () => {
+    expect(isSarifLog(log)).toBe(true)
+    expect(isSarifLog({ version: '1.0.0', runs: [] })).toBe(false)
+    expect(isSarifLog({ findings: [] })).toBe(false)
+  })
+
+  it('uses the driver name as the tool', () => {
+    expect(report.findings.map(f => f.tool)).toEqual(['Semgrep OSS', 'Semgrep OSS', 'grype', 'CodeQL'])
+    expect(report.metadata.tools).toEqual(['Semgrep OSS', 'grype', 'CodeQL'])
+  })
+
+  it('maps the result and its rule onto a finding', () => {
+    expect(sqli).toEqual({
+      tool: 'Semgrep OSS',
+      severity: 'HIGH',
+      ruleId: 'javascript.lang.security.audit.sqli.node-postgres-sqli',
+      message: 'Detected string concatenation with a non-literal variable in a node-postgres query.',
+      location: 'src/database/queries.js',
+      lineNumber: 42,
+      description: 'Detected string concatenation with a non-literal variable in a node-postgres query.',
+      recommendation: 'Use parameterized queries instead of string concatenation.',
+      cve: undefined,
+      score: 8.1,
+    })
+  })
+
+  it('prefers security-severity over level', () => {
+    expect(xz.severity).toBe('CRITICAL')
+    expect(xz.score).toBe(10)
+  })
+
+  it('falls back to the rule default level', () => {
+    expect(csrf.severity).toBe('INFO')
+    expect(unused.severity).toBe('MEDIUM')
+  })
+
+  it('falls back to helpUri for the recommendation', () => {
+    expect(csrf.recommendation).toBe(
+      'See https://semgrep.dev/r/javascript.express.security.audit.express-check-csurf-middleware-usage'
+    )
+    expect(csrf.description).toBe('Missing CSRF middleware')
+  })
+
+  it('strips file URIs from locations', () => {
+    expect(csrf.location).toBe('/src/server.js')
+    expect(csrf.lineNumber).toBe(8)
+  })
+
+  it('decodes location URIs, keeping malformed ones as they are', () => {
+    const locate = (uri: string) =>
+      importSarifLog({
+        version: '2.1.0',
+        runs: [{
+          tool: { driver: { name: 'Scanner' } },
+          results: [{ message: { text: 'Issue' }, locations: [{ physicalLocation: { artifactLocation: { uri } } }] }],
+        }],
+      }).findings[0].location
+
+    expect(locate('src/my%20app.js')).toBe('src/my app.js')
+    expect(locate('src/100%.js')).toBe('src/100%.js')
+  })
+
+  it('extracts the CVE from the rule id', () => {
+    expect(xz.cve).toBe('CVE-2024-3094')
+  })
+
+  it('resolves message strings and arguments', () => {
+    expect(unused.message).toBe('Unused variable token.')
+    expect(xz.message).toBe('CVE-2024-3094-xz-utils')
+  })
+
+  it('uses logical locations when there is no physical location', () => {
+    expect(unused.location).toBe('src/auth.js#login')
+    expect(unused.lineNumber).toBeUndefined()
+  })
+
+  it('builds metadata from the invocations', () => {
+    expect(report.metadata.scanDate).toBe('2025-01-15T10:28:00.000Z')
+    expect(report.metadata.duration).toBe(70)
+    expect(report.metadata.totalFindings).toBe(4)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { detectScannerFormat, importScannerReport, importerFor } from '../../../lib/importers/scanners'
+import { loadFixture } from '../../utils'
+
+describe('scanner importers', () => {
+  const fixtures = {
+    bandit: 'scanners/bandit.json',
+    semgrep: 'scanners/semgrep.json',
+    grype: 'scanners/grype.json',
+    checkov: 'scanners/checkov.json',
+    'cfn-nag': 'scanners/cfn-nag.json',
+    'cdk-nag': 'scanners/cdk-nag.json',
+    'detect-secrets': 'scanners/detect-secrets.json',
+  }
+
+  it.each(Object.entries(fixtures))('detects native %s output', (format, fixture) => {
+    expect(detectScannerFormat(loadFixture(fixture))).toBe(format)
+  })
+
+  it('detects reports by their result shape without marker fields', () => {
+    expect(detectScannerFormat({ results: [{ test_id: 'B105' }] })).toBe('bandit')
+    expect(detectScannerFormat({ results: [{ check_id: 'rule' }] })).toBe('semgrep')
+    expect(detectScannerFormat({ matches: [{ vulnerability: {} }] })).toBe('grype')
+    expect(detectScannerFormat({ check_type: 'terraform', results: {} })).toBe('checkov')
+  })
+
+  it('does not guess at ambiguous or unrelated input', () => {
+    expect(detectScannerFormat({ results: [] })).toBeNull()
+    expect(detectScannerFormat([])).toBeNull()
+    expect(detectScannerFormat({ findings: [] })).toBeNull()
+    expect(detectScannerFormat(null)).toBeNull()
+  })
+
+  it('looks up importers by ASH scanner name', () => {
+    expect(importerFor('detect_secrets')?.tool).toBe('detect-secrets')
+    expect(importerFor('CFN-NAG')?.tool).toBe('cfn-nag')
+    expect(importerFor('syft')).toBeUndefined()
+    expect(importerFor('constructor')).toBeUndefined()
+  })
+
+  it('refuses input in another scanner\'s format', () => {
+    const grype = loadFixture('scanners/grype.json')
+
+    expect(() => importerFor('bandit')?.parse(grype)).toThrow('Not a Bandit report')
+    expect(importerFor('bandit')?.scanDate?.(grype)).toBeUndefined()
+  })
+
+  it('reads nothing from a report without entries', () => {
+    expect(importerFor('bandit')?.parse({ results: [] })).toEqual([])
+    expect(importerFor('cfn-nag')?.parse([])).toEqual([])
+  })
+
+  it('does not trip over null entries when detecting formats', () => {
+    expect(detectScannerFormat({ results: [null] })).toBeNull()
+    expect(detectScannerFormat({ matches: [null] })).toBeNull()
+    expect(detectScannerFormat({ lines: [null] })).toBeNull()
+  })
+
+  it('wraps native output in a report', () => {
+    const report = importScannerReport('bandit', loadFixture('scanners/bandit.json'))
+
+    expect(report.findings).toHaveLength(2)
+    expect(report.metadata).toEqual({
+      scanDate: '2025-01-15T10:28:41Z',
+      totalFindings: 2,
+      tools: ['Bandit'],
+    })
+  })
+
+  it('uses the current time when the scanner records no date', () => {
+    const report = importScannerReport('semgrep', loadFixture('scanners/semgrep.json'))
+    expect(Date.parse(report.metadata.scanDate)).not.toBeNaN()
+    expect(report.metadata.tools).toEqual(['Semgrep'])
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { parseSemgrep } from '../../../lib/importers/semgrep'
+import { loadFixture } from '../../utils'
+
+describe('parseSemgrep', () => {
+  const findings = parseSemgrep(loadFixture('scanners/semgrep.json'))
+
+  it('maps result fields onto the finding', () => {
+    expect(findings[0]).toMatchObject({
+      tool: 'Semgrep',
+      severity: 'HIGH',
+      ruleId: 'javascript.lang.security.audit.sqli.node-postgres-sqli',
+      location: 'src/database/queries.js',
+      lineNumber: 42,
+      recommendation: 'See https://node-postgres.com/features/queries',
+    })
+    expect(findings[0].description).toMatch(/^CWE-89/)
+  })
+
+  it('maps semgrep severities', () => {
+    expect(findings.map(f => f.severity)).toEqual(['HIGH', 'INFO'])
+  })
+
+  it('accepts a single CWE string', () => {
+    expect(findings[1].description).toBe('CWE-352: Cross-Site Request Forgery (CSRF)')
+  })
+})
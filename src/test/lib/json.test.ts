@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { JsonSyntaxError, jsonPathLines, parseJson } from '../../lib/json'
+
+describe('JSON helpers', () => {
+  describe('parseJson', () => {
+    it('parses valid JSON', () => {
+      expect(parseJson('{"findings": []}')).toEqual({ findings: [] })
+    })
+
+    it('reports the line and column of a syntax error', () => {
+      const text = '{\n  "findings": [\n    { invalid }\n  ]\n}'
+
+      try {
+        parseJson(text)
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(JsonSyntaxError)
+        expect((error as JsonSyntaxError).line).toBe(3)
+        expect((error as JsonSyntaxError).column).toBe(7)
+        expect((error as Error).message).toContain('(line 3, column 7)')
+      }
+    })
+
+    it('points at the end of truncated input', () => {
+      expect(() => parseJson('{\n  "findings": [')).toThrow(/line 2, column 16/)
+    })
+  })
+
+  describe('jsonPathLines', () => {
+    it('maps value paths to lines', () => {
+      const text = [
+        '{',
+        '  "findings": [',
+        '    {',
+        '      "tool": "Grype",',
+        '      "tags": ["a", "b\\"c"]',
+        '    },',
+        '    { "tool": "Semgrep", "lineNumber": 4 }',
+        '  ],',
+        '  "metadata": {}',
+        '}',
+      ].join('\n')
+      const lines = jsonPathLines(text)
+
+      expect(lines.get('')).toBe(1)
+      expect(lines.get('findings')).toBe(2)
+      expect(lines.get('findings[0]')).toBe(3)
+      expect(lines.get('findings[0].tool')).toBe(4)
+      expect(lines.get('findings[0].tags[1]')).toBe(5)
+      expect(lines.get('findings[1].lineNumber')).toBe(7)
+      expect(lines.get('metadata')).toBe(9)
+    })
+
+    it('handles empty containers', () => {
+      expect([...jsonPathLines('{"a": [], "b": {}}').keys()]).toEqual(['', 'a', 'b'])
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { mergeReports, projectNameFromPath } from '../../lib/merge'
+import { fingerprintFinding } from '../../lib/fingerprint'
+import { mockASHReport, mockFinding } from '../utils'
+
+describe('mergeReports', () => {
+  const api = mockASHReport({
+    findings: [mockFinding({ tool: 'Grype' })],
+    metadata: { scanDate: '2025-01-15T10:30:00Z', totalFindings: 1, tools: ['Grype'], duration: 10, version: '3.0.0' },
+  })
+  const web = mockASHReport({
+    findings: [mockFinding({ tool: 'Bandit' }), mockFinding({ tool: 'Bandit' })],
+    metadata: { scanDate: '2025-01-16T08:00:00Z', totalFindings: 2, tools: ['Bandit', 'Grype'], duration: 5, version: '3.0.0' },
+  })
+
+  it('returns a single report unchanged', () => {
+    const report = mockASHReport()
+    expect(mergeReports([{ project: 'api', report }])).toBe(report)
+  })
+
+  it('tags each finding with its project', () => {
+    const merged = mergeReports([{ project: 'api', report: api }, { project: 'web', report: web }])
+    expect(merged.findings.map(f => f.project)).toEqual(['api', 'web', 'web'])
+  })
+
+  it('keeps fingerprints when tagging findings with their project', () => {
+    const finding = mockFinding({ message: 'Shared' })
+    const merged = mergeReports([
+      { project: 'api', report: mockASHReport({ findings: [finding] }) },
+      { project: 'web', report: mockASHReport({ findings: [finding] }) },
+    ])
+
+    expect(merged.findings.map(f => f.fingerprint)).toEqual([fingerprintFinding(finding), fingerprintFinding(finding)])
+  })
+
+  it('aggregates metadata across scans', () => {
+    const merged = mergeReports([{ project: 'api', report: api }, { project: 'web', report: web }])
+
+    expect(merged.metadata).toMatchObject({
+      scanDate: '2025-01-16T08:00:00Z',
+      totalFindings: 3,
+      tools: ['Grype', 'Bandit'],
+      duration: 15,
+      version: '3.0.0',
+    })
+    expect(merged.metadata.projects).toEqual([
+      { ...api.metadata, project: 'api' },
+      { ...web.metadata, project: 'web' },
+    ])
+  })
+
+  it('prefers the project name recorded by ASH', () => {
+    const named = mockASHReport({ metadata: { ...api.metadata, project: 'payments' } })
+    const merged = mergeReports([{ project: 'api', report: named }, { project: 'web', report: web }])
+
+    expect(merged.findings[0].project).toBe('payments')
+  })
+
+  it('makes duplicate project names unique', () => {
+    const merged = mergeReports([{ project: 'api', report: api }, { project: 'api', report: api }])
+    expect(merged.metadata.projects?.map(scan => scan.project)).toEqual(['api', 'api (2)'])
+  })
+
+  it('keeps projects of reports that were already merged', () => {
+    const first = mergeReports([{ project: 'api', report: api }, { project: 'web', report: web }])
+    const merged = mergeReports([{ project: 'combined', report: first }, { project: 'db', report: api }])
+
+    expect([...new Set(merged.findings.map(f => f.project))]).toEqual(['api', 'web', 'db'])
+    expect(merged.metadata.projects?.map(scan => scan.project)).toEqual(['api', 'web', 'db'])
+  })
+
+  it('drops version and duration when they cannot be combined', () => {
+    const merged = mergeReports([
+      { project: 'a', report: mockASHReport({ metadata: { scanDate: '2025-01-15T10:30:00Z', totalFindings: 4, tools: [], version: '2.0.0' } }) },
+      { project: 'b', report: mockASHReport({ metadata: { scanDate: '2025-01-15T10:30:00Z', totalFindings: 4, tools: [], version: '3.0.0' } }) },
+    ])
+
+    expect(merged.metadata.version).toBeUndefined()
+    expect(merged.metadata.duration).toBeUndefined()
+  })
+})
+
+describe('projectNameFromPath', () => {
+  it('uses the file name', () => {
+    expect(projectNameFromPath('scans/payments.json')).toBe('payments')
+    expect(projectNameFromPath('results.sarif')).toBe('results')
+  })
+
+  it('uses the directory for ASH default output names', () => {
+    expect(projectNameFromPath('services/api/ash-output/aggregated_results.json')).toBe('api')
+    expect(projectNameFromPath('C:\\scans\\web\\ash_aggregated_results.json')).toBe('web')
+  })
+
+  it('falls back to the file name without a directory', () => {
+    expect(projectNameFromPath('aggregated_results.json')).toBe('aggregated_results')
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { detectReportFormat, normalizeReport } from '../../lib/normalize'
+import { loadFixture, mockASHReport, mockFinding } from '../utils'
+
+describe('normalizeReport', () => {
+  describe('detectReportFormat', () => {
+    it('detects reports already in reporter format', () => {
+      expect(detectReportFormat(mockASHReport())).toBe('ash-reporter')
+    })
+
+    it('detects ASH aggregated results', () => {
+      expect(detectReportFormat(loadFixture('ash/aggregated_results.json'))).toBe('ash-aggregated')
+    })
+
+    it('detects SARIF logs', () => {
+      expect(detectReportFormat(loadFixture('sarif/multi-tool.sarif'))).toBe('sarif')
+    })
+
+    it('detects native scanner output', () => {
+      expect(detectReportFormat(loadFixture('scanners/grype.json'))).toBe('grype')
+      expect(detectReportFormat(loadFixture('scanners/checkov.json'))).toBe('checkov')
+    })
+
+    it('returns null for unknown input', () => {
+      expect(detectReportFormat({ foo: 'bar' })).toBeNull()
+      expect(detectReportFormat('findings')).toBeNull()
+    })
+  })
+
+  it('passes reporter format through unchanged', () => {
+    const report = mockASHReport()
+    expect(normalizeReport(report)).toEqual(report)
+  })
+
+  it('fills in missing metadata', () => {
+    const report = normalizeReport({ findings: [mockFinding({ tool: 'Bandit' })] })
+
+    expect(report.metadata.totalFindings).toBe(1)
+    expect(report.metadata.tools).toEqual(['Bandit'])
+    expect(report.metadata.scanDate).toEqual(expect.any(String))
+  })
+
+  it('converts ASH aggregated results', () => {
+    const report = normalizeReport(loadFixture('ash/aggregated_results.json'))
+    expect(report.findings).toHaveLength(15)
+  })
+
+  it('converts SARIF logs', () => {
+    const report = normalizeReport(loadFixture('sarif/multi-tool.sarif'))
+    expect(report.metadata.tools).toEqual(['Semgrep OSS', 'grype', 'CodeQL'])
+  })
+
+  it('converts native scanner output', () => {
+    const report = normalizeReport(loadFixture('scanners/detect-secrets.json'))
+
+    expect(report.metadata.tools).toEqual(['detect-secrets'])
+    expect(report.findings[0].pattern).toEqual(expect.any(String))
+  })
+
+  it('uses the given format instead of detecting one', () => {
+    const report = normalizeReport({ results: [] }, 'semgrep')
+    expect(report.findings).toEqual([])
+    expect(report.metadata.tools).toEqual(['Semgrep'])
+  })
+
+  it('names the format when a forced conversion fails', () => {
+    expect(() => normalizeReport({ runs: 'none' }, 'sarif')).toThrow(/^Could not read input as sarif: /)
+  })
+
+  it('throws on unrecognized input', () => {
+    expect(() => normalizeReport({ results: [] })).toThrow('Unrecognized report format')
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuery } from '../../lib/query'
+import { resolveSeverityConfig, severityConfig } from '../../lib/utils'
+import { mockFinding } from '../utils'
+import type { Finding } from '../../types/ash'
+
+const findings: Finding[] = [
+  mockFinding({ tool: 'Grype', severity: 'CRITICAL', message: 'openssl vulnerable', location: 'package-lock.json', cve: 'CVE-2024-1234', score: 9.8 }),
+  mockFinding({ tool: 'Semgrep', severity: 'HIGH', message: 'SQL injection', location: 'src/db/query.js:42:7', ruleId: 'sqli', description: 'Unsanitized input' }),
+  mockFinding({ tool: 'Semgrep', severity: 'LOW', message: 'Weak hash', location: 'test/fixtures/hash.js', ruleId: 'md5', status: 'new' }),
+  mockFinding({ tool: 'git-secrets', severity: 'MEDIUM', message: 'AWS key', location: 'src\\config\\aws.py', pattern: 'AKIA[0-9A-Z]{16}', score: 5 }),
+]
+
+const search = (query: string, severities = severityConfig) => {
+  const parsed = parseQuery(query, severities)
+  return { ...parsed, found: findings.filter(parsed.matches).map((finding) => finding.message) }
+}
+
+describe('parseQuery', () => {
+  it('matches everything when empty', () => {
+    expect(search('   ').found).toHaveLength(4)
+    expect(search('').errors).toEqual([])
+  })
+
+  describe('free text', () => {
+    it('searches message, description and location ignoring case', () => {
+      expect(search('sql').found).toEqual(['SQL injection'])
+      expect(search('unsanitized').found).toEqual(['SQL injection'])
+      expect(search('FIXTURES').found).toEqual(['Weak hash'])
+    })
+
+    it('requires every term and keeps quoted phrases together', () => {
+      expect(search('src injection').found).toEqual(['SQL injection'])
+      expect(search('"weak hash"').found).toEqual(['Weak hash'])
+      expect(search('"hash weak"').found).toEqual([])
+    })
+
+    it('returns the terms to highlight', () => {
+      expect(search('sql "weak hash" tool:Grype -aws').highlights).toEqual(['sql', 'weak hash'])
+    })
+  })
+
+  describe('qualifiers', () => {
+    it('matches tools ignoring case, with wildcards', () => {
+      expect(search('tool:semgrep').found).toEqual(['SQL injection', 'Weak hash'])
+      expect(search('tool:git-*').found).toEqual(['AWS key'])
+      expect(search('tool:Sem').found).toEqual([])
+    })
+
+    it('compares severities by priority', () => {
+      expect(search('severity>=HIGH').found).toEqual(['openssl vulnerable', 'SQL injection'])
+      expect(search('severity<medium').found).toEqual(['Weak hash'])
+      expect(search('severity:critical').found).toEqual(['openssl vulnerable'])
+    })
+
+    it('accepts configured severity labels', () => {
+      const severities = resolveSeverityConfig({ CRITICAL: { label: 'Blocker' } })
+      expect(search('severity=blocker', severities).found).toEqual(['openssl vulnerable'])
+    })
+
+    it('matches paths with globs or as part of the location', () => {
+      expect(search('path:src/**/*.js').found).toEqual(['SQL injection'])
+      expect(search('path:src/config').found).toEqual(['AWS key'])
+      expect(search('path:./test/**').found).toEqual(['Weak hash'])
+      expect(search('path:src/**/{*.js,*.ts}').found).toEqual(['SQL injection'])
+    })
+
+    it('matches CVEs and rules', () => {
+      expect(search('cve:CVE-2024-*').found).toEqual(['openssl vulnerable'])
+      expect(search('rule:SQLI').found).toEqual(['SQL injection'])
+      expect(search('rule:cve-2024-1234').found).toEqual(['openssl vulnerable'])
+    })
+
+    it('compares scores, skipping findings without one', () => {
+      expect(search('score>7').found).toEqual(['openssl vulnerable'])
+      expect(search('score<=5').found).toEqual(['AWS key'])
+      expect(search('score:5').found).toEqual(['AWS key'])
+    })
+
+    it('matches statuses', () => {
+      expect(search('status:new').found).toEqual(['Weak hash'])
+    })
+
+    it('keeps quoted values with spaces', () => {
+      expect(search('-path:"test/fixtures/hash.js"').found).toHaveLength(3)
+    })
+  })
+
+  describe('negation', () => {
+    it('excludes findings matching a term', () => {
+      expect(search('-tool:Semgrep').found).toEqual(['openssl vulnerable', 'AWS key'])
+      expect(search('-path:test/** tool:Semgrep').found).toEqual(['SQL injection'])
+      expect(search('-sql -aws').found).toEqual(['openssl vulnerable', 'Weak hash'])
+    })
+
+    it('includes findings without a score when negating a comparison', () => {
+      expect(search('-score>7').found).toEqual(['SQL injection', 'Weak hash', 'AWS key'])
+    })
+  })
+
+  describe('errors', () => {
+    const errorsOf = (query: string) =>
+      search(query).errors.map(({ message, start, end }) => [query.slice(start, end), message])
+
+    it('reports unknown fields and values with their position', () => {
+      expect(errorsOf('sql sevrity:HIGH severity>=HIHG status:gone')).toEqual([
+        ['sevrity:HIGH', 'Unknown field "sevrity" (expected one of tool, project, rule, cve, path, status, severity, score)'],
+        ['severity>=HIHG', 'Unknown severity "HIHG" (expected one of CRITICAL, HIGH, MEDIUM, LOW, INFO, UNKNOWN)'],
+        ['status:gone', 'Unknown status "gone" (expected one of new, existing, fixed)'],
+      ])
+    })
+
+    it('reports malformed terms', () => {
+      expect(errorsOf('score>high tool>Grype path: - "open')).toEqual([
+        ['score>high', 'Expected a number after "score>"'],
+        ['tool>Grype', '"tool" can\'t be compared with ">"; use tool:Grype'],
+        ['path:', 'Expected a value after "path:"'],
+        ['-', 'Expected a term after "-"'],
+        ['"open', 'Missing closing quote'],
+      ])
+    })
+
+    it('reports invalid path globs', () => {
+      expect(errorsOf('path:src/{*.js tool:Semgrep')).toEqual([['path:src/{*.js', 'Glob "src/{*.js" has an unclosed "{"']])
+    })
+
+    it('applies the valid terms and leaves out the rest', () => {
+      expect(search('tool:Semgrep severity>=HIHG').found).toEqual(['SQL injection', 'Weak hash'])
+    })
+
+    it('does not treat inherited properties as fields', () => {
+      expect(errorsOf('constructor:x')).toEqual([
+        ['constructor:x', expect.stringContaining('Unknown field "constructor"')],
+      ])
+    })
+  })
+})
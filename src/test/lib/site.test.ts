@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { fingerprintFinding } from '../../lib/fingerprint'
+import { buildSiteMap, findingTitle, normalizeBase, sitePages, slugify } from '../../lib/site'
+import { mockASHReport, mockFinding } from '../utils'
+
+describe('slugify', () => {
+  it('lowercases and joins words with dashes', () => {
+    expect(slugify('src/App.tsx')).toBe('src-app-tsx')
+    expect(slugify('  Git Secrets!  ')).toBe('git-secrets')
+  })
+
+  it('limits the length and falls back for empty slugs', () => {
+    expect(slugify('a'.repeat(100))).toHaveLength(80)
+    expect(slugify('///')).toBe('page')
+  })
+})
+
+describe('buildSiteMap', () => {
+  it('gives every tool, file and finding a slug', () => {
+    const map = buildSiteMap(mockASHReport())
+
+    expect([...map.tools]).toEqual([
+      ['Grype', 'grype'],
+      ['git-secrets', 'git-secrets'],
+      ['Semgrep', 'semgrep'],
+      ['CDK-nag', 'cdk-nag'],
+    ])
+    expect([...map.files]).toEqual([
+      ['package.json', 'package-json'],
+      ['file4.js', 'file4-js'],
+    ])
+    expect([...map.findings.values()]).toEqual(mockASHReport().findings.map(fingerprintFinding))
+  })
+
+  it('uses fingerprints the report already has', () => {
+    const map = buildSiteMap(
+      mockASHReport({ findings: [mockFinding({ fingerprint: 'abc123' })] })
+    )
+
+    expect([...map.findings.values()]).toEqual(['abc123'])
+  })
+
+  it('includes tools that only appear in findings', () => {
+    const map = buildSiteMap(
+      mockASHReport({ findings: [mockFinding({ tool: 'Bandit' })] })
+    )
+
+    expect(map.tools.get('Bandit')).toBe('bandit')
+  })
+
+  it('numbers slugs that collide', () => {
+    const map = buildSiteMap(
+      mockASHReport({
+        findings: [
+          mockFinding({ location: 'src/a.py', fingerprint: 'abc' }),
+          mockFinding({ location: 'src-a.py', fingerprint: 'abc' }),
+        ],
+      })
+    )
+
+    expect([...map.files.values()]).toEqual(['src-a-py', 'src-a-py-2'])
+    expect([...map.findings.values()]).toEqual(['abc', 'abc-2'])
+  })
+
+  it('keys findings by identity', () => {
+    const report = mockASHReport()
+    const map = buildSiteMap(report)
+
+    expect(map.findings.get(report.findings[1])).toBe(fingerprintFinding(report.findings[1]))
+    expect(map.findings.get({ ...report.findings[1] })).toBeUndefined()
+  })
+})
+
+describe('sitePages', () => {
+  it('lists the overview, index pages and a page per item', () => {
+    const report = mockASHReport({
+      title: 'Payments',
+      findings: mockASHReport().findings.map((finding, index) => ({ ...finding, fingerprint: `f${index + 1}` })),
+    })
+    const pages = sitePages(report, buildSiteMap(report))
+
+    expect(pages.map((page) => page.path)).toEqual([
+      '',
+      'tools/',
+      'tools/grype/',
+      'tools/git-secrets/',
+      'tools/semgrep/',
+      'tools/cdk-nag/',
+      'files/',
+      'files/package-json/',
+      'files/file4-js/',
+      'findings/f1/',
+      'findings/f2/',
+      'findings/f3/',
+      'findings/f4/',
+    ])
+    expect(pages[0].title).toBe('Payments')
+    expect(pages[1].title).toBe('Tools – Payments')
+    expect(pages[9].title).toBe('Critical vulnerability CVE-2024-1234 – Payments')
+  })
+})
+
+describe('findingTitle', () => {
+  it('prefixes the rule id', () => {
+    expect(findingTitle(mockFinding({ ruleId: 'B101' }))).toBe('B101: Test vulnerability')
+    expect(findingTitle(mockFinding())).toBe('Test vulnerability')
+  })
+})
+
+describe('normalizeBase', () => {
+  it('adds leading and trailing slashes', () => {
+    expect(normalizeBase('/')).toBe('/')
+    expect(normalizeBase('')).toBe('/')
+    expect(normalizeBase('reports/security')).toBe('/reports/security/')
+    expect(normalizeBase('/reports//')).toBe('/reports/')
+  })
+})
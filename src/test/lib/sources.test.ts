@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { fetchSources, loadReportSources, readFiles } from '../../lib/sources'
+import { loadFixture, mockASHReport } from '../utils'
+
+describe('report sources', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('loadReportSources', () => {
+    it('merges every loadable file', () => {
+      const result = loadReportSources([
+        { name: 'a.json', text: JSON.stringify(mockASHReport()) },
+        { name: 'b.sarif', text: JSON.stringify(loadFixture('sarif/multi-tool.sarif')) },
+      ])
+
+      expect(result.report?.findings).toHaveLength(8)
+      expect(result.issues).toEqual([])
+    })
+
+    it('turns unreadable files into issues', () => {
+      const result = loadReportSources([
+        { name: 'a.json', text: JSON.stringify(mockASHReport()) },
+        { name: 'broken.json', text: '{ nope' },
+      ])
+
+      expect(result.report?.findings).toHaveLength(4)
+      expect(result.issues).toEqual([
+        expect.objectContaining({ level: 'error', file: 'broken.json', path: '' }),
+      ])
+    })
+
+    it('tags validation issues with their file', () => {
+      const report = mockASHReport()
+      report.findings[0].severity = 'SEVERE' as any
+      const result = loadReportSources([{ name: 'a.json', text: JSON.stringify(report) }])
+
+      expect(result.issues[0]).toMatchObject({ file: 'a.json', path: 'findings[0].severity' })
+    })
+
+    it('merges native scanner output from several tools', () => {
+      const result = loadReportSources([
+        { name: 'reports/bandit.json', text: JSON.stringify(loadFixture('scanners/bandit.json')) },
+        { name: 'reports/grype.json', text: JSON.stringify(loadFixture('scanners/grype.json')) },
+      ])
+
+      expect(result.report?.metadata.tools).toEqual(['Bandit', 'Grype'])
+      expect(result.issues).toEqual([])
+    })
+
+    it('applies a given format to every file', () => {
+      const result = loadReportSources([{ name: 'empty.json', text: '{ "results": [] }' }], 'bandit')
+
+      expect(result.report?.metadata.tools).toEqual(['Bandit'])
+    })
+
+    it('returns no report when nothing loads', () => {
+      expect(loadReportSources([{ name: 'x.json', text: '[]' }]).report).toBeNull()
+    })
+  })
+
+  describe('readFiles', () => {
+    it('reads file contents with their names', async () => {
+      const sources = await readFiles([new File(['{"findings":[]}'], 'scan.json')])
+      expect(sources).toEqual([{ name: 'scan.json', text: '{"findings":[]}' }])
+    })
+  })
+
+  describe('fetchSources', () => {
+    const base = 'https://reports.example.com/viewer/index.html'
+
+    it('fetches same-origin URLs relative to the viewer', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('{"findings":[]}'))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const sources = await fetchSources(['scans/latest.json'], base)
+
+      expect(fetchMock).toHaveBeenCalledWith('https://reports.example.com/viewer/scans/latest.json')
+      expect(sources).toEqual([{ name: 'scans/latest.json', text: '{"findings":[]}' }])
+    })
+
+    it('rejects cross-origin URLs', async () => {
+      await expect(fetchSources(['https://other.example/scan.json'], base)).rejects.toThrow('Refusing to load')
+    })
+
+    it('rejects failed responses', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 404, statusText: 'Not Found' })))
+      await expect(fetchSources(['/missing.json'], base)).rejects.toThrow('Failed to load /missing.json: 404 Not Found')
+    })
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { summarizeReport } from '../../lib/summary'
+import { mockASHReport, mockFinding } from '../utils'
+
+describe('summarizeReport', () => {
+  it('counts findings by severity and tool', () => {
+    const summary = summarizeReport(mockASHReport())
+
+    expect(summary.total).toBe(4)
+    expect(summary.bySeverity).toEqual({ CRITICAL: 1, HIGH: 1, MEDIUM: 1, LOW: 1, INFO: 0, UNKNOWN: 0 })
+    expect(Object.values(summary.byTool).reduce((a, b) => a + b)).toBe(4)
+    expect(summary.byProject).toBeUndefined()
+  })
+
+  it('counts findings by project for merged reports', () => {
+    const summary = summarizeReport(mockASHReport({
+      findings: [mockFinding({ project: 'api' }), mockFinding({ project: 'api' }), mockFinding({ project: 'web' })],
+    }))
+
+    expect(summary.byProject).toEqual({ api: 2, web: 1 })
+  })
+})
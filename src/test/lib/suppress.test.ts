@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { applySuppressions, describeSuppression, isExpired, matchesSuppression } from '../../lib/suppress'
+import type { Suppression } from '../../types/ash'
+import { mockASHReport, mockFinding } from '../utils'
+
+const entry = (matchers: Partial<Suppression>): Suppression => ({
+  justification: 'Accepted risk',
+  owner: 'security@example.com',
+  expires: '2099-12-31',
+  ...matchers,
+})
+
+const today = new Date('2025-06-01T12:00:00Z')
+
+describe('matchesSuppression', () => {
+  const finding = mockFinding({
+    tool: 'Grype',
+    ruleId: 'GHSA-1234',
+    cve: 'CVE-2024-1234',
+    location: '/src/vendor/lib.js:12',
+    fingerprint: 'abc123',
+  })
+
+  it('matches by tool, rule, CVE, path glob or fingerprint', () => {
+    expect(matchesSuppression(finding, entry({ tool: 'grype' }))).toBe(true)
+    expect(matchesSuppression(finding, entry({ rule: 'ghsa-1234' }))).toBe(true)
+    expect(matchesSuppression(finding, entry({ rule: 'CVE-2024-1234' }))).toBe(true)
+    expect(matchesSuppression(finding, entry({ path: 'src/vendor/**' }))).toBe(true)
+    expect(matchesSuppression(finding, entry({ fingerprint: 'abc123' }))).toBe(true)
+  })
+
+  it('requires every matcher of an entry to match', () => {
+    expect(matchesSuppression(finding, entry({ tool: 'Grype', rule: 'CVE-2024-1234' }))).toBe(true)
+    expect(matchesSuppression(finding, entry({ tool: 'Semgrep', rule: 'CVE-2024-1234' }))).toBe(false)
+    expect(matchesSuppression(finding, entry({ tool: 'Grype', path: 'test/**' }))).toBe(false)
+    expect(matchesSuppression(finding, entry({ fingerprint: 'def456' }))).toBe(false)
+  })
+
+  it('ignores line and column suffixes when matching paths', () => {
+    const located = mockFinding({ location: 'src/a.py:10:5' })
+    expect(matchesSuppression(located, entry({ path: 'src/*.py' }))).toBe(true)
+  })
+
+  it('matches secret patterns as rules', () => {
+    const secret = mockFinding({ tool: 'git-secrets', pattern: 'AKIA[0-9A-Z]{16}' })
+    expect(matchesSuppression(secret, entry({ rule: 'AKIA[0-9A-Z]{16}' }))).toBe(true)
+  })
+})
+
+describe('isExpired', () => {
+  it('keeps a suppression active through its expiry day', () => {
+    expect(isExpired(entry({ expires: '2025-06-01' }), today)).toBe(false)
+    expect(isExpired(entry({ expires: '2025-05-31' }), today)).toBe(true)
+  })
+})
+
+describe('describeSuppression', () => {
+  it('names the matchers that are set', () => {
+    expect(describeSuppression(entry({ tool: 'Grype', rule: 'CVE-1' }))).toBe('tool Grype, rule CVE-1')
+  })
+})
+
+describe('applySuppressions', () => {
+  const report = mockASHReport({
+    findings: [
+      mockFinding({ message: 'Accepted', cve: 'CVE-1' }),
+      mockFinding({ message: 'Overdue', cve: 'CVE-2' }),
+      mockFinding({ message: 'Open' }),
+    ],
+  })
+
+  it('moves suppressed findings out of the report findings', () => {
+    const active = entry({ rule: 'CVE-1' })
+    const result = applySuppressions(report, [active], today)
+
+    expect(result.findings.map(f => f.message)).toEqual(['Overdue', 'Open'])
+    expect(result.metadata.totalFindings).toBe(2)
+    expect(result.suppressions?.suppressed).toEqual([
+      expect.objectContaining({ message: 'Accepted', suppression: active, fingerprint: expect.any(String) }),
+    ])
+  })
+
+  it('keeps findings of expired suppressions, tagged with the suppression', () => {
+    const expired = entry({ rule: 'CVE-2', expires: '2025-01-01' })
+    const result = applySuppressions(report, [expired], today)
+
+    expect(result.findings.map(f => f.message)).toEqual(['Accepted', 'Overdue', 'Open'])
+    expect(result.findings[1].suppression).toEqual(expired)
+    expect(result.suppressions).toEqual({ suppressed: [], expired: [expired], unused: [] })
+  })
+
+  it('prefers an active suppression over an expired one', () => {
+    const expired = entry({ rule: 'CVE-2', expires: '2025-01-01' })
+    const renewed = entry({ rule: 'CVE-2', expires: '2026-01-01' })
+    const result = applySuppressions(report, [expired, renewed], today)
+
+    expect(result.suppressions?.suppressed).toEqual([expect.objectContaining({ suppression: renewed })])
+    expect(result.suppressions?.expired).toEqual([])
+  })
+
+  it('lists suppressions that matched nothing as unused', () => {
+    const unused = entry({ tool: 'Checkov' })
+    expect(applySuppressions(report, [unused], today).suppressions?.unused).toEqual([unused])
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { buildTrend, formatDays, sortScans, trendReport } from '../../lib/trend'
+import { mockASHReport, mockFinding } from '../utils'
+
+const critical = mockFinding({ tool: 'Grype', severity: 'CRITICAL', message: 'CVE-2024-1', cve: 'CVE-2024-1' })
+const high = mockFinding({ tool: 'Semgrep', severity: 'HIGH', message: 'SQL injection', ruleId: 'sqli' })
+const low = mockFinding({ tool: 'Semgrep', severity: 'LOW', message: 'Weak hash', ruleId: 'md5' })
+
+const scan = (scanDate: string, findings = [critical, high, low]) =>
+  mockASHReport({ findings, metadata: { ...mockASHReport().metadata, scanDate } })
+
+describe('sortScans', () => {
+  it('orders scans by date, oldest first', () => {
+    const scans = [scan('2025-01-03T00:00:00Z'), scan('2025-01-01T00:00:00+02:00'), scan('2025-01-02T00:00:00Z')]
+
+    expect(sortScans(scans).map((report) => report.metadata.scanDate)).toEqual([
+      '2025-01-01T00:00:00+02:00',
+      '2025-01-02T00:00:00Z',
+      '2025-01-03T00:00:00Z',
+    ])
+  })
+})
+
+describe('buildTrend', () => {
+  it('counts each scan by severity and tool', () => {
+    const trend = buildTrend([scan('2025-01-02T00:00:00Z', [high]), scan('2025-01-01T00:00:00Z')])
+
+    expect(trend.scans).toEqual([
+      {
+        scanDate: '2025-01-01T00:00:00Z',
+        total: 3,
+        bySeverity: { CRITICAL: 1, HIGH: 1, MEDIUM: 0, LOW: 1, INFO: 0, UNKNOWN: 0 },
+        byTool: { Grype: 1, Semgrep: 2 },
+      },
+      {
+        scanDate: '2025-01-02T00:00:00Z',
+        total: 1,
+        bySeverity: { CRITICAL: 0, HIGH: 1, MEDIUM: 0, LOW: 0, INFO: 0, UNKNOWN: 0 },
+        byTool: { Semgrep: 1 },
+      },
+    ])
+  })
+
+  it('measures time to remediate from when fingerprints disappear', () => {
+    const trend = buildTrend([
+      scan('2025-01-01T00:00:00Z'),
+      scan('2025-01-03T00:00:00Z', [high, low]),
+      scan('2025-01-08T00:00:00Z', [low]),
+    ])
+
+    expect(trend.remediation).toEqual({
+      count: 2,
+      meanDays: 4.5,
+      bySeverity: {
+        CRITICAL: { count: 1, meanDays: 2 },
+        HIGH: { count: 1, meanDays: 7 },
+      },
+    })
+  })
+
+  it('counts findings that come back as remediated again', () => {
+    const trend = buildTrend([
+      scan('2025-01-01T00:00:00Z', [high]),
+      scan('2025-01-02T00:00:00Z', []),
+      scan('2025-01-05T00:00:00Z', [high]),
+      scan('2025-01-06T00:00:00Z', []),
+    ])
+
+    expect(trend.remediation).toMatchObject({ count: 2, meanDays: 1 })
+  })
+
+  it('uses the severity a finding had when it was last seen', () => {
+    const trend = buildTrend([
+      scan('2025-01-01T00:00:00Z', [high]),
+      scan('2025-01-02T00:00:00Z', [{ ...high, severity: 'CRITICAL' }]),
+      scan('2025-01-04T00:00:00Z', []),
+    ])
+
+    expect(trend.remediation.bySeverity).toEqual({ CRITICAL: { count: 1, meanDays: 3 } })
+  })
+
+  it('keeps an occurrence open when the same issue turns up again above it', () => {
+    const trend = buildTrend([
+      scan('2025-01-01T00:00:00Z', [{ ...high, lineNumber: 20 }]),
+      scan('2025-01-02T00:00:00Z', [{ ...high, lineNumber: 5 }, { ...high, lineNumber: 21 }]),
+      scan('2025-01-05T00:00:00Z', [{ ...high, lineNumber: 5 }]),
+    ])
+
+    expect(trend.remediation).toMatchObject({ count: 1, meanDays: 4 })
+  })
+
+  it('leaves the mean out when nothing was remediated', () => {
+    const trend = buildTrend([scan('2025-01-01T00:00:00Z', [high]), scan('2025-01-02T00:00:00Z')])
+
+    expect(trend.remediation).toEqual({ count: 0, meanDays: undefined, bySeverity: {} })
+  })
+})
+
+describe('trendReport', () => {
+  it('reports the latest scan with the trend', () => {
+    const report = trendReport([scan('2025-01-02T00:00:00Z', [low]), scan('2025-01-01T00:00:00Z')])
+
+    expect(report.findings).toEqual([low])
+    expect(report.metadata.scanDate).toBe('2025-01-02T00:00:00Z')
+    expect(report.trend?.scans).toHaveLength(2)
+  })
+
+  it('needs at least one scan', () => {
+    expect(() => trendReport([])).toThrow('at least one scan')
+  })
+})
+
+describe('formatDays', () => {
+  it('rounds to a tenth of a day', () => {
+    expect(formatDays(1)).toBe('1 day')
+    expect(formatDays(2.25)).toBe('2.3 days')
+    expect(formatDays(0.04)).toBe('0 days')
+  })
+})
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest'
-import { cn, severityConfig } from '../../lib/utils'
+import {
+  cn,
+  normalizePath,
+  resolveSeverityConfig,
+  severityConfig,
+  severityLevels,
+  severityStyle,
+  toSeverityLevel,
+} from '../../lib/utils'
+import { mockFinding } from '../utils'
 import type { SeverityLevel } from '../../types/ash'
 
 describe('Utility Functions', () => {
@@ -88,4 +97,82 @@ describe('Utility Functions', () => {
       expect(severityConfig.LOW.icon).toBe('🟢')
     })
   })
-}) 
\ No newline at end of file
+
+  describe('toSeverityLevel', () => {
+    it('maps scanner severity names case-insensitively', () => {
+      expect(toSeverityLevel('Critical')).toBe('CRITICAL')
+      expect(toSeverityLevel('ERROR')).toBe('HIGH')
+      expect(toSeverityLevel('warning')).toBe('MEDIUM')
+      expect(toSeverityLevel('Negligible')).toBe('LOW')
+    })
+
+    it('keeps informational and unknown levels apart from LOW', () => {
+      expect(toSeverityLevel('INFO')).toBe('INFO')
+      expect(toSeverityLevel('note')).toBe('INFO')
+      expect(toSeverityLevel('Informational')).toBe('INFO')
+      expect(toSeverityLevel('Unknown')).toBe('UNKNOWN')
+    })
+
+    it('falls back for unknown or missing values', () => {
+      expect(toSeverityLevel('bogus')).toBe('UNKNOWN')
+      expect(toSeverityLevel(null, 'LOW')).toBe('LOW')
+    })
+  })
+
+  describe('resolveSeverityConfig', () => {
+    it('returns the built-in config without overrides', () => {
+      expect(resolveSeverityConfig()).toEqual(severityConfig)
+    })
+
+    it('applies labels, icons, priorities and colors', () => {
+      const config = resolveSeverityConfig({
+        INFO: { label: 'Advisory', icon: '💡', priority: 5, color: '#7c3aed' },
+      })
+
+      expect(config.INFO).toMatchObject({
+        label: 'Advisory',
+        icon: '💡',
+        priority: 5,
+        accent: '#7c3aed',
+        color: severityConfig.INFO.color,
+      })
+      expect(config.CRITICAL).toEqual(severityConfig.CRITICAL)
+      expect(severityConfig.INFO.label).toBe('INFORMATIONAL')
+    })
+
+    it('ignores overrides for inherited properties', () => {
+      const config = resolveSeverityConfig(JSON.parse('{"constructor": {"label": "Bogus"}}'))
+
+      expect(Object.keys(config)).toEqual(Object.keys(severityConfig))
+    })
+  })
+
+  describe('severityLevels', () => {
+    it('orders levels by priority and hides empty optional levels', () => {
+      expect(severityLevels(severityConfig)).toEqual(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'])
+      expect(severityLevels(severityConfig, [mockFinding({ severity: 'UNKNOWN' })]))
+        .toEqual(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'UNKNOWN'])
+    })
+
+    it('follows overridden priorities', () => {
+      const config = resolveSeverityConfig({ LOW: { priority: 10 }, INFO: { hideWhenEmpty: false } })
+      expect(severityLevels(config)).toEqual(['LOW', 'CRITICAL', 'HIGH', 'MEDIUM', 'INFO'])
+    })
+  })
+
+  describe('severityStyle', () => {
+    it('only sets inline colors for configured accents', () => {
+      expect(severityStyle(severityConfig.HIGH)).toBeUndefined()
+      expect(severityStyle({ ...severityConfig.HIGH, accent: '#123456' }))
+        .toMatchObject({ color: '#123456', borderColor: '#123456' })
+    })
+  })
+
+  describe('normalizePath', () => {
+    it('strips leading ./ and converts backslashes', () => {
+      expect(normalizePath('./src/app.js')).toBe('src/app.js')
+      expect(normalizePath('src\\lib\\db.js')).toBe('src/lib/db.js')
+      expect(normalizePath('/var/lib/dpkg/status')).toBe('/var/lib/dpkg/status')
+    })
+  })
+})
@@ -0,0 +1,341 @@
+import { describe, it, expect } from 'vitest'
+import { loadReport, validateBranding, validateReport, validateSuppressions } from '../../lib/validate'
+import { JsonSyntaxError } from '../../lib/json'
+import { loadFixture, mockASHReport, mockFinding } from '../utils'
+
+describe('validateReport', () => {
+  it('accepts a valid report without issues', () => {
+    const report = mockASHReport()
+    const result = validateReport(report)
+
+    expect(result.issues).toEqual([])
+    expect(result.report?.findings).toEqual(
+      report.findings.map(finding => ({ ...finding, fingerprint: expect.any(String) })),
+    )
+  })
+
+  it('keeps fingerprints that are already present', () => {
+    const result = validateReport({ findings: [mockFinding({ fingerprint: 'abc123' })] })
+    expect(result.report?.findings[0].fingerprint).toBe('abc123')
+  })
+
+  it('rejects input without a findings array', () => {
+    expect(validateReport({ metadata: {} })).toEqual({
+      report: null,
+      issues: [{ level: 'error', path: 'findings', message: 'expected an object with a findings array', line: undefined }],
+    })
+    expect(validateReport([]).report).toBeNull()
+  })
+
+  it('skips findings with an unknown severity', () => {
+    const result = validateReport({
+      findings: [mockFinding(), mockFinding({ severity: 'BLOCKER' as any })],
+    })
+
+    expect(result.report?.findings).toHaveLength(1)
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        path: 'findings[1].severity',
+        message: expect.stringContaining('unknown severity "BLOCKER"'),
+      }),
+    ])
+  })
+
+  it('reports every invalid field of a finding', () => {
+    const result = validateReport({
+      findings: [{ tool: '', severity: 'HIGH', location: 'a.js', lineNumber: 0, score: 11 }],
+    })
+
+    expect(result.issues.map(issue => issue.path)).toEqual([
+      'findings[0].tool',
+      'findings[0].message',
+      'findings[0].lineNumber',
+      'findings[0].score',
+    ])
+  })
+
+  it('skips findings that are not objects', () => {
+    const result = validateReport({ findings: [null, 'x'] })
+
+    expect(result.report?.findings).toEqual([])
+    expect(result.issues.map(issue => issue.message)).toEqual([
+      'expected a finding object',
+      'expected a finding object',
+    ])
+  })
+
+  it('repairs invalid metadata with warnings', () => {
+    const result = validateReport({
+      findings: [mockFinding({ tool: 'Bandit' })],
+      metadata: { scanDate: 'yesterday', tools: 'Bandit', duration: '12s', version: 3 },
+    })
+
+    expect(result.report?.metadata).toEqual({
+      scanDate: expect.any(String),
+      totalFindings: 1,
+      tools: ['Bandit'],
+      duration: undefined,
+      version: undefined,
+    })
+    expect(result.issues.every(issue => issue.level === 'warning')).toBe(true)
+    expect(result.issues.map(issue => issue.path)).toEqual([
+      'metadata.scanDate',
+      'metadata.tools',
+      'metadata.duration',
+      'metadata.version',
+    ])
+  })
+
+  it('keeps valid severity overrides and warns about the rest', () => {
+    const result = validateReport({
+      findings: [mockFinding()],
+      severityConfig: {
+        INFO: { label: 'Advisory', priority: 'high', shade: 'blue' },
+        SEVERE: { label: 'Severe' },
+        LOW: 'green',
+      },
+    })
+
+    expect(result.report?.severityConfig).toEqual({ INFO: { label: 'Advisory' } })
+    expect(result.issues.map(issue => [issue.level, issue.path, issue.message])).toEqual([
+      ['warning', 'severityConfig.INFO.priority', 'expected a number; ignored'],
+      ['warning', 'severityConfig.INFO.shade', 'unknown field; ignored'],
+      ['warning', 'severityConfig.SEVERE', 'unknown severity level; ignored'],
+      ['warning', 'severityConfig.LOW', 'expected an object; ignored'],
+    ])
+  })
+
+  it('does not treat inherited properties as severity levels or fields', () => {
+    const result = validateReport({
+      findings: [mockFinding()],
+      severityConfig: JSON.parse('{"toString": {"label": "Bogus"}, "INFO": {"constructor": "x"}}'),
+    })
+
+    expect(result.report?.severityConfig).toEqual({ INFO: {} })
+    expect(result.issues.map(issue => [issue.path, issue.message])).toEqual([
+      ['severityConfig.toString', 'unknown severity level; ignored'],
+      ['severityConfig.INFO.constructor', 'unknown field; ignored'],
+    ])
+  })
+
+  it('keeps a recorded gate result and drops malformed ones', () => {
+    const gate = { passed: false, thresholds: [{ label: 'HIGH or above', count: 2, limit: 0 }] }
+    expect(validateReport({ findings: [], gate }).report?.gate).toEqual(gate)
+
+    const result = validateReport({ findings: [], gate: { passed: 'no', thresholds: [] } })
+    expect(result.report?.gate).toBeUndefined()
+    expect(result.issues).toEqual([
+      expect.objectContaining({ level: 'warning', path: 'gate', message: 'expected a gate result; ignored' }),
+    ])
+  })
+
+  it('validates baseline statuses and fixed findings', () => {
+    const result = validateReport({
+      findings: [mockFinding({ status: 'new' }), mockFinding({ status: 'gone' as any })],
+      baseline: { scanDate: '2025-01-01T00:00:00Z', fixed: [mockFinding({ status: 'fixed' }), { tool: 'Grype' }] },
+    })
+
+    expect(result.report?.findings).toHaveLength(1)
+    expect(result.report?.baseline?.fixed).toEqual([expect.objectContaining({ status: 'fixed', fingerprint: expect.any(String) })])
+    expect(result.issues.map(issue => issue.path)).toEqual([
+      'findings[1].status',
+      'baseline.fixed[1].severity',
+      'baseline.fixed[1].message',
+      'baseline.fixed[1].location',
+    ])
+
+    expect(validateReport({ findings: [], baseline: [] }).issues).toEqual([
+      expect.objectContaining({ level: 'warning', path: 'baseline', message: 'expected a baseline comparison; ignored' }),
+    ])
+  })
+
+  it('validates suppression results', () => {
+    const suppression = { rule: 'CVE-1', justification: 'Not reachable', owner: 'alice', expires: '2099-01-01' }
+    const result = validateReport({
+      findings: [mockFinding({ suppression: { ...suppression, expires: 'soon' } })],
+      suppressions: {
+        suppressed: [mockFinding({ suppression }), { tool: 'Grype' }],
+        expired: [],
+        unused: [{ tool: 'Checkov' }],
+      },
+    })
+
+    expect(result.report?.findings).toEqual([])
+    expect(result.report?.suppressions).toEqual({
+      suppressed: [expect.objectContaining({ suppression, fingerprint: expect.any(String) })],
+      expired: [],
+      unused: [],
+    })
+    expect(result.issues.map(issue => [issue.level, issue.path])).toEqual([
+      ['error', 'findings[0].suppression'],
+      ['error', 'suppressions.suppressed[1].severity'],
+      ['error', 'suppressions.suppressed[1].message'],
+      ['error', 'suppressions.suppressed[1].location'],
+      ['warning', 'suppressions.unused[0].justification'],
+      ['warning', 'suppressions.unused[0].owner'],
+      ['warning', 'suppressions.unused[0].expires'],
+    ])
+  })
+
+  it('checks the list of redacted fields', () => {
+    const result = validateReport({
+      findings: [mockFinding({ redacted: ['message'] }), mockFinding({ redacted: ['location'] as any })],
+    })
+
+    expect(result.report?.findings).toEqual([expect.objectContaining({ redacted: ['message'] })])
+    expect(result.issues.map(issue => [issue.path, issue.message])).toEqual([
+      ['findings[1].redacted', 'expected a list of message, description, pattern'],
+    ])
+  })
+
+  it('keeps the usable branding fields', () => {
+    const result = validateReport({
+      findings: [],
+      branding: { companyName: 'Acme Corp', logo: 'https://example.com/logo.png' },
+    })
+
+    expect(result.report?.branding).toEqual({ companyName: 'Acme Corp' })
+    expect(result.issues).toEqual([
+      expect.objectContaining({ level: 'warning', path: 'branding.logo', message: 'expected a base64 data:image URI; ignored' }),
+    ])
+  })
+
+  it('keeps a well-formed trend and drops a broken one', () => {
+    const trend = {
+      scans: [{ scanDate: '2025-01-01T00:00:00Z', total: 1, bySeverity: { HIGH: 1 }, byTool: { Grype: 1 } }],
+      remediation: { count: 1, meanDays: 2, bySeverity: { HIGH: { count: 1, meanDays: 2 } } },
+    }
+    expect(validateReport({ findings: [], trend }).report?.trend).toEqual(trend)
+
+    const broken = { ...trend, scans: [{ ...trend.scans[0], byTool: { Grype: 'one' } }] }
+    const result = validateReport({ findings: [], trend: broken })
+    expect(result.report?.trend).toBeUndefined()
+    expect(result.issues).toEqual([
+      expect.objectContaining({ level: 'warning', path: 'trend', message: 'expected a trend across scans; ignored' }),
+    ])
+    expect(validateReport({ findings: [], trend: { ...trend, remediation: { count: 0 } } }).report?.trend).toBeUndefined()
+  })
+
+  it('adds line numbers when given the source', () => {
+    const source = JSON.stringify({ findings: [mockFinding(), mockFinding({ severity: 'SEVERE' as any })] }, null, 2)
+    const [issue] = validateReport(JSON.parse(source), source).issues
+
+    expect(issue.path).toBe('findings[1].severity')
+    expect(issue.line).toBe(source.split('\n').findIndex(line => line.includes('SEVERE')) + 1)
+  })
+
+  it('points missing fields at their finding', () => {
+    const source = '{\n  "findings": [\n    { "tool": "Grype", "severity": "HIGH", "location": "a" }\n  ]\n}'
+    const [issue] = validateReport(JSON.parse(source), source).issues
+
+    expect(issue).toMatchObject({ path: 'findings[0].message', line: 3 })
+  })
+})
+
+describe('loadReport', () => {
+  it('validates reports in reporter format', () => {
+    const result = loadReport(JSON.stringify(mockASHReport()))
+    expect(result.report?.findings).toHaveLength(4)
+  })
+
+  it('converts other formats before validating', () => {
+    const result = loadReport(JSON.stringify(loadFixture('ash/aggregated_results.json')))
+
+    expect(result.issues).toEqual([])
+    expect(result.report?.findings).toHaveLength(15)
+  })
+
+  it('reports scanner findings that could not be imported as errors', () => {
+    const results = loadFixture('ash/aggregated_results.json')
+    results.additional_reports.bandit = { report: results.additional_reports.bandit }
+    const result = loadReport(JSON.stringify(results))
+
+    expect(result.report?.findings).toHaveLength(13)
+    expect(result.issues.map(issue => [issue.level, issue.path])).toEqual([
+      ['error', 'additional_reports.bandit'],
+      ['error', 'scanner_results.bandit.finding_count'],
+    ])
+  })
+
+  it('throws on malformed JSON', () => {
+    expect(() => loadReport('{ invalid json')).toThrow(JsonSyntaxError)
+  })
+
+  it('throws on unrecognized formats', () => {
+    expect(() => loadReport('{"results": []}')).toThrow('Unrecognized report format')
+  })
+})
+
+describe('validateSuppressions', () => {
+  it('keeps complete entries and warns about the rest', () => {
+    const warnings: string[] = []
+    const valid = { tool: 'Grype', justification: 'Dev only', owner: 'alice', expires: '2025-12-31' }
+    const result = validateSuppressions(
+      [
+        valid,
+        { ...valid, team: 'platform' },
+        { justification: 'Nothing to match', owner: 'bob', expires: '2025-12-31' },
+        { ...valid, owner: '', expires: '31/12/2025' },
+        { ...valid, rule: 42 },
+        { ...valid, path: 'src/{*.js' },
+        'CVE-1',
+      ],
+      (path, message) => warnings.push(`${path}: ${message}`),
+    )
+
+    expect(result).toEqual([valid, valid])
+    expect(warnings).toEqual([
+      'suppressions[1].team: unknown field; ignored',
+      'suppressions[2]: needs a tool, rule, path or fingerprint to match; suppression ignored',
+      'suppressions[3].owner: expected a non-empty string; suppression ignored',
+      'suppressions[3].expires: expected a YYYY-MM-DD date; suppression ignored',
+      'suppressions[4].rule: expected a non-empty string; suppression ignored',
+      'suppressions[5].path: has an unclosed "{"; suppression ignored',
+      'suppressions[6]: expected an object; ignored',
+    ])
+  })
+
+  it('rejects a list that is not an array', () => {
+    const warnings: string[] = []
+    expect(validateSuppressions({}, (path, message) => warnings.push(`${path}: ${message}`))).toEqual([])
+    expect(warnings).toEqual(['suppressions: expected an array of suppressions; ignored'])
+  })
+})
+
+describe('validateBranding', () => {
+  const validate = (value: unknown) => {
+    const warnings: string[] = []
+    const branding = validateBranding(value, (path, message) => warnings.push(`${path}: ${message}`))
+    return { branding, warnings }
+  }
+
+  it('accepts complete branding', () => {
+    const branding = {
+      companyName: 'Acme Corp',
+      logo: 'data:image/png;base64,iVBORw0KGgo=',
+      classification: 'CONFIDENTIAL',
+      footer: 'For internal distribution only',
+      accentColor: '#7c3aed',
+      bannerColor: 'rgb(153 27 27)',
+    }
+    expect(validate(branding)).toEqual({ branding, warnings: [] })
+  })
+
+  it('drops unknown fields and unsafe values', () => {
+    expect(validate({ company: 'Acme', accentColor: 'red;}', classification: '', toString: 'x' })).toEqual({
+      branding: {},
+      warnings: [
+        'branding.company: unknown field; ignored',
+        'branding.accentColor: expected a CSS color such as #1d4ed8; ignored',
+        'branding.classification: expected a non-empty string; ignored',
+        'branding.toString: unknown field; ignored',
+      ],
+    })
+  })
+
+  it('ignores anything but an object', () => {
+    expect(validate(undefined)).toEqual({ branding: undefined, warnings: [] })
+    expect(validate(['Acme'])).toEqual({ branding: undefined, warnings: ['branding: expected an object; ignored'] })
+  })
+})
@@ -36,6 +36,18 @@ Object.defineProperty(window, 'scrollTo', {
   writable: true,
 })
 
+// Polyfill Blob.text (jsdom only implements FileReader)
+if (!Blob.prototype.text) {
+  Blob.prototype.text = function (this: Blob) {
+    return new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsText(this)
+    })
+  }
+}
+
 // Mock console methods to reduce noise in tests (optional)
 global.console = {
   ...console,
@@ -1,3 +1,6 @@
+import { readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
 import { render, RenderOptions } from '@testing-library/preact'
 import { ComponentChildren } from 'preact'
 import { expect } from 'vitest'
@@ -91,6 +94,13 @@ export const clearMockEmbeddedData = () => {
   }
 }
 
+// Load a captured scanner output from src/test/fixtures
+export const fixturePath = (path: string) =>
+  join(dirname(fileURLToPath(import.meta.url)), 'fixtures', path)
+
+export const loadFixture = <T = any>(path: string): T =>
+  JSON.parse(readFileSync(fixturePath(path), 'utf-8'))
+
 // Re-export everything from testing library for convenience
 export * from '@testing-library/preact'
 export { userEvent } from '@testing-library/user-event' 
\ No newline at end of file
@@ -1,9 +1,16 @@
 // ASH Data Type Definitions
-export type SeverityLevel = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+export type SeverityLevel =
+  | "CRITICAL"
+  | "HIGH"
+  | "MEDIUM"
+  | "LOW"
+  | "INFO"
+  | "UNKNOWN";
 
 export interface Finding {
   tool: string;
   severity: SeverityLevel;
+  ruleId?: string;
   message: string;
   location: string;
   description?: string;
@@ -12,23 +19,158 @@ export interface Finding {
   pattern?: string;
   cve?: string;
   score?: number;
+  // Source project/scan when several reports were merged
+  project?: string;
+  // Stable identifier across scans, see lib/fingerprint.ts
+  fingerprint?: string;
+  // Compared with a baseline scan, set by `generate --baseline`
+  status?: FindingStatus;
+  // The suppression that hid this finding, or an expired one that matched it
+  suppression?: Suppression;
+  // Fields whose secrets were masked by the generator
+  redacted?: RedactedField[];
 }
 
+export type FindingStatus = "new" | "existing" | "fixed";
+
+export type RedactedField = "message" | "description" | "pattern";
+
 export interface ScanMetadata {
   scanDate: string;
   totalFindings: number;
   tools: string[];
   duration?: number;
   version?: string;
+  project?: string;
+  // Per-scan metadata when several reports were merged
+  projects?: ProjectScan[];
+}
+
+export interface ProjectScan extends Omit<ScanMetadata, "projects"> {
+  project: string;
 }
 
 export interface ASHReport {
+  // Shown as the report heading, set with `generate --title`
+  title?: string;
   findings: Finding[];
   metadata: ScanMetadata;
+  // Report-level overrides for how severities are labelled and ordered
+  severityConfig?: SeverityOverrides;
+  // Build gate result, set by `generate --fail-on` or `--max`
+  gate?: QualityGate;
+  // Set by `generate --baseline`; findings then carry a status
+  baseline?: BaselineComparison;
+  // Set by `generate --suppressions`
+  suppressions?: SuppressionResult;
+  // Company name, logo and classification, from the `branding` config
+  branding?: Branding;
+  // Set by `generate --trend`; the findings are those of the latest scan
+  trend?: Trend;
+}
+
+export interface Trend {
+  // Oldest first
+  scans: TrendScan[];
+  remediation: RemediationSummary;
+}
+
+// Finding counts of one scan in a trend
+export interface TrendScan {
+  scanDate: string;
+  total: number;
+  bySeverity: Partial<Record<SeverityLevel, number>>;
+  byTool: Record<string, number>;
+}
+
+// Findings whose fingerprint disappeared in a later scan
+export interface RemediationStats {
+  count: number;
+  // Mean days from the first scan with a finding to the first without it
+  meanDays?: number;
+}
+
+export interface RemediationSummary extends RemediationStats {
+  // By the severity the finding had when it was last seen
+  bySeverity: Partial<Record<SeverityLevel, RemediationStats>>;
+}
+
+export interface Branding {
+  companyName?: string;
+  // A data:image URI, so the page stays self-contained
+  logo?: string;
+  // Banner text shown above and below the report, e.g. "CONFIDENTIAL"
+  classification?: string;
+  footer?: string;
+  // CSS colors for links, buttons and active tabs, and for the banner
+  accentColor?: string;
+  bannerColor?: string;
+}
+
+export interface BaselineComparison {
+  // When the baseline scan ran
+  scanDate: string;
+  // Baseline findings no longer reported, kept apart so counts and gates
+  // only see the current scan
+  fixed: Finding[];
+}
+
+export interface GateThreshold {
+  // What was counted, e.g. "HIGH or above" or a tool name
+  label: string;
+  count: number;
+  // Most findings allowed
+  limit: number;
+}
+
+export interface QualityGate {
+  passed: boolean;
+  thresholds: GateThreshold[];
 }
 
 export interface SeverityConfig {
+  label: string;
+  // Tailwind classes for the built-in levels
   color: string;
   icon: string;
+  // Higher sorts first
   priority: number;
+  // Only show a summary card and filter chip when findings have this level
+  hideWhenEmpty?: boolean;
+  // CSS color from a report's configuration, takes precedence over `color`
+  accent?: string;
+}
+
+export interface SeverityOverride {
+  label?: string;
+  icon?: string;
+  priority?: number;
+  hideWhenEmpty?: boolean;
+  // Any CSS color, e.g. "#7c3aed"
+  color?: string;
+}
+
+export type SeverityOverrides = Partial<Record<SeverityLevel, SeverityOverride>>;
+
+// An accepted risk from a suppression file. Every matcher given must match.
+export interface Suppression {
+  tool?: string;
+  // Matches the rule ID, pattern or CVE
+  rule?: string;
+  // Glob matched against the finding's location
+  path?: string;
+  fingerprint?: string;
+  justification: string;
+  owner: string;
+  // Last day the suppression applies, YYYY-MM-DD
+  expires: string;
+}
+
+export interface SuppressionResult {
+  // Findings hidden by a suppression, kept apart like fixed findings
+  suppressed: Finding[];
+  // Past their expiry date but still matching findings, which are shown again
+  expired: Suppression[];
+  // Matched no finding
+  unused: Suppression[];
 }
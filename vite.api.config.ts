@@ -0,0 +1,30 @@
+import { defineConfig } from 'vite';
+import preact from '@preact/preset-vite';
+
+// The Node API (src/api) and the ash-report CLI as ES modules for Node.
+// Dependencies stay external; the declarations come from tsconfig.api.json.
+export default defineConfig({
+	plugins: [
+		preact(),
+	],
+	publicDir: false,
+	build: {
+		ssr: true,
+		outDir: 'dist/api',
+		rollupOptions: {
+			input: {
+				index: 'src/api/index.ts',
+				cli: 'src/cli/main.ts',
+			},
+			output: {
+				entryFileNames: '[name].js',
+				// Shared code stays beside the entries, two levels below the
+				// package root like the sources, so the assets are found
+				chunkFileNames: 'shared-[hash].js',
+				banner: (chunk) => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
+			},
+		},
+		target: 'node20',
+		minify: false,
+	},
+});